@@ -0,0 +1,149 @@
+// server/coopRoom.test.ts
+import { describe, it, expect } from 'vitest';
+import { CoopRoom, isValidPuzzleSetup } from './coopRoom';
+import type { CoopPuzzleSetup, CoopServerMessage } from '../src/coopProtocol';
+
+const PUZZLE: CoopPuzzleSetup = {
+    rows: 2, cols: 2, seed: 1, imageSource: 'puzzle.jpg', rotation: false, tileWidth: 1, tileHeight: 1, depth: 0.1
+};
+
+function createPlayer(room: CoopRoom, name: string) {
+    const received: CoopServerMessage[] = [];
+    const id = room.join({ send: message => received.push(message) }, name);
+    const last = <T extends CoopServerMessage['type']>(type: T) =>
+        received.filter(message => message.type === type).pop() as Extract<CoopServerMessage, { type: T }> | undefined;
+    return { id, received, last };
+}
+
+// Position finale de la pièce d'index donné dans un puzzle 2 x 2 de cases unitaires
+function targetOf(index: number): [number, number, number] {
+    return [index % 2 === 0 ? 0.5 : -0.5, index < 2 ? 0.5 : -0.5, 0.2];
+}
+
+describe('salle coopérative', () => {
+    it('envoie tout l’état courant à un joueur qui arrive en cours de partie', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        room.handle(alice.id, { type: 'grab', piece: 0 });
+        room.handle(alice.id, { type: 'move', piece: 0, position: [3, 4, 0.2] });
+
+        const bob = createPlayer(room, 'Bob');
+        const welcome = bob.last('welcome')!;
+        expect(welcome.players.map(player => player.name)).toEqual(['Alice', 'Bob']);
+        expect(welcome.state.holders).toEqual([[0, alice.id]]);
+        const [x, y] = welcome.state.pieces[0].position;
+        expect(x).toBeCloseTo(3);
+        expect(y).toBeCloseTo(4);
+        expect(alice.last('playerJoined')?.player.name).toBe('Bob');
+    });
+
+    it('empêche deux joueurs de tenir le même groupe', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        const bob = createPlayer(room, 'Bob');
+
+        room.handle(alice.id, { type: 'grab', piece: 1 });
+        expect(bob.last('held')).toEqual({ type: 'held', piece: 1, playerId: alice.id });
+
+        room.handle(bob.id, { type: 'grab', piece: 1 });
+        expect(bob.last('grabDenied')).toEqual({ type: 'grabDenied', piece: 1 });
+        room.handle(bob.id, { type: 'move', piece: 1, position: [9, 9, 0] });
+        expect(room.state.pieces[1].position[0]).not.toBe(9);
+
+        // Lâchée loin des autres pièces : ne s'emboîte pas (sinon verrouillée, elle ne se saisit plus)
+        room.handle(alice.id, { type: 'move', piece: 1, position: [9, 9, 0.2] });
+        room.handle(alice.id, { type: 'drop', piece: 1 });
+        room.handle(bob.id, { type: 'grab', piece: 1 });
+        expect(alice.last('held')).toEqual({ type: 'held', piece: 1, playerId: bob.id });
+    });
+
+    it('applique l’emboîtement au lâcher et annonce la victoire', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        const bob = createPlayer(room, 'Bob');
+
+        for (const index of [0, 1, 2, 3]) {
+            room.handle(alice.id, { type: 'grab', piece: index });
+            room.handle(alice.id, { type: 'move', piece: index, position: targetOf(index) });
+            room.handle(alice.id, { type: 'drop', piece: index });
+            expect(bob.last('dropped')).toEqual({ type: 'dropped', piece: index, playerId: alice.id, snapped: true });
+            expect(bob.last('pieces')?.pieces.find(piece => piece.index === index)?.locked).toBe(true);
+        }
+        expect(bob.last('solved')).toEqual({ type: 'solved' });
+        expect(room.state.solved).toBe(true);
+
+        room.handle(bob.id, { type: 'grab', piece: 0 });
+        expect(bob.last('grabDenied')).toBeDefined();
+    });
+
+    it('laisse en l’air une pièce lâchée loin de la table', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        room.handle(alice.id, { type: 'grab', piece: 0 });
+        room.handle(alice.id, { type: 'move', piece: 0, position: [0.5, 0.5, 1.2] });
+        room.handle(alice.id, { type: 'drop', piece: 0, snap: false });
+
+        expect(alice.last('dropped')).toEqual({ type: 'dropped', piece: 0, playerId: alice.id, snapped: false });
+        expect(room.state.pieces[0].position[2]).toBeCloseTo(1.2);
+        expect(room.state.pieces[0].locked).toBe(false);
+    });
+
+    it('relâche les pièces d’un joueur qui s’en va', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        const bob = createPlayer(room, 'Bob');
+        room.handle(alice.id, { type: 'grab', piece: 2 });
+        room.leave(alice.id);
+
+        expect(bob.last('held')).toEqual({ type: 'held', piece: 2, playerId: null });
+        expect(bob.last('playerLeft')).toEqual({ type: 'playerLeft', playerId: alice.id });
+        expect(room.state.holders).toEqual([]);
+    });
+
+    it('remélange pour tous et change de puzzle à la demande', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        const bob = createPlayer(room, 'Bob');
+        room.handle(alice.id, { type: 'reset' });
+        expect(bob.last('state')?.state.pieces).toHaveLength(4);
+
+        room.handle(bob.id, { type: 'newPuzzle', puzzle: { ...PUZZLE, rows: 3, cols: 3 } });
+        expect(alice.last('state')?.state.puzzle.rows).toBe(3);
+        expect(alice.last('state')?.state.pieces).toHaveLength(9);
+
+        room.handle(bob.id, { type: 'newPuzzle', puzzle: { ...PUZZLE, rows: 0 } });
+        expect(bob.last('error')).toBeDefined();
+    });
+
+    it('relaie les curseurs aux autres joueurs seulement', () => {
+        const room = new CoopRoom(PUZZLE, null);
+        const alice = createPlayer(room, 'Alice');
+        const bob = createPlayer(room, 'Bob');
+        room.handle(alice.id, { type: 'cursor', origin: [1, 2, 0], direction: null });
+        expect(bob.last('cursor')).toEqual({ type: 'cursor', playerId: alice.id, origin: [1, 2, 0], direction: null });
+        expect(alice.last('cursor')).toBeUndefined();
+    });
+
+    it('mélange les pièces selon la graine du puzzle', () => {
+        const positions = (room: CoopRoom) => room.state.pieces.map(piece => piece.position);
+        const room = new CoopRoom(PUZZLE, null);
+        expect(positions(new CoopRoom(PUZZLE, null))).toEqual(positions(room));
+        expect(positions(new CoopRoom({ ...PUZZLE, seed: 2 }, null))).not.toEqual(positions(room));
+
+        // Recommencer redonne la disposition de départ du même défi
+        const alice = createPlayer(room, 'Alice');
+        const start = positions(room);
+        room.handle(alice.id, { type: 'grab', piece: 0 });
+        room.handle(alice.id, { type: 'move', piece: 0, position: [3, 4, 0.2] });
+        room.handle(alice.id, { type: 'reset' });
+        expect(positions(room)).toEqual(start);
+    });
+
+    it('valide le puzzle proposé par un joueur', () => {
+        expect(isValidPuzzleSetup(PUZZLE)).toBe(true);
+        expect(isValidPuzzleSetup({ ...PUZZLE, tileWidth: -1 })).toBe(false);
+        expect(isValidPuzzleSetup({ ...PUZZLE, rows: 1 })).toBe(false);
+        expect(isValidPuzzleSetup({ ...PUZZLE, cols: 41 })).toBe(false);
+        expect(isValidPuzzleSetup(null)).toBe(false);
+    });
+});
@@ -0,0 +1,258 @@
+// server/coopRoom.ts
+// Salle d'une session coopérative : un puzzle, ses joueurs et l'état de référence des pièces.
+// Les règles (emboîtement, verrouillage, victoire) sont celles du jeu, via le même PuzzleModel.
+import { PuzzleModel, PieceState } from '../src/puzzleModel';
+import { SavedPiece, areValidPieceStates } from '../src/puzzleStorage';
+import { createShuffleRandom } from '../src/random';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from '../src/gridSize';
+import type { CoopClientMessage, CoopServerMessage, CoopPlayer, CoopPuzzleSetup, CoopRoomState } from '../src/coopProtocol';
+
+export interface CoopConnection {
+    send(message: CoopServerMessage): void;
+}
+
+const PLAYER_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324'];
+
+export class CoopRoom {
+    private _puzzle!: CoopPuzzleSetup;
+    private _model!: PuzzleModel;
+    private _players: Map<number, { player: CoopPlayer, connection: CoopConnection }> = new Map();
+    private _holders: Map<number, number> = new Map();     // Pièce saisie -> joueur qui la tient
+    private _solved: boolean = false;
+    private _nextPlayerId: number = 1;
+
+    // La salle démarre avec le puzzle (et l'avancement) du joueur qui la crée
+    constructor(puzzle: CoopPuzzleSetup, pieces: unknown) {
+        this._setPuzzle(puzzle);
+        if (areValidPieceStates(pieces, this._model.pieces.length)) {
+            this._model.applyState(pieces);
+        } else {
+            this._model.shuffle({ rotation: puzzle.rotation, faceDown: puzzle.faceDown === true, random: createShuffleRandom(puzzle.seed) });
+        }
+        this._solved = this._model.getStatus() === 'solved';
+    }
+
+    public get isEmpty(): boolean {
+        return this._players.size === 0;
+    }
+
+    public get state(): CoopRoomState {
+        return {
+            puzzle: this._puzzle,
+            pieces: this._model.captureState(),
+            holders: Array.from(this._holders),
+            solved: this._solved
+        };
+    }
+
+    // Un nouveau joueur reçoit tout l'état courant ; les autres sont prévenus de son arrivée
+    public join(connection: CoopConnection, name: string): number {
+        const id = this._nextPlayerId++;
+        const player: CoopPlayer = {
+            id,
+            name: name.trim().slice(0, 32) || `Joueur ${id}`,
+            color: PLAYER_COLORS[(id - 1) % PLAYER_COLORS.length]
+        };
+        this._broadcast({ type: 'playerJoined', player });
+        this._players.set(id, { player, connection });
+        connection.send({
+            type: 'welcome',
+            playerId: id,
+            players: Array.from(this._players.values(), entry => entry.player),
+            state: this.state
+        });
+        return id;
+    }
+
+    // Les pièces tenues par un joueur qui s'en va sont reposées là où elles sont
+    public leave(playerId: number): void {
+        if (!this._players.delete(playerId)) return;
+        for (const [pieceIndex, holder] of Array.from(this._holders)) {
+            if (holder === playerId) this._release(pieceIndex, playerId);
+        }
+        this._broadcast({ type: 'playerLeft', playerId });
+    }
+
+    public handle(playerId: number, message: CoopClientMessage): void {
+        const sender = this._players.get(playerId);
+        if (!sender || !message || typeof message !== 'object') return;
+
+        switch (message.type) {
+            case 'grab': return this._grab(playerId, message.piece);
+            case 'move': return this._move(playerId, message.piece, message.position);
+            case 'rotate': return this._rotate(playerId, message.piece, message.steps);
+            case 'flip': return this._flip(playerId, message.piece);
+            case 'drop': return this._release(message.piece, playerId, message.snap !== false);
+            case 'cursor':
+                if (!isVector(message.origin) || (message.direction !== null && !isVector(message.direction))) return;
+                this._broadcast({ type: 'cursor', playerId, origin: message.origin, direction: message.direction }, playerId);
+                return;
+            case 'reset':
+                this._restart();
+                return;
+            case 'newPuzzle':
+                if (!isValidPuzzleSetup(message.puzzle)) {
+                    sender.connection.send({ type: 'error', message: "Puzzle invalide." });
+                    return;
+                }
+                this._setPuzzle(message.puzzle);
+                this._restart();
+                return;
+        }
+    }
+
+    private _setPuzzle(puzzle: CoopPuzzleSetup): void {
+        this._puzzle = puzzle;
+        this._model = new PuzzleModel({
+            rows: puzzle.rows, cols: puzzle.cols, tileWidth: puzzle.tileWidth, tileHeight: puzzle.tileHeight, depth: puzzle.depth,
+            freeForm: puzzle.freeForm === true,
+            doubleSided: typeof puzzle.backImageSource === 'string'
+        });
+        this._holders.clear();
+    }
+
+    private _restart(): void {
+        this._holders.clear();
+        this._model.shuffle({
+            rotation: this._puzzle.rotation, faceDown: this._puzzle.faceDown === true, random: createShuffleRandom(this._puzzle.seed)
+        });
+        this._solved = false;
+        this._broadcast({ type: 'state', state: this.state });
+    }
+
+    // Un seul joueur à la fois par groupe de pièces ; une demande refusée renvoie l'état de référence
+    private _grab(playerId: number, pieceIndex: number): void {
+        const piece = this._getPiece(pieceIndex);
+        if (!piece) return;
+        const heldBy = this._getClusterHolder(piece);
+        if (piece.isLocked || this._solved || (heldBy !== null && heldBy !== playerId)) {
+            this._sendTo(playerId, { type: 'grabDenied', piece: pieceIndex });
+            this._sendTo(playerId, { type: 'pieces', pieces: this._captureCluster(piece) });
+            return;
+        }
+        this._holders.set(pieceIndex, playerId);
+        this._model.liftCluster(piece, this._puzzle.depth * 2);
+        this._broadcast({ type: 'held', piece: pieceIndex, playerId });
+        this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) }, playerId);
+    }
+
+    private _move(playerId: number, pieceIndex: number, position: [number, number, number]): void {
+        const piece = this._getPiece(pieceIndex);
+        if (!piece || this._holders.get(pieceIndex) !== playerId || !isVector(position)) return;
+        this._model.moveCluster(piece, position[0] - piece.position.x, position[1] - piece.position.y, position[2] - piece.position.z);
+        this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) }, playerId);
+    }
+
+    // Rotation en main, ou sur la table (la pièce peut alors s'emboîter immédiatement)
+    private _rotate(playerId: number, pieceIndex: number, steps: number): void {
+        const piece = this._getPiece(pieceIndex);
+        if (!piece || !Number.isInteger(steps) || !this._puzzle.rotation) return;
+        const heldBy = this._getClusterHolder(piece);
+        if (heldBy !== null && heldBy !== playerId) {
+            this._sendTo(playerId, { type: 'pieces', pieces: this._captureCluster(piece) });
+            return;
+        }
+        if (!this._model.rotateCluster(piece, steps)) return;
+
+        if (heldBy === null) {
+            const snapped = this._model.snap(piece, neighbour => this._getClusterHolder(neighbour) === null);
+            this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) });
+            if (snapped) this._broadcast({ type: 'dropped', piece: pieceIndex, playerId, snapped });
+            this._checkSolved();
+        } else {
+            this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) }, playerId);
+        }
+    }
+
+    // Retournement en main, ou sur la table (la pièce peut alors s'emboîter immédiatement)
+    private _flip(playerId: number, pieceIndex: number): void {
+        const piece = this._getPiece(pieceIndex);
+        if (!piece) return;
+        const heldBy = this._getClusterHolder(piece);
+        if (heldBy !== null && heldBy !== playerId) {
+            this._sendTo(playerId, { type: 'pieces', pieces: this._captureCluster(piece) });
+            return;
+        }
+        if (!this._model.flipCluster(piece)) return;
+
+        if (heldBy === null) {
+            const snapped = this._model.snap(piece, neighbour => this._getClusterHolder(neighbour) === null);
+            this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) });
+            if (snapped) this._broadcast({ type: 'dropped', piece: pieceIndex, playerId, snapped });
+            this._checkSolved();
+        } else {
+            this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) }, playerId);
+        }
+    }
+
+    // Lâcher : emboîtement selon les règles du jeu, hors groupes tenus par d'autres joueurs
+    private _release(pieceIndex: number, playerId: number, snap: boolean = true): void {
+        const piece = this._getPiece(pieceIndex);
+        if (!piece || this._holders.get(pieceIndex) !== playerId) return;
+        this._holders.delete(pieceIndex);
+        const isFree = (other: PieceState) => this._getClusterHolder(other) === null;
+        const snapped = snap && this._model.snap(piece, isFree);
+        // Les pièces qui reposaient sur le groupe lâché retombent sur ce qu'il reste en dessous
+        const fallen = new Set(this._model.settleStacks(isFree));
+        this._broadcast({ type: 'held', piece: pieceIndex, playerId: null });
+        this._broadcast({ type: 'pieces', pieces: this._captureCluster(piece) });
+        if (fallen.size > 0) {
+            this._broadcast({ type: 'pieces', pieces: this._model.captureState().filter(saved => fallen.has(this._model.getPiece(saved.index))) });
+        }
+        this._broadcast({ type: 'dropped', piece: pieceIndex, playerId, snapped });
+        this._checkSolved();
+    }
+
+    private _checkSolved(): void {
+        if (this._solved || this._model.getStatus() !== 'solved') return;
+        this._solved = true;
+        this._broadcast({ type: 'solved' });
+    }
+
+    private _getPiece(index: unknown): PieceState | null {
+        return Number.isInteger(index) && (index as number) >= 0 && (index as number) < this._model.pieces.length
+            ? this._model.getPiece(index as number)
+            : null;
+    }
+
+    // Joueur qui tient une pièce du groupe, ou null
+    private _getClusterHolder(piece: PieceState): number | null {
+        for (const member of piece.cluster.pieces) {
+            const holder = this._holders.get(member.index);
+            if (holder !== undefined) return holder;
+        }
+        return null;
+    }
+
+    private _captureCluster(piece: PieceState): SavedPiece[] {
+        const members = piece.cluster.pieces;
+        return this._model.captureState().filter(saved => members.has(this._model.getPiece(saved.index)));
+    }
+
+    private _sendTo(playerId: number, message: CoopServerMessage): void {
+        this._players.get(playerId)?.connection.send(message);
+    }
+
+    private _broadcast(message: CoopServerMessage, exceptPlayerId: number | null = null): void {
+        this._players.forEach((entry, id) => {
+            if (id !== exceptPlayerId) entry.connection.send(message);
+        });
+    }
+}
+
+export function isValidPuzzleSetup(puzzle: unknown): puzzle is CoopPuzzleSetup {
+    const setup = puzzle as CoopPuzzleSetup;
+    const isGridSize = (value: unknown) => Number.isInteger(value) && (value as number) >= MIN_GRID_SIZE && (value as number) <= MAX_GRID_SIZE;
+    const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+    return !!setup && typeof setup === 'object'
+        && isGridSize(setup.rows) && isGridSize(setup.cols)
+        && typeof setup.seed === 'number' && typeof setup.imageSource === 'string' && typeof setup.rotation === 'boolean'
+        && (setup.freeForm === undefined || typeof setup.freeForm === 'boolean')
+        && (setup.backImageSource === undefined || setup.backImageSource === null || typeof setup.backImageSource === 'string')
+        && (setup.faceDown === undefined || typeof setup.faceDown === 'boolean')
+        && isPositive(setup.tileWidth) && isPositive(setup.tileHeight) && isPositive(setup.depth);
+}
+
+function isVector(value: unknown): value is [number, number, number] {
+    return Array.isArray(value) && value.length === 3 && value.every(component => typeof component === 'number' && Number.isFinite(component));
+}
@@ -0,0 +1,71 @@
+// server/coopServer.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { startCoopServer } from './coopServer';
+import type { CoopClientMessage, CoopPuzzleSetup, CoopServerMessage } from '../src/coopProtocol';
+
+const PUZZLE: CoopPuzzleSetup = {
+    rows: 2, cols: 3, seed: 7, imageSource: 'puzzle.jpg', rotation: true, tileWidth: 0.5, tileHeight: 0.5, depth: 0.1
+};
+
+// Client de test : file des messages reçus, lus dans l'ordre
+async function connect(port: number) {
+    const socket = new WebSocket(`ws://localhost:${port}`);
+    const queue: CoopServerMessage[] = [];
+    const waiting: ((message: CoopServerMessage) => void)[] = [];
+    socket.on('message', data => {
+        const message = JSON.parse(String(data));
+        const resolve = waiting.shift();
+        if (resolve) resolve(message); else queue.push(message);
+    });
+    await new Promise(resolve => socket.once('open', resolve));
+    return {
+        socket,
+        send: (message: CoopClientMessage) => socket.send(JSON.stringify(message)),
+        next: () => new Promise<CoopServerMessage>(resolve => {
+            const message = queue.shift();
+            if (message) resolve(message); else waiting.push(resolve);
+        })
+    };
+}
+
+describe('serveur relais', () => {
+    let server: WebSocketServer;
+
+    afterEach(() => new Promise<void>(resolve => {
+        server.clients.forEach(client => client.terminate());
+        server.close(() => resolve());
+    }));
+
+    it('crée la salle avec le puzzle du premier joueur et la partage avec les suivants', async () => {
+        server = startCoopServer(0);
+        const port = (server.address() as AddressInfo).port;
+
+        const alice = await connect(port);
+        alice.send({ type: 'join', room: 'salon', name: 'Alice', puzzle: PUZZLE, pieces: [] });
+        const aliceWelcome = await alice.next();
+        expect(aliceWelcome.type).toBe('welcome');
+
+        alice.send({ type: 'grab', piece: 4 });
+        expect(await alice.next()).toEqual({ type: 'held', piece: 4, playerId: 1 });
+
+        const bob = await connect(port);
+        bob.send({ type: 'join', room: 'salon', name: 'Bob', puzzle: { ...PUZZLE, rows: 5 }, pieces: [] });
+        const bobWelcome = await bob.next();
+        if (bobWelcome.type !== 'welcome') throw new Error(bobWelcome.type);
+        expect(bobWelcome.state.puzzle).toEqual(PUZZLE);
+        expect(bobWelcome.state.holders).toEqual([[4, 1]]);
+        expect(await alice.next()).toMatchObject({ type: 'playerJoined', player: { id: 2, name: 'Bob' } });
+
+        bob.send({ type: 'grab', piece: 4 });
+        expect(await bob.next()).toEqual({ type: 'grabDenied', piece: 4 });
+    });
+
+    it('refuse tout message avant d’avoir rejoint une salle', async () => {
+        server = startCoopServer(0);
+        const client = await connect((server.address() as AddressInfo).port);
+        client.send({ type: 'grab', piece: 0 });
+        expect(await client.next()).toEqual({ type: 'error', message: "Rejoignez d'abord une salle." });
+    });
+});
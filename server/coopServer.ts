@@ -0,0 +1,62 @@
+// server/coopServer.ts
+// Serveur relais WebSocket des sessions coopératives : une salle par nom, créée par son premier joueur
+// et supprimée quand le dernier s'en va.
+import { WebSocketServer, WebSocket } from 'ws';
+import { CoopRoom, CoopConnection, isValidPuzzleSetup } from './coopRoom';
+import type { CoopClientMessage, CoopServerMessage } from '../src/coopProtocol';
+
+export function startCoopServer(port: number): WebSocketServer {
+    const rooms: Map<string, CoopRoom> = new Map();
+    const server = new WebSocketServer({ port });
+
+    server.on('connection', (socket: WebSocket) => {
+        let room: CoopRoom | null = null;
+        let roomName = '';
+        let playerId = 0;
+        const connection: CoopConnection = {
+            send: (message: CoopServerMessage) => {
+                if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+            }
+        };
+
+        socket.on('message', (data) => {
+            let message: CoopClientMessage;
+            try {
+                message = JSON.parse(String(data));
+            } catch {
+                connection.send({ type: 'error', message: "Message illisible." });
+                return;
+            }
+
+            if (room) {
+                room.handle(playerId, message);
+                return;
+            }
+
+            // Premier message : rejoindre une salle existante, ou la créer avec le puzzle du joueur
+            if (message?.type !== 'join' || typeof message.room !== 'string' || !message.room.trim()) {
+                connection.send({ type: 'error', message: "Rejoignez d'abord une salle." });
+                return;
+            }
+            roomName = message.room.trim();
+            room = rooms.get(roomName) ?? null;
+            if (!room) {
+                if (!isValidPuzzleSetup(message.puzzle)) {
+                    connection.send({ type: 'error', message: "Impossible de créer la salle : puzzle invalide." });
+                    return;
+                }
+                room = new CoopRoom(message.puzzle, message.pieces);
+                rooms.set(roomName, room);
+            }
+            playerId = room.join(connection, typeof message.name === 'string' ? message.name : '');
+        });
+
+        socket.on('close', () => {
+            if (!room) return;
+            room.leave(playerId);
+            if (room.isEmpty) rooms.delete(roomName);
+        });
+    });
+
+    return server;
+}
@@ -0,0 +1,8 @@
+// server/index.ts
+// Lancement du serveur relais : npm run server (port 8787 par défaut, ou variable d'environnement PORT)
+import { startCoopServer } from './coopServer';
+import { COOP_DEFAULT_PORT } from '../src/coopProtocol';
+
+const port = Number(process.env.PORT) || COOP_DEFAULT_PORT;
+startCoopServer(port);
+console.log(`Serveur de sessions coopératives à l'écoute sur ws://localhost:${port}`);
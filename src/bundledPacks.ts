@@ -0,0 +1,11 @@
+// src/bundledPacks.ts
+// Packs intégrés au jeu (src/assets/packs) : leurs images sont désignées par leur nom de fichier dans src/assets.
+import { PuzzlePack, validatePuzzlePack } from './puzzlePack';
+import puzzleImageUrl from './assets/puzzle.jpg';
+import decouverte from './assets/packs/decouverte.json';
+
+const BUNDLED_IMAGES: Record<string, string> = {
+    'puzzle.jpg': puzzleImageUrl
+};
+
+export const BUNDLED_PACKS: PuzzlePack[] = [decouverte].map(manifest => validatePuzzlePack(manifest, name => BUNDLED_IMAGES[name] ?? null));
@@ -0,0 +1,58 @@
+// src/cameraController.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import { NullEngine, Scene } from '@babylonjs/core';
+import { CameraController, CameraMode, getTwoFingerFrame } from './cameraController';
+
+describe('caméras (NullEngine)', () => {
+    let engine: NullEngine;
+
+    afterEach(() => engine?.dispose());
+
+    function createCameras(mode: CameraMode) {
+        engine = new NullEngine();
+        const scene = new Scene(engine);
+        return { scene, cameras: new CameraController(scene, null, mode) };
+    }
+
+    it('calcule le milieu et l’écart de deux doigts', () => {
+        expect(getTwoFingerFrame([{ x: 10, y: 20 }, { x: 40, y: 60 }])).toEqual({ x: 25, y: 40, distance: 50 });
+        expect(getTwoFingerFrame([{ x: 10, y: 20 }])).toBeNull();
+    });
+
+    it.each<CameraMode>(['table', 'orbit'])('garde sous les doigts le point de la table touché (%s)', (mode) => {
+        const { cameras } = createCameras(mode);
+        const anchor = cameras.pickTable(200, 100)!;
+        const span = cameras.getView().span;
+
+        cameras.beginGesture({ x: 200, y: 100, distance: 100 });
+        cameras.updateGesture({ x: 260, y: 140, distance: 150 });
+        cameras.endGesture();
+
+        const point = cameras.pickTable(260, 140)!;
+        expect(point.x).toBeCloseTo(anchor.x, 3);
+        expect(point.y).toBeCloseTo(anchor.y, 3);
+        expect(cameras.getView().span).toBeCloseTo(span / 1.5, 3);
+        expect(cameras.isGestureActive).toBe(false);
+    });
+
+    it('change de caméra en gardant la vue', () => {
+        const { scene, cameras } = createCameras('orbit');
+        const orbit = scene.activeCamera;
+        cameras.setView({ x: 1, y: -0.5, span: 4 });
+
+        cameras.setMode('table');
+        expect(scene.activeCamera).toBe(cameras.camera);
+        expect(scene.activeCamera).not.toBe(orbit);
+        const view = cameras.getView();
+        expect(view.x).toBeCloseTo(1);
+        expect(view.y).toBeCloseTo(-0.5);
+        expect(view.span).toBeCloseTo(4);
+        // Vue de dessus : le point visé est au centre de l'écran
+        const center = cameras.pickTable(engine.getRenderWidth() / 2, engine.getRenderHeight() / 2)!;
+        expect(center.x).toBeCloseTo(1);
+        expect(center.y).toBeCloseTo(-0.5);
+
+        cameras.reset();
+        expect(cameras.getView()).toMatchObject({ x: 0, y: 0 });
+    });
+});
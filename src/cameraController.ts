@@ -0,0 +1,344 @@
+// src/cameraController.ts
+// Caméras hors XR : l'orbite d'origine (ArcRotateCamera), ou la vue de table, orthographique et vue de dessus.
+// Les deux montrent une même « vue » (point visé sur la table, hauteur visible) que le changement de mode conserve.
+// La souris pilote la caméra active tant qu'elle est attachée (attachControl) ; les gestes à deux doigts,
+// le zoom sur une zone et la minicarte passent par les méthodes publiques.
+import {
+    Scene, ArcRotateCamera, TargetCamera, Camera, Vector3, Matrix, Plane, Observer, Animation, PointerEventTypes, PointerInfo,
+    KeyboardEventTypes, KeyboardInfo, IPointerEvent, IWheelEvent
+} from '@babylonjs/core';
+
+export type CameraMode = 'orbit' | 'table';
+
+// Point visé sur la table et hauteur de table visible à cet endroit, en unités de la scène
+export interface CameraView {
+    x: number;
+    y: number;
+    span: number;
+}
+
+// Deux doigts posés : leur milieu (coordonnées du canvas) et leur écart, en pixels
+export interface TwoFingerFrame {
+    x: number;
+    y: number;
+    distance: number;
+}
+
+const ORBIT_ALPHA = Math.PI / 2;
+const ORBIT_BETA = Math.PI / 2.5;
+const ORBIT_RADIUS = 10;
+const TABLE_CAMERA_HEIGHT = 50;     // La vue de table est orthographique : sa hauteur ne change que le plan de coupe
+const MIN_TABLE_SPAN = 0.5;
+const MAX_TABLE_SPAN = 40;
+const WHEEL_ZOOM_SPEED = 0.001;     // Molette en vue de table : facteur de zoom par pixel de défilement (exponentiel)
+const KEY_PAN_FRACTION = 0.1;       // Flèches en vue de table : déplacement en part de la largeur visible
+const TABLE_PLANE = Plane.FromPositionAndNormal(Vector3.Zero(), Vector3.Backward());
+
+export function getTwoFingerFrame(points: { x: number, y: number }[]): TwoFingerFrame | null {
+    if (points.length !== 2) return null;
+    const [first, second] = points;
+    return {
+        x: (first.x + second.x) / 2,
+        y: (first.y + second.y) / 2,
+        distance: Math.hypot(second.x - first.x, second.y - first.y)
+    };
+}
+
+export class CameraController {
+    private _scene: Scene;
+    private _canvas: HTMLCanvasElement | null;
+    private _orbit: ArcRotateCamera;
+    private _table: TargetCamera;
+    private _tableView: CameraView;
+    private _mode: CameraMode;
+    private _isControlAttached: boolean = false;
+    private _tableInputs: { pointer: Observer<PointerInfo>, keyboard: Observer<KeyboardInfo> } | null = null; // Souris et flèches en vue de table
+    private _pan: { pointerId: number, anchor: Vector3 } | null = null;     // Glisser de la souris sur la table (vue de table)
+    private _gesture: { anchor: Vector3, span: number, distance: number } | null = null; // Geste à deux doigts en cours
+    private _tween: { observer: Observer<Scene>, resolve: () => void } | null = null;     // Transition animée de la vue
+
+    constructor(scene: Scene, canvas: HTMLCanvasElement | null, mode: CameraMode) {
+        this._scene = scene;
+        this._canvas = canvas;
+        this._mode = mode;
+
+        this._orbit = new ArcRotateCamera('camera', ORBIT_ALPHA, ORBIT_BETA, ORBIT_RADIUS, Vector3.Zero(), scene);
+        this._orbit.lowerRadiusLimit = 1;
+        this._orbit.upperRadiusLimit = 20;
+        this._orbit.wheelPrecision = 50;
+
+        this._table = new TargetCamera('tableCamera', new Vector3(0, 0, TABLE_CAMERA_HEIGHT), scene);
+        this._table.mode = Camera.ORTHOGRAPHIC_CAMERA;
+        this._tableView = this._getDefaultView();
+        this._applyTableView();
+        // Les bornes orthographiques suivent les proportions du canvas (redimensionnement)
+        scene.onBeforeRenderObservable.add(() => this._updateTableProjection());
+
+        scene.activeCamera = this.camera;
+    }
+
+    public get mode(): CameraMode {
+        return this._mode;
+    }
+
+    public get camera(): Camera {
+        return this._mode === 'orbit' ? this._orbit : this._table;
+    }
+
+    public get isGestureActive(): boolean {
+        return this._gesture !== null;
+    }
+
+    // Change de caméra en gardant la vue ; sans effet sur la caméra XR si elle est active
+    public setMode(mode: CameraMode): void {
+        if (mode === this._mode) return;
+        const view = this.getView();
+        const wasAttached = this._isControlAttached;
+        this.detachControl();
+        this._stopTween();
+        const previous = this.camera;
+        this._mode = mode;
+        this.setView(view);
+        if (this._scene.activeCamera === previous) this._scene.activeCamera = this.camera;
+        if (wasAttached) this.attachControl();
+    }
+
+    // Commandes de la souris (et du clavier) sur la caméra active
+    public attachControl(): void {
+        if (this._isControlAttached) return;
+        this._isControlAttached = true;
+        if (this._mode === 'orbit') {
+            this._orbit.attachControl(this._canvas, true);
+            return;
+        }
+        this._tableInputs = {
+            pointer: this._scene.onPointerObservable.add(pointerInfo => this._handleTablePointer(pointerInfo)),
+            keyboard: this._scene.onKeyboardObservable.add(keyboardInfo => this._handleTableKey(keyboardInfo))
+        };
+    }
+
+    public detachControl(): void {
+        if (!this._isControlAttached) return;
+        this._isControlAttached = false;
+        this._orbit.detachControl();
+        if (this._tableInputs) {
+            this._scene.onPointerObservable.remove(this._tableInputs.pointer);
+            this._scene.onKeyboardObservable.remove(this._tableInputs.keyboard);
+            this._tableInputs = null;
+        }
+        this._pan = null;
+    }
+
+    public getView(): CameraView {
+        if (this._mode === 'table') return { ...this._tableView };
+        const target = this._orbit.target;
+        return { x: target.x, y: target.y, span: this._orbit.radius * this._getOrbitSpanRatio() };
+    }
+
+    public setView(view: CameraView): void {
+        if (this._mode === 'table') {
+            this._tableView = { x: view.x, y: view.y, span: Math.min(Math.max(view.span, MIN_TABLE_SPAN), MAX_TABLE_SPAN) };
+            this._applyTableView();
+            return;
+        }
+        const radius = view.span / this._getOrbitSpanRatio();
+        // Angles gardés : la caméra se déplace avec le point visé au lieu de pivoter vers lui
+        this._orbit.setTarget(new Vector3(view.x, view.y, 0), false, false, true);
+        this._orbit.radius = Math.min(Math.max(radius, this._orbit.lowerRadiusLimit ?? radius), this._orbit.upperRadiusLimit ?? radius);
+    }
+
+    // Vue de départ, dans les deux modes
+    public reset(): void {
+        this._stopTween();
+        this._orbit.alpha = ORBIT_ALPHA;
+        this._orbit.beta = ORBIT_BETA;
+        this._orbit.radius = ORBIT_RADIUS;
+        this._orbit.setTarget(Vector3.Zero(), false, false, true);
+        this._tableView = this._getDefaultView();
+        this._applyTableView();
+    }
+
+    // Point de la table sous le point (x, y) du canvas ; null si la vue ne voit pas la table à cet endroit
+    public pickTable(x: number, y: number): Vector3 | null {
+        const camera = this.camera;
+        const ray = this._scene.createPickingRay(x, y, Matrix.Identity(), camera);
+        const distance = ray.intersectsPlane(TABLE_PLANE);
+        return distance === null ? null : ray.origin.add(ray.direction.scale(distance));
+    }
+
+    // Coins de la table visible (haut gauche, haut droit, bas droit, bas gauche) ; null si un coin voit au-delà de la table
+    public getVisibleArea(): Vector3[] | null {
+        const engine = this._scene.getEngine();
+        const width = engine.getRenderWidth() * engine.getHardwareScalingLevel();
+        const height = engine.getRenderHeight() * engine.getHardwareScalingLevel();
+        const corners = [[0, 0], [width, 0], [width, height], [0, height]].map(([x, y]) => this.pickTable(x, y));
+        return corners.every(corner => corner !== null) ? corners as Vector3[] : null;
+    }
+
+    // Début d'un geste à deux doigts : le point de la table sous leur milieu y restera attaché
+    public beginGesture(frame: TwoFingerFrame): void {
+        this._stopTween();
+        const anchor = this.pickTable(frame.x, frame.y);
+        this._gesture = anchor ? { anchor, span: this.getView().span, distance: frame.distance } : null;
+    }
+
+    // Écarter ou rapprocher les doigts zoome, les déplacer ensemble fait glisser la table
+    public updateGesture(frame: TwoFingerFrame): void {
+        const gesture = this._gesture;
+        if (!gesture) return;
+        const scale = gesture.distance > 0 && frame.distance > 0 ? frame.distance / gesture.distance : 1;
+        this.setView({ ...this.getView(), span: gesture.span / scale });
+        this._moveAnchorTo(gesture.anchor, frame.x, frame.y);
+    }
+
+    public endGesture(): void {
+        this._gesture = null;
+    }
+
+    // Centre la vue sur un point de la table, sans changer le zoom (minicarte)
+    public centerOn(x: number, y: number): void {
+        this._stopTween();
+        this.setView({ ...this.getView(), x, y });
+    }
+
+    // Transition animée vers une vue (zoom sur une pièce ou une zone, retour à la vue d'ensemble)
+    public animateTo(view: CameraView, durationMs: number): Promise<void> {
+        this._stopTween();
+        const from = this.getView();
+        const start = performance.now();
+        return new Promise(resolve => {
+            const observer = this._scene.onBeforeRenderObservable.add(() => {
+                const t = Math.min((performance.now() - start) / durationMs, 1);
+                const eased = t * t * (3 - 2 * t);
+                this.setView({
+                    x: from.x + (view.x - from.x) * eased,
+                    y: from.y + (view.y - from.y) * eased,
+                    span: from.span + (view.span - from.span) * eased
+                });
+                if (t === 1) this._stopTween();
+            });
+            this._tween = { observer, resolve };
+        });
+    }
+
+    // Animation de victoire : recul sur le puzzle entier ; l'orbite tourne aussi d'un huitième de tour
+    public async animateOverview(width: number, height: number, durationMs: number): Promise<void> {
+        if (this._mode === 'table') {
+            const aspect = this._scene.getEngine().getAspectRatio(this._table);
+            return this.animateTo({ x: 0, y: 0, span: 1.2 * Math.max(height, width / aspect) }, durationMs);
+        }
+        this._stopTween();
+        const camera = this._orbit;
+        const frameRate = 60;
+        const lastFrame = (durationMs / 1000) * frameRate;
+
+        const radiusAnimation = new Animation("radiusAnimation", "radius", frameRate, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CONSTANT);
+        radiusAnimation.setKeys([
+            { frame: 0, value: camera.radius },
+            { frame: lastFrame, value: 1.2 * Math.max(width, height) }
+        ]);
+        const alphaAnimation = new Animation("alphaAnimation", "alpha", frameRate, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CONSTANT);
+        alphaAnimation.setKeys([
+            { frame: 0, value: camera.alpha },
+            { frame: lastFrame, value: camera.alpha + Math.PI / 4 }
+        ]);
+        const targetAnimation = new Animation("targetAnimation", "target", frameRate, Animation.ANIMATIONTYPE_VECTOR3, Animation.ANIMATIONLOOPMODE_CONSTANT);
+        targetAnimation.setKeys([
+            { frame: 0, value: camera.target.clone() },
+            { frame: lastFrame, value: Vector3.Zero() }
+        ]);
+
+        await this._scene.beginDirectAnimation(camera, [radiusAnimation, alphaAnimation, targetAnimation], 0, lastFrame, false, 1).waitAsync();
+    }
+
+    // Vue de départ : celle de l'orbite à sa distance d'origine
+    private _getDefaultView(): CameraView {
+        return { x: 0, y: 0, span: ORBIT_RADIUS * this._getOrbitSpanRatio() };
+    }
+
+    // Hauteur visible au point visé, par unité de distance de l'orbite
+    private _getOrbitSpanRatio(): number {
+        return 2 * Math.tan(this._orbit.fov / 2);
+    }
+
+    private _applyTableView(): void {
+        const { x, y } = this._tableView;
+        this._table.position.set(x, y, TABLE_CAMERA_HEIGHT);
+        this._table.setTarget(new Vector3(x, y, 0));
+        this._updateTableProjection();
+    }
+
+    private _updateTableProjection(): void {
+        const halfHeight = this._tableView.span / 2;
+        const halfWidth = halfHeight * this._scene.getEngine().getAspectRatio(this._table);
+        this._table.orthoTop = halfHeight;
+        this._table.orthoBottom = -halfHeight;
+        this._table.orthoLeft = -halfWidth;
+        this._table.orthoRight = halfWidth;
+    }
+
+    // Déplace la vue pour que le point anchor de la table revienne sous le point (x, y) du canvas
+    private _moveAnchorTo(anchor: Vector3, x: number, y: number): void {
+        const point = this.pickTable(x, y);
+        if (!point) return;
+        const view = this.getView();
+        this.setView({ x: view.x + anchor.x - point.x, y: view.y + anchor.y - point.y, span: view.span });
+    }
+
+    // Vue de table à la souris : glisser sur la table pour la déplacer, molette pour zoomer vers le pointeur.
+    // Les doigts ne passent pas par ici : un doigt prend les pièces, deux doigts font un geste (beginGesture).
+    private _handleTablePointer(pointerInfo: PointerInfo): void {
+        const event = pointerInfo.event as IPointerEvent;
+        const { pointerX, pointerY } = this._scene;
+        switch (pointerInfo.type) {
+            case PointerEventTypes.POINTERDOWN: {
+                if (event.pointerType === 'touch') return;
+                this._stopTween();
+                const anchor = this.pickTable(pointerX, pointerY);
+                this._pan = anchor ? { pointerId: event.pointerId, anchor } : null;
+                return;
+            }
+            case PointerEventTypes.POINTERMOVE:
+                if (this._pan?.pointerId === event.pointerId) this._moveAnchorTo(this._pan.anchor, pointerX, pointerY);
+                return;
+            case PointerEventTypes.POINTERUP:
+                if (this._pan?.pointerId === event.pointerId) this._pan = null;
+                return;
+            case PointerEventTypes.POINTERWHEEL: {
+                const wheel = pointerInfo.event as IWheelEvent;
+                wheel.preventDefault();
+                this._stopTween();
+                const anchor = this.pickTable(pointerX, pointerY);
+                const view = this.getView();
+                this.setView({ ...view, span: view.span * Math.exp(wheel.deltaY * WHEEL_ZOOM_SPEED) });
+                if (anchor) this._moveAnchorTo(anchor, pointerX, pointerY);
+                return;
+            }
+        }
+    }
+
+    // Flèches en vue de table : la vue glisse dans la direction de la flèche
+    private _handleTableKey(keyboardInfo: KeyboardInfo): void {
+        if (keyboardInfo.type !== KeyboardEventTypes.KEYDOWN) return;
+        const directions: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+        const direction = directions[keyboardInfo.event.key];
+        if (!direction) return;
+        const engine = this._scene.getEngine();
+        const width = engine.getRenderWidth() * engine.getHardwareScalingLevel();
+        const height = engine.getRenderHeight() * engine.getHardwareScalingLevel();
+        const step = width * KEY_PAN_FRACTION;
+        const anchor = this.pickTable(width / 2 + direction[0] * step, height / 2 + direction[1] * step);
+        if (!anchor) return;
+        this._stopTween();
+        this._moveAnchorTo(anchor, width / 2, height / 2);
+    }
+
+    // Arrête la transition en cours ; sa promesse est tenue
+    private _stopTween(): void {
+        const tween = this._tween;
+        if (!tween) return;
+        this._tween = null;
+        this._scene.onBeforeRenderObservable.remove(tween.observer);
+        tween.resolve();
+    }
+}
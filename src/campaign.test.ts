@@ -0,0 +1,29 @@
+// src/campaign.test.ts
+import { describe, it, expect } from 'vitest';
+import { CampaignProgress, isLevelUnlocked, getLevelProgress, withLevelCompleted } from './campaign';
+import type { PuzzlePack } from './puzzlePack';
+
+const level = (id: string) => ({ id, title: id, image: 'https://example.com/image.jpg', rows: 3, cols: 3, rotation: false, freeForm: false, faceDown: false });
+const PACK: PuzzlePack = { id: 'pack', title: 'Pack', levels: [level('un'), level('deux'), level('trois')] };
+const DATE = new Date('2026-03-01T10:00:00Z');
+
+describe('progression de la campagne', () => {
+    it("ouvre le premier niveau, puis chaque niveau après le précédent", () => {
+        let progress: CampaignProgress = {};
+        expect([0, 1, 2].map(index => isLevelUnlocked(progress, PACK, index))).toEqual([true, false, false]);
+        progress = withLevelCompleted(progress, PACK, 0, 60000, DATE);
+        expect([0, 1, 2].map(index => isLevelUnlocked(progress, PACK, index))).toEqual([true, true, false]);
+        expect(isLevelUnlocked(progress, PACK, 3)).toBe(false);
+        expect(isLevelUnlocked(progress, { ...PACK, id: 'autre' }, 1)).toBe(false);
+    });
+
+    it('garde le meilleur temps sans modifier la progression précédente', () => {
+        const first = withLevelCompleted({}, PACK, 1, 90000, DATE);
+        const slower = withLevelCompleted(first, PACK, 1, 120000, DATE);
+        const faster = withLevelCompleted(slower, PACK, 1, 45000, DATE);
+        expect(getLevelProgress(slower, PACK, 1)?.bestTimeMs).toBe(90000);
+        expect(getLevelProgress(faster, PACK, 1)).toEqual({ bestTimeMs: 45000, completedAt: DATE.toISOString() });
+        expect(getLevelProgress(first, PACK, 1)?.bestTimeMs).toBe(90000);
+        expect(getLevelProgress(faster, PACK, 0)).toBeNull();
+    });
+});
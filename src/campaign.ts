@@ -0,0 +1,57 @@
+// src/campaign.ts
+// Progression dans les packs de puzzles, conservée localement : niveaux terminés et meilleurs temps.
+// Le premier niveau d'un pack est toujours ouvert ; terminer un niveau ouvre le suivant.
+import type { PuzzlePack } from './puzzlePack';
+
+const STORAGE_KEY = 'puzzle3d.campaign';
+
+export interface LevelProgress {
+    bestTimeMs: number;
+    completedAt: string;
+}
+
+// Par pack puis par niveau (identifiants du manifeste)
+export type CampaignProgress = Record<string, Record<string, LevelProgress>>;
+
+export function getLevelProgress(progress: CampaignProgress, pack: PuzzlePack, index: number): LevelProgress | null {
+    const level = pack.levels[index];
+    return (level && progress[pack.id]?.[level.id]) ?? null;
+}
+
+export function isLevelUnlocked(progress: CampaignProgress, pack: PuzzlePack, index: number): boolean {
+    if (index < 0 || index >= pack.levels.length) return false;
+    return index === 0 || getLevelProgress(progress, pack, index - 1) !== null;
+}
+
+// Progression après un niveau terminé (le meilleur temps est gardé) ; l'objet d'origine n'est pas modifié
+export function withLevelCompleted(progress: CampaignProgress, pack: PuzzlePack, index: number, timeMs: number, date: Date = new Date()): CampaignProgress {
+    const level = pack.levels[index];
+    const previous = getLevelProgress(progress, pack, index);
+    const bestTimeMs = previous ? Math.min(previous.bestTimeMs, timeMs) : timeMs;
+    return {
+        ...progress,
+        [pack.id]: { ...progress[pack.id], [level.id]: { bestTimeMs, completedAt: date.toISOString() } }
+    };
+}
+
+export function loadCampaignProgress(): CampaignProgress {
+    try {
+        const json = localStorage.getItem(STORAGE_KEY);
+        const data = json ? JSON.parse(json) : null;
+        return data && typeof data === 'object' ? data : {};
+    } catch (err) {
+        console.warn("Progression de la campagne illisible, elle est réinitialisée :", err);
+        return {};
+    }
+}
+
+// Enregistre un niveau terminé ; renvoie la nouvelle progression
+export function recordLevelCompleted(pack: PuzzlePack, index: number, timeMs: number): CampaignProgress {
+    const progress = withLevelCompleted(loadCampaignProgress(), pack, index, timeMs);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+    } catch (err) {
+        console.warn("Impossible d'enregistrer la progression de la campagne :", err);
+    }
+    return progress;
+}
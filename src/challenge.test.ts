@@ -0,0 +1,50 @@
+// src/challenge.test.ts
+import { describe, it, expect } from 'vitest';
+import { Challenge, createChallengeUrl, parseChallenge, getDailyChallenge, formatDay } from './challenge';
+import { PuzzleModel } from './puzzleModel';
+import { createShuffleRandom } from './random';
+
+const CHALLENGE: Challenge = {
+    seed: 123456789, rows: 4, cols: 6, image: 'https://example.com/chat.jpg', rotation: true, freeForm: false, faceDown: true
+};
+
+function shuffledPositions(seed: number): number[][] {
+    const model = new PuzzleModel({ rows: 3, cols: 3, tileWidth: 1, tileHeight: 1, depth: 0.1 });
+    model.shuffle({ rotation: true, random: createShuffleRandom(seed) });
+    return model.pieces.map(piece => [piece.position.x, piece.position.y, piece.position.z, piece.rotationSteps]);
+}
+
+describe('défis partagés', () => {
+    it('retrouve le défi à partir de son lien', () => {
+        const url = createChallengeUrl('https://puzzle.example/jeu/?room=salle#fin', CHALLENGE);
+        expect(url).not.toContain('room=');
+        expect(url).not.toContain('#fin');
+        expect(parseChallenge(new URL(url).searchParams)).toEqual({ ...CHALLENGE, backImage: undefined });
+    });
+
+    it('ignore un lien sans graine ou avec une grille invalide', () => {
+        expect(parseChallenge(new URLSearchParams('grille=4x4'))).toBeNull();
+        expect(parseChallenge(new URLSearchParams('graine=12&grille=4'))).toBeNull();
+        expect(parseChallenge(new URLSearchParams('graine=12&grille=1x4'))).toBeNull();
+        expect(parseChallenge(new URLSearchParams('graine=-3&grille=4x4'))).toBeNull();
+        expect(parseChallenge(new URLSearchParams('graine=99999999999&grille=4x4'))).toBeNull();
+        expect(parseChallenge(new URLSearchParams('graine=12&grille=4x5'))).toEqual({
+            seed: 12, rows: 4, cols: 5, image: undefined, backImage: undefined, rotation: false, freeForm: false, faceDown: false
+        });
+    });
+
+    it('mélange les pièces de la même façon pour une même graine', () => {
+        expect(shuffledPositions(42)).toEqual(shuffledPositions(42));
+        expect(shuffledPositions(43)).not.toEqual(shuffledPositions(42));
+    });
+
+    it('donne le même puzzle du jour toute la journée, et un autre le lendemain', () => {
+        const morning = getDailyChallenge(new Date(2026, 9, 19, 7, 30));
+        const evening = getDailyChallenge(new Date(2026, 9, 19, 23, 59));
+        const nextDay = getDailyChallenge(new Date(2026, 9, 20, 0, 1));
+        expect(evening).toEqual(morning);
+        expect(nextDay.seed).not.toBe(morning.seed);
+        expect(morning.image).toBeUndefined();
+        expect(formatDay(new Date(2026, 0, 5))).toBe('2026-01-05');
+    });
+});
@@ -0,0 +1,71 @@
+// src/challenge.ts
+// Défis partageables : la graine, la grille, l'image et les options d'un puzzle tiennent dans un lien, et
+// redonnent exactement la même découpe et le même mélange. Le puzzle du jour tire sa graine de la date :
+// tout le monde joue la même partie ce jour-là, même hors ligne (image par défaut, intégrée au jeu).
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from './newGameDialog';
+import { hashString } from './random';
+
+export interface Challenge {
+    seed: number;
+    rows: number;
+    cols: number;
+    image?: string;         // URL de l'image ; absente : image par défaut
+    backImage?: string;     // Image du dos d'un puzzle double face
+    rotation: boolean;
+    freeForm: boolean;
+    faceDown: boolean;
+}
+
+const DAILY_GRID_SIZE = 6;
+const MAX_SEED = 0xFFFFFFFF;
+
+// Lien du défi, à partir de l'adresse de la page (ses autres paramètres sont remplacés)
+export function createChallengeUrl(pageUrl: string, challenge: Challenge): string {
+    const url = new URL(pageUrl);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set('graine', String(challenge.seed));
+    url.searchParams.set('grille', `${challenge.rows}x${challenge.cols}`);
+    if (challenge.image !== undefined) url.searchParams.set('image', challenge.image);
+    if (challenge.backImage !== undefined) url.searchParams.set('dos', challenge.backImage);
+    if (challenge.rotation) url.searchParams.set('rotation', '');
+    if (challenge.freeForm) url.searchParams.set('libre', '');
+    if (challenge.faceDown) url.searchParams.set('retournees', '');
+    return url.toString();
+}
+
+// Défi décrit par les paramètres d'un lien (?graine=…&grille=4x6…) ; null sans graine, ou si la grille est invalide
+export function parseChallenge(params: URLSearchParams): Challenge | null {
+    const seedParam = params.get('graine');
+    const seed = seedParam !== null && /^\d+$/.test(seedParam) ? Number(seedParam) : NaN;
+    const grid = /^(\d+)x(\d+)$/.exec(params.get('grille') ?? '');
+    if (!Number.isInteger(seed) || seed > MAX_SEED || !grid) return null;
+    const [rows, cols] = [Number(grid[1]), Number(grid[2])];
+    const isValidSize = (size: number) => size >= MIN_GRID_SIZE && size <= MAX_GRID_SIZE;
+    if (!isValidSize(rows) || !isValidSize(cols)) return null;
+    return {
+        seed,
+        rows,
+        cols,
+        image: params.get('image') ?? undefined,
+        backImage: params.get('dos') ?? undefined,
+        rotation: params.has('rotation'),
+        freeForm: params.has('libre'),
+        faceDown: params.has('retournees')
+    };
+}
+
+// Puzzle du jour (date locale du joueur) : grille moyenne, image par défaut, graine tirée de la date
+export function getDailyChallenge(date: Date): Challenge {
+    return { seed: getDailySeed(date), rows: DAILY_GRID_SIZE, cols: DAILY_GRID_SIZE, rotation: false, freeForm: false, faceDown: false };
+}
+
+export function getDailySeed(date: Date): number {
+    return hashString(`puzzle3d-${formatDay(date)}`);
+}
+
+// Jour au format AAAA-MM-JJ
+export function formatDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,62 @@
+// src/coopDialog.ts
+// Boîte de dialogue "Jouer à plusieurs" : adresse du serveur relais, nom de la salle et du joueur.
+import { CoopJoinOptions, getDefaultServerUrl } from './coopSession';
+
+const NAME_STORAGE_KEY = 'puzzle3d.coopName';
+
+export class CoopDialog {
+    private _dialog: HTMLDialogElement;
+    private _serverInput: HTMLInputElement;
+    private _roomInput: HTMLInputElement;
+    private _nameInput: HTMLInputElement;
+    private _onJoin: (options: CoopJoinOptions) => void;
+
+    constructor(onJoin: (options: CoopJoinOptions) => void) {
+        this._onJoin = onJoin;
+        this._dialog = this._getElement<HTMLDialogElement>('coopDialog');
+        this._serverInput = this._getElement<HTMLInputElement>('coopServerInput');
+        this._roomInput = this._getElement<HTMLInputElement>('coopRoomInput');
+        this._nameInput = this._getElement<HTMLInputElement>('coopNameInput');
+
+        this._getElement<HTMLButtonElement>('coopButton').addEventListener('click', () => {
+            if (!this._serverInput.value) this._serverInput.value = getDefaultServerUrl();
+            if (!this._nameInput.value) this._nameInput.value = loadPlayerName();
+            this._dialog.showModal();
+        });
+        this._getElement<HTMLButtonElement>('cancelCoopButton').addEventListener('click', () => this._dialog.close());
+        this._getElement<HTMLFormElement>('coopForm').addEventListener('submit', (event) => {
+            event.preventDefault();
+            this._dialog.close();
+            const options: CoopJoinOptions = {
+                serverUrl: this._serverInput.value.trim(),
+                room: this._roomInput.value.trim(),
+                name: this._nameInput.value.trim()
+            };
+            savePlayerName(options.name);
+            this._onJoin(options);
+        });
+    }
+
+    private _getElement<T extends HTMLElement>(id: string): T {
+        const element = document.getElementById(id) as T;
+        if (!element) throw new Error(`Élément avec ID '${id}' non trouvé !`);
+        return element;
+    }
+}
+
+export function loadPlayerName(): string {
+    try {
+        return localStorage.getItem(NAME_STORAGE_KEY) ?? '';
+    } catch (err) {
+        console.warn("Impossible de lire le nom du joueur :", err);
+        return '';
+    }
+}
+
+function savePlayerName(name: string): void {
+    try {
+        localStorage.setItem(NAME_STORAGE_KEY, name);
+    } catch (err) {
+        console.warn("Impossible d'enregistrer le nom du joueur :", err);
+    }
+}
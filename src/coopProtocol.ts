@@ -0,0 +1,63 @@
+// src/coopProtocol.ts
+// Messages échangés (en JSON) entre les joueurs d'une session coopérative et le serveur relais (voir server/).
+// Le serveur détient l'état de référence ; chaque joueur applique ce qu'il reçoit à son propre modèle.
+import type { SavedPiece } from './puzzleStorage';
+
+export const COOP_DEFAULT_PORT = 8787;
+
+type Vector = [number, number, number];
+
+// Puzzle partagé par la session : de quoi reconstruire exactement les mêmes pièces chez chaque joueur
+export interface CoopPuzzleSetup {
+    rows: number;
+    cols: number;
+    seed: number;
+    imageSource: string;
+    rotation: boolean;
+    freeForm?: boolean;     // Assemblage libre, sans plateau (absent : sur le plateau)
+    backImageSource?: string | null; // Image du dos d'un puzzle double face (absent : recto seul)
+    faceDown?: boolean;     // Pièces mélangées en partie face cachée
+    tileWidth: number;
+    tileHeight: number;
+    depth: number;
+}
+
+export interface CoopPlayer {
+    id: number;
+    name: string;
+    color: string;      // Couleur du curseur et des pièces tenues, "#rrggbb"
+}
+
+export interface CoopRoomState {
+    puzzle: CoopPuzzleSetup;
+    pieces: SavedPiece[];
+    holders: [number, number][];    // [pièce saisie, joueur qui la tient]
+    solved: boolean;
+}
+
+export type CoopClientMessage =
+    // Rejoint (ou crée, avec ce puzzle et ces pièces) une salle
+    | { type: 'join', room: string, name: string, puzzle: CoopPuzzleSetup, pieces: SavedPiece[] }
+    | { type: 'grab', piece: number }
+    | { type: 'move', piece: number, position: Vector }
+    | { type: 'rotate', piece: number, steps: number }
+    | { type: 'flip', piece: number }
+    // snap à false : pièce lâchée en l'air, loin de la table (main XR) ; elle reste où elle est
+    | { type: 'drop', piece: number, snap?: boolean }
+    // Curseur : point visé sur la table (direction nulle) ou rayon d'un contrôleur XR
+    | { type: 'cursor', origin: Vector, direction: Vector | null }
+    | { type: 'reset' }
+    | { type: 'newPuzzle', puzzle: CoopPuzzleSetup };
+
+export type CoopServerMessage =
+    | { type: 'welcome', playerId: number, players: CoopPlayer[], state: CoopRoomState }
+    | { type: 'state', state: CoopRoomState }                          // Nouvelle partie ou remise à zéro
+    | { type: 'pieces', pieces: SavedPiece[] }                         // Pièces modifiées
+    | { type: 'held', piece: number, playerId: number | null }         // null : pièce relâchée
+    | { type: 'grabDenied', piece: number }
+    | { type: 'dropped', piece: number, playerId: number, snapped: boolean }
+    | { type: 'cursor', playerId: number, origin: Vector, direction: Vector | null }
+    | { type: 'playerJoined', player: CoopPlayer }
+    | { type: 'playerLeft', playerId: number }
+    | { type: 'solved' }
+    | { type: 'error', message: string };
@@ -0,0 +1,107 @@
+// src/coopSession.ts
+// Connexion d'un joueur au serveur relais d'une session coopérative (voir server/).
+import { COOP_DEFAULT_PORT, CoopClientMessage, CoopServerMessage, CoopPlayer, CoopPuzzleSetup, CoopRoomState } from './coopProtocol';
+import type { SavedPiece } from './puzzleStorage';
+
+export interface CoopJoinOptions {
+    serverUrl: string;      // ws://hôte:port
+    room: string;
+    name: string;
+}
+
+const CURSOR_INTERVAL_MS = 50; // Au plus 20 mises à jour du curseur par seconde
+
+// Serveur relais lancé sur la même machine que la page (npm run server)
+export function getDefaultServerUrl(): string {
+    return `ws://${window.location.hostname || 'localhost'}:${COOP_DEFAULT_PORT}`;
+}
+
+export class CoopSession {
+    public readonly playerId: number;
+    public readonly players: Map<number, CoopPlayer> = new Map();
+    public readonly room: string;
+
+    public onClose: (() => void) | null = null;
+
+    private _socket: WebSocket;
+    private _lastCursorTime: number = 0;
+    private _onMessage: ((message: CoopServerMessage) => void) | null = null;
+    private _pendingMessages: CoopServerMessage[] = [];   // Reçus avant listen()
+
+    private constructor(socket: WebSocket, room: string, welcome: Extract<CoopServerMessage, { type: 'welcome' }>) {
+        this._socket = socket;
+        this.room = room;
+        this.playerId = welcome.playerId;
+        welcome.players.forEach(player => this.players.set(player.id, player));
+
+        socket.addEventListener('message', (event) => {
+            const message: CoopServerMessage = JSON.parse(event.data);
+            if (message.type === 'playerJoined') this.players.set(message.player.id, message.player);
+            if (message.type === 'playerLeft') this.players.delete(message.playerId);
+            if (this._onMessage) {
+                this._onMessage(message);
+            } else {
+                this._pendingMessages.push(message);
+            }
+        });
+        socket.addEventListener('close', () => this.onClose?.());
+    }
+
+    // Messages reçus après l'accueil ; ceux déjà arrivés sont transmis aussitôt, dans l'ordre
+    public listen(onMessage: (message: CoopServerMessage) => void): void {
+        this._onMessage = onMessage;
+        this._pendingMessages.splice(0).forEach(message => onMessage(message));
+    }
+
+    // Se connecte et rejoint la salle (créée avec ce puzzle si elle n'existe pas encore).
+    // Résout avec la session et l'état courant de la salle.
+    public static connect(options: CoopJoinOptions, puzzle: CoopPuzzleSetup, pieces: SavedPiece[]): Promise<{ session: CoopSession, state: CoopRoomState }> {
+        return new Promise((resolve, reject) => {
+            let socket: WebSocket;
+            try {
+                socket = new WebSocket(options.serverUrl);
+            } catch (err) {
+                reject(new Error(`Adresse de serveur invalide : ${options.serverUrl}`));
+                return;
+            }
+
+            const fail = (message: string) => {
+                socket.removeEventListener('message', onWelcome);
+                socket.close();
+                reject(new Error(message));
+            };
+            const onWelcome = (event: MessageEvent) => {
+                const message: CoopServerMessage = JSON.parse(event.data);
+                if (message.type === 'error') {
+                    fail(message.message);
+                } else if (message.type === 'welcome') {
+                    socket.removeEventListener('message', onWelcome);
+                    resolve({ session: new CoopSession(socket, options.room, message), state: message.state });
+                }
+            };
+
+            socket.addEventListener('message', onWelcome);
+            socket.addEventListener('open', () => {
+                socket.send(JSON.stringify({ type: 'join', room: options.room, name: options.name, puzzle, pieces } satisfies CoopClientMessage));
+            });
+            socket.addEventListener('error', () => fail(`Impossible de joindre le serveur ${options.serverUrl}.`));
+        });
+    }
+
+    public send(message: CoopClientMessage): void {
+        if (this._socket.readyState === WebSocket.OPEN) this._socket.send(JSON.stringify(message));
+    }
+
+    // Curseur ou rayon du joueur, limité en fréquence
+    public sendCursor(origin: [number, number, number], direction: [number, number, number] | null): void {
+        const now = performance.now();
+        if (now - this._lastCursorTime < CURSOR_INTERVAL_MS) return;
+        this._lastCursorTime = now;
+        this.send({ type: 'cursor', origin, direction });
+    }
+
+    public close(): void {
+        this.onClose = null;
+        this._socket.close();
+    }
+}
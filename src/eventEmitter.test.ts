@@ -0,0 +1,56 @@
+// src/eventEmitter.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from './eventEmitter';
+
+interface TestEvents {
+    progress: { assembled: number, total: number };
+    solved: { timeMs: number };
+}
+
+describe("émetteur d'événements", () => {
+    it("appelle les écouteurs du type émis, jusqu'à ce qu'ils soient retirés", () => {
+        const events = new EventEmitter<TestEvents>();
+        const onProgress = vi.fn();
+        const onSolved = vi.fn();
+        const off = events.on('progress', onProgress);
+        events.on('solved', onSolved);
+
+        events.emit('progress', { assembled: 2, total: 9 });
+        expect(onProgress).toHaveBeenCalledWith({ assembled: 2, total: 9 });
+        expect(onSolved).not.toHaveBeenCalled();
+
+        off();
+        events.emit('progress', { assembled: 3, total: 9 });
+        expect(onProgress).toHaveBeenCalledTimes(1);
+        events.off('solved', onSolved);
+        events.emit('solved', { timeMs: 1000 });
+        expect(onSolved).not.toHaveBeenCalled();
+    });
+
+    it("n'appelle qu'une fois un écouteur once", () => {
+        const events = new EventEmitter<TestEvents>();
+        const onSolved = vi.fn();
+        events.once('solved', onSolved);
+        events.emit('solved', { timeMs: 1000 });
+        events.emit('solved', { timeMs: 2000 });
+        expect(onSolved).toHaveBeenCalledTimes(1);
+        expect(onSolved).toHaveBeenCalledWith({ timeMs: 1000 });
+    });
+
+    it("isole les erreurs d'un écouteur, et oublie tout après clear", () => {
+        const events = new EventEmitter<TestEvents>();
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const after = vi.fn();
+        events.on('progress', () => { throw new Error('écouteur défaillant'); });
+        events.on('progress', after);
+
+        events.emit('progress', { assembled: 1, total: 4 });
+        expect(after).toHaveBeenCalledTimes(1);
+        expect(consoleError).toHaveBeenCalledTimes(1);
+        consoleError.mockRestore();
+
+        events.clear();
+        events.emit('progress', { assembled: 2, total: 4 });
+        expect(after).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,48 @@
+// src/eventEmitter.ts
+// Émetteur d'événements typé : chaque type d'événement a sa propre forme de données (voir GameEvents).
+// Une erreur dans un écouteur est signalée dans la console sans empêcher les autres d'être appelés.
+export type EventListener<T> = (event: T) => void;
+
+export class EventEmitter<Events extends object> {
+    private _listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+    // Ajoute un écouteur ; renvoie la fonction qui le retire
+    public on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+        let listeners = this._listeners[type];
+        if (!listeners) {
+            listeners = new Set();
+            this._listeners[type] = listeners;
+        }
+        listeners.add(listener);
+        return () => this.off(type, listener);
+    }
+
+    // Écouteur appelé au prochain événement de ce type seulement
+    public once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+        const off = this.on(type, event => {
+            off();
+            listener(event);
+        });
+        return off;
+    }
+
+    public off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+        this._listeners[type]?.delete(listener);
+    }
+
+    public emit<K extends keyof Events>(type: K, event: Events[K]): void {
+        // Copie : un écouteur peut se retirer (ou en ajouter un autre) pendant l'émission
+        const listeners = Array.from(this._listeners[type] ?? []);
+        listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (err) {
+                console.error(`Erreur dans un écouteur de l'événement « ${String(type)} » :`, err);
+            }
+        });
+    }
+
+    public clear(): void {
+        this._listeners = {};
+    }
+}
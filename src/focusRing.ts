@@ -0,0 +1,46 @@
+// src/focusRing.ts
+// Cadre autour de la pièce visée au clavier (Tab, flèches) : quatre barres épaisses, de couleur vive,
+// dessinées par-dessus les pièces pour rester visibles quelle que soit l'image.
+import { Scene, Mesh, MeshBuilder, StandardMaterial, Color3, Vector3 } from '@babylonjs/core';
+
+const RING_COLOR = new Color3(1, 0.8, 0);
+const RING_THICKNESS = 0.03;
+const RING_MARGIN = 0.02; // Écart entre la pièce et le cadre
+
+export class FocusRing {
+    private _bars: Mesh[];
+
+    constructor(scene: Scene) {
+        const material = new StandardMaterial('focusRingMat', scene);
+        material.emissiveColor = RING_COLOR;
+        material.disableLighting = true;
+        this._bars = [0, 1, 2, 3].map(i => {
+            const bar = MeshBuilder.CreateBox(`focusRing-${i}`, { size: 1 }, scene);
+            bar.material = material;
+            bar.isPickable = false;
+            bar.renderingGroupId = 1; // Au-dessus des pièces et des piles
+            bar.setEnabled(false);
+            return bar;
+        });
+    }
+
+    // Cadre centré sur center, autour d'une zone de width x height dans le plan x-y
+    public show(center: Vector3, width: number, height: number): void {
+        const halfWidth = width / 2 + RING_MARGIN + RING_THICKNESS / 2;
+        const halfHeight = height / 2 + RING_MARGIN + RING_THICKNESS / 2;
+        const [top, bottom, left, right] = this._bars;
+        top.position.set(center.x, center.y + halfHeight, center.z);
+        bottom.position.set(center.x, center.y - halfHeight, center.z);
+        left.position.set(center.x + halfWidth, center.y, center.z);
+        right.position.set(center.x - halfWidth, center.y, center.z);
+        top.scaling.set(2 * halfWidth + RING_THICKNESS, RING_THICKNESS, RING_THICKNESS);
+        bottom.scaling.copyFrom(top.scaling);
+        left.scaling.set(RING_THICKNESS, 2 * halfHeight - RING_THICKNESS, RING_THICKNESS);
+        right.scaling.copyFrom(left.scaling);
+        this._bars.forEach(bar => bar.setEnabled(true));
+    }
+
+    public hide(): void {
+        this._bars.forEach(bar => bar.setEnabled(false));
+    }
+}
@@ -0,0 +1,20 @@
+// src/game.test.ts
+// Jeu dont le puzzle de départ n'est pas encore construit (image en cours de chargement, ready non résolue) :
+// les commandes publiques ne font rien au lieu de lever une erreur. Le constructeur demande un vrai canvas WebGL,
+// d'où une instance sans construction, qui n'a aucun modèle comme avant ready.
+import { describe, it, expect } from 'vitest';
+import { Game } from './game';
+
+describe('Game avant ready', () => {
+    it('ignore les commandes qui portent sur les pièces', () => {
+        const game = Object.create(Game.prototype) as Game;
+        expect(() => game.resetGame()).not.toThrow();
+        expect(() => game.showFittingPieceHint()).not.toThrow();
+        expect(() => game.spreadOutPieces()).not.toThrow();
+        expect(() => game.spreadOutPieces(true)).not.toThrow();
+        expect(() => game.gatherSelection()).not.toThrow();
+        expect(() => game.fanOutStack()).not.toThrow();
+        expect(() => game.undo()).not.toThrow();
+        expect(() => game.redo()).not.toThrow();
+    });
+});
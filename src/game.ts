@@ -1,16 +1,138 @@
 // src/game.ts
 import {
-    Engine, Scene, ArcRotateCamera, Vector3, HemisphericLight, StandardMaterial, Color3, Texture, PointerEventTypes, PointerInfo,
-    MeshBuilder, Mesh, Camera, Plane, Matrix, Animatable, Animation, WebXRDefaultExperience, WebXRInputSource, WebXRState, Ray
+    Engine, Scene, Vector3, HemisphericLight, StandardMaterial, Color3, Texture, PointerEventTypes, PointerInfo, IPointerEvent,
+    MeshBuilder, Mesh, Camera, Plane, Matrix, Animatable, Animation, WebXRDefaultExperience, WebXRInputSource, WebXRState, Ray,
+    WebXRFeatureName, WebXRHandTracking, WebXRHandJoint, Observer, IKeyboardEvent, KeyboardEventTypes
 } from '@babylonjs/core';
 import { PuzzlePiece } from './puzzlePiece';
+import { PieceMeshFactory } from './pieceMeshFactory';
+import { PuzzleCut, generatePuzzleCut } from './jigsawShape';
+import { PuzzleModel, PieceState } from './puzzleModel';
+import type { PieceCluster } from './pieceCluster';
+import { randomSeed, createShuffleRandom } from './random';
+import {
+    SavedPuzzle, SavedPiece, SAVE_FORMAT_VERSION, saveToLocalStorage, loadFromLocalStorage, clearLocalSave,
+    downloadSavedPuzzle, readSavedPuzzleFile, parseSavedPuzzle
+} from './puzzleStorage';
+import { computeImageCrop, computeCoverCrop, readImageFile, getDroppedImage } from './imageLoader';
+import { GameStats, formatDuration } from './gameStats';
+import { LeaderboardEntry, computeScore, getLeaderboardKey, recordResult, getLeaderboard } from './leaderboard';
+import { MoveHistory } from './moveHistory';
+import { HintManager } from './hintManager';
+import { CoopSession, CoopJoinOptions } from './coopSession';
+import { CoopServerMessage, CoopPuzzleSetup, CoopRoomState } from './coopProtocol';
+import { RemotePlayers } from './remotePlayers';
+import { SessionRecorder, SessionRecording, downloadSessionRecording, readSessionRecordingFile } from './sessionRecorder';
+import { SessionPlayer } from './sessionPlayer';
+import { ReplayControls } from './replayControls';
+import { PinchDetector } from './handPinch';
+import { XRPanel } from './xrPanel';
+import { PuzzleObject, loadModelFile } from './modelLoader';
+import { sliceModel } from './meshSlicer';
+import { PerformanceOverlay } from './performanceOverlay';
+import { SelectionBox } from './selectionBox';
+import { PiecePlacement, spreadOutPieces, gatherPieces, fanOutStack } from './trayLayout';
+import { FocusRing } from './focusRing';
+import { EventEmitter, EventListener } from './eventEmitter';
+import { GameElements, resolveGameElements } from './gameElements';
+import { Challenge, createChallengeUrl, getDailyChallenge, formatDay } from './challenge';
+import { PuzzlePack, getLevelChallenge } from './puzzlePack';
+import { recordLevelCompleted } from './campaign';
+import { LiveAnnouncer } from './liveAnnouncer';
+import { readPreference, writePreference } from './preferences';
+import { CameraController, CameraMode, TwoFingerFrame, getTwoFingerFrame } from './cameraController';
+import { Minimap, MinimapContent } from './minimap';
+import { getFocusOrder, getNextFocus, stepToCell, describePiece, describePosition } from './keyboardPlay';
 import puzzleImageUrl from './assets/puzzle.jpg';
 
+export interface GameOptions {
+    canvas: HTMLCanvasElement | string; // Canvas du jeu, ou son ID
+    rows?: number;          // Grille de départ (3 × 3 par défaut)
+    cols?: number;
+    elements?: Partial<GameElements>; // Éléments d'interface fournis ; sans cette option, ceux de la page, par leur ID
+    xr?: boolean;           // Bouton et interactions WebXR (activés par défaut)
+    autoSave?: boolean;     // Sauvegarde automatique et reprise de la partie dans le navigateur (activées par défaut)
+    seed?: number;          // Graine de la découpe (aléatoire si absente)
+    rotation?: boolean;     // Mode rotation : les pièces sont mélangées avec une orientation aléatoire
+    freeForm?: boolean;     // Assemblage libre : l'image se reconstitue n'importe où sur la table, sans plateau
+    image?: string;         // URL (ou data URL) de l'image du puzzle, à la place de l'image par défaut
+    backImage?: string;     // Image du dos : puzzle double face, qui se reconstitue d'un côté comme de l'autre
+    faceDown?: boolean;     // Une partie des pièces est mélangée face cachée, à retourner
+    showPerformance?: boolean; // Compteurs de performance affichés dès le départ
+    highContrast?: boolean; // Contour contrasté des pièces (sinon : le dernier choix du joueur)
+    cameraMode?: CameraMode; // Orbite ou vue de table (sinon : le dernier choix du joueur, la vue de table sur écran tactile)
+    minimap?: boolean;      // Minicarte affichée (sinon : le dernier choix du joueur)
+}
+
+const DEFAULT_GRID_SIZE = 3;
+const SOLVED_ANIMATION_MS = 3000;      // Durée de l'animation de victoire, avant l'accéléré de la partie
+const TIME_LAPSE_DURATION_MS = 20000;  // Durée visée pour l'accéléré, quelle que soit la longueur de la partie
+const POINTER_INPUT = 'pointer';        // Entrée de la souris ou du doigt (les entrées XR sont identifiées par leur uniqueId)
+const KEYBOARD_INPUT = 'keyboard';      // Pièce prise au clavier (Entrée)
+const HIGH_CONTRAST_STORAGE_KEY = 'puzzle3d.highContrast';
+const CAMERA_MODE_STORAGE_KEY = 'puzzle3d.cameraMode';
+const MINIMAP_STORAGE_KEY = 'puzzle3d.minimap';
+const MINIMAP_REFRESH_MS = 100;
+const FOCUS_DURATION_MS = 400;          // Zoom du double toucher sur une pièce ou une zone
+const FOCUS_TILES = 4;                  // Zoom du double toucher : hauteur visible, en cases
+const DOUBLE_TAP_DISTANCE = 30;         // Deux touchers à moins de ces pixels (et de DOUBLE_CLICK_MS) : double toucher
+const NEAR_GRAB_REACH = 0.05;           // Distance maximale entre la main (ou la poignée) et une pièce pour la saisir directement
+const BOARD_SETTLE_DISTANCE = 0.3;      // Pièce lâchée à moins de cette distance de la table : elle s'y pose et peut s'emboîter
+const SETTLE_SPEED = 1.5;               // Vitesse de descente vers la table (unités par seconde)
+const VOLUME_LAYERS = 2;                // Tranches d'un objet 3D selon la profondeur (lignes et colonnes : celles de la grille)
+const DEPTH_WHEEL_SPEED = 0.001;        // Molette pendant un glisser : avance ou recule la pièce en volume (unités par pixel)
+const MODEL_SOURCE_PREFIX = 'modèle:';  // Source d'un puzzle en volume dans le classement et les enregistrements
+const FLIP_DURATION_MS = 300;           // Durée de l'animation de retournement d'une pièce
+const DOUBLE_CLICK_MS = 350;            // Deux appuis sur la même pièce en moins de ce temps : elle est retournée
+const MISPLACED_MESSAGE = "Presque ! Les pièces en rouge ne sont pas à leur place : déplacez-les ou tournez-les pour terminer.";
+
+// Geste XR qui tient une pièce : gâchette (visée à distance), poignée (saisie directe) ou pincement d'une main
+type XRGesture = 'select' | 'squeeze' | 'pinch';
+
+// Pièce tenue par une entrée : pointeur (souris, doigt), contrôleur ou main XR. Chaque entrée tient au plus une pièce,
+// et emmène avec elle les autres groupes sélectionnés si la pièce fait partie de la sélection.
+interface PieceGrab {
+    piece: PuzzlePiece;
+    companions: PieceState[];           // Une pièce de chacun des autres groupes sélectionnés, déplacés du même vecteur
+    offset: Vector3;                    // Du point de saisie au centre de la pièce
+    rayDistance: number | null;         // Saisie à distance : position du point saisi le long du rayon ; null sinon
+    gesture: XRGesture | null;          // Geste qui tient la pièce (null pour le pointeur)
+    startState: SavedPiece[] | null;    // Pièces au moment de la saisie, pour l'historique ; null en session
+}
+
+// Réglages d'une partie, modifiables sans recharger la page (voir newGame)
+export interface GameSettings {
+    rows: number;
+    cols: number;
+    rotation: boolean;
+    freeForm: boolean;
+    faceDown: boolean;
+}
+
+// Pièce désignée dans les événements : son index d'origine (le même pour tous les joueurs d'une session) et sa place
+export interface GamePieceEvent {
+    piece: number;
+    row: number;
+    col: number;
+}
+
+// Événements du jeu pour la page qui l'intègre (voir Game.on). Seuls les gestes du joueur local sont signalés ;
+// progress suit aussi les coups des autres joueurs d'une session.
+export interface GameEvents {
+    pieceGrabbed: GamePieceEvent;
+    pieceDropped: GamePieceEvent & { position: [number, number, number] };
+    pieceSnapped: GamePieceEvent;
+    progress: { assembled: number, total: number };
+    solved: { timeMs: number, pickups: number, drops: number, snaps: number, hints: number, seed: number };
+}
+
 export class Game {
     private _engine: Engine;
     private _scene: Scene;
     private _canvas: HTMLCanvasElement;
-    private _puzzlePieces: PuzzlePiece[] = [];
+    private _model!: PuzzleModel;                 // Règles et état des pièces ; les meshes ne font que le refléter
+    private _puzzlePieces: PuzzlePiece[] = [];    // Un mesh par pièce du modèle, même index
+    private _pieceMeshes: PieceMeshFactory | null = null; // Géométries et matériau partagés des pièces d'une image
     private _rows: number;
     private _cols: number;
 
@@ -18,70 +140,461 @@ export class Game {
     private _puzzleHeight!: number;
     private _pieceDepth: number = 0.1;
     private _imageTexture!: Texture;
+    private _imageSource: string;
+    private _backTexture: Texture | null = null;   // Image du dos d'un puzzle double face ; null : dos en carton, recto seul
+    private _backImageSource: string | null;
+    private _seed: number;          // Graine de la découpe : une même graine redonne exactement les mêmes pièces
+    private _cut!: PuzzleCut;
+
+    private _rotationEnabled: boolean;
+    private _freeForm: boolean;     // Assemblage libre (voir PuzzleModel.isFreeForm)
+    private _faceDown: boolean;     // Pièces mélangées en partie face cachée
 
-    private _draggedPiece: PuzzlePiece | null = null;
-    private _dragOffset: Vector3 = Vector3.Zero();
+    private _grabs: Map<string, PieceGrab> = new Map();     // Pièce tenue par chaque entrée
+    private _settling: Map<PieceState, Observer<Scene>> = new Map(); // Pièces lâchées en train de se poser sur la table
+    private _flipping: Map<PuzzlePiece, Observer<Scene>> = new Map(); // Pièces en cours d'animation de retournement
+    private _lastPieceClick: { piece: PuzzlePiece, time: number } | null = null; // Pour reconnaître un double-clic
+    private _dragPointerId: number | null = null;
+    private _touchPoints: Map<number, { x: number, y: number }> = new Map(); // Doigts posés sur l'écran
+    private _twistAngle: number | null = null; // Angle de référence du geste de rotation à deux doigts
+    private _lastTableTap: { x: number, y: number, time: number } | null = null; // Pour reconnaître un double toucher hors des pièces
+    private _cameras!: CameraController;        // Orbite ou vue de table, hors XR
+    private _minimap: Minimap;
+    private _minimapUpdate: number = 0;         // Heure du dernier dessin de la minicarte
     private _ground!: Mesh;
     private _xrExperience: WebXRDefaultExperience | null = null;
 
     private _isGameSolved: boolean = false;
-    private _messageDisplay: HTMLParagraphElement;
+    private _messageDisplay: HTMLElement;
     private _resetButton: HTMLButtonElement;
+    private _resumeButton: HTMLButtonElement;
+    private _exportButton: HTMLButtonElement;
+    private _importButton: HTMLButtonElement;
+    private _importInput: HTMLInputElement;
+    private _imageButton: HTMLButtonElement;
+    private _imageInput: HTMLInputElement;
+    private _backImageButton: HTMLButtonElement;
+    private _clearBackImageButton: HTMLButtonElement;
+    private _backImageInput: HTMLInputElement;
+    private _modelButton: HTMLButtonElement;
+    private _modelInput: HTMLInputElement;
+    private _puzzleObject: PuzzleObject | null = null;      // Objet 3D d'un puzzle en volume ; null pour un puzzle d'image
+    private _resumableSave: SavedPuzzle | null = null; // Partie trouvée au chargement, proposée à la reprise
+    private _statsDisplay: HTMLElement;
+    private _leaderboardPanel: HTMLElement;
+    private _leaderboardList: HTMLOListElement;
+    private _stats: GameStats = new GameStats();
+    private _undoButton: HTMLButtonElement;
+    private _redoButton: HTMLButtonElement;
+    private _history: MoveHistory = new MoveHistory();
+    private _isHistoryAnimating: boolean = false;          // Pièces en train de rejoindre un autre état (historique, rangement)
+    private _hints!: HintManager;
+    private _lastGrabbedPiece: PuzzlePiece | null = null;   // Pièce visée par "Où va cette pièce ?" hors saisie
+    private _ghostButton: HTMLButtonElement;
+    private _whereButton: HTMLButtonElement;
+    private _findButton: HTMLButtonElement;
+    private _session: CoopSession | null = null;            // Session coopérative en cours
+    private _remotePlayers!: RemotePlayers;
+    private _remoteHolders: Map<number, number> = new Map(); // Pièce tenue par un autre joueur -> joueur
+    private _coopButton: HTMLButtonElement;
+    private _leaveCoopButton: HTMLButtonElement;
+    private _coopStatus: HTMLElement;
+    private _ready: Promise<void>;                          // Image de départ chargée et puzzle construit
+    private _recorder: SessionRecorder = new SessionRecorder();
+    private _replay: SessionPlayer | null = null;           // Relecture en cours : les pièces affichent l'enregistrement, pas le modèle
+    private _replayControls: ReplayControls;
+    private _timeLapseTimer: number | null = null;          // Accéléré programmé après l'animation de victoire
+    private _replayButton: HTMLButtonElement;
+    private _exportRecordingButton: HTMLButtonElement;
+    private _importRecordingButton: HTMLButtonElement;
+    private _importRecordingInput: HTMLInputElement;
+    private _xrPanel!: XRPanel;                             // Messages et boutons dans la scène, en XR seulement
+    private _performanceOverlay: PerformanceOverlay;
+    private _performanceButton: HTMLButtonElement;
+    private _selection: Set<PieceState> = new Set();        // Pièces libres sélectionnées au lasso (groupes entiers)
+    private _selectionBox: SelectionBox;
+    private _band: { inputId: string, start: Vector3, end: Vector3 } | null = null; // Lasso en cours de tracé, et l'entrée qui le trace
+    private _isSelectMode: boolean = false;                 // Le glisser sur la table trace un lasso (écrans tactiles)
+    private _spreadButton: HTMLButtonElement;
+    private _edgesButton: HTMLButtonElement;
+    private _gatherButton: HTMLButtonElement;
+    private _unstackButton: HTMLButtonElement;
+    private _selectButton: HTMLButtonElement;
+    private _highContrastButton: HTMLButtonElement;
+    private _dailyButton: HTMLButtonElement;
+    private _shareButton: HTMLButtonElement;
+    private _cameraModeButton: HTMLButtonElement;
+    private _minimapButton: HTMLButtonElement;
+    private _highContrast: boolean;                         // Contour contrasté autour des pièces
+    private _keyboardFocus: PuzzlePiece | null = null;      // Pièce visée au clavier (Tab, flèches), entourée d'un cadre
+    private _focusRing!: FocusRing;
+    private _announcer: LiveAnnouncer;                      // Annonces pour les lecteurs d'écran
+    private _events: EventEmitter<GameEvents> = new EventEmitter();
+    private _progress: { assembled: number, total: number } | null = null; // Dernière progression signalée
+    private _listeners: AbortController = new AbortController(); // Écouteurs DOM, tous retirés par dispose
+    private _statsTimer: number;
+    private _autoSave: boolean;
+    private _isDisposed: boolean = false;
+    private _level: { pack: PuzzlePack, index: number } | null = null; // Niveau de pack en cours (campagne)
 
-    constructor(canvasId: string, rows: number, cols: number) {
-        const canvasElement = document.getElementById(canvasId) as HTMLCanvasElement;
-        if (!canvasElement) throw new Error(`Canvas avec ID '${canvasId}' non trouvé !`);
+    constructor(options: GameOptions) {
+        const canvasElement = typeof options.canvas === 'string' ? document.getElementById(options.canvas) : options.canvas;
+        if (!(canvasElement instanceof HTMLCanvasElement)) throw new Error(`Canvas avec ID '${options.canvas}' non trouvé !`);
         this._canvas = canvasElement;
 
-        const messageElement = document.getElementById('message') as HTMLParagraphElement;
-        if (!messageElement) throw new Error(`Élément avec ID 'message' non trouvé !`);
-        this._messageDisplay = messageElement;
-
-        const resetButtonElement = document.getElementById('resetButton') as HTMLButtonElement;
-        if (!resetButtonElement) throw new Error(`Bouton avec ID 'resetButton' non trouvé !`);
-        this._resetButton = resetButtonElement;
+        const elements = resolveGameElements(options.elements);
+        this._messageDisplay = elements.message;
+        this._resetButton = elements.resetButton;
+        this._resumeButton = elements.resumeButton;
+        this._exportButton = elements.exportButton;
+        this._importButton = elements.importButton;
+        this._importInput = elements.importInput;
+        this._imageButton = elements.imageButton;
+        this._imageInput = elements.imageInput;
+        this._backImageButton = elements.backImageButton;
+        this._clearBackImageButton = elements.clearBackImageButton;
+        this._backImageInput = elements.backImageInput;
+        this._modelButton = elements.modelButton;
+        this._modelInput = elements.modelInput;
+        this._statsDisplay = elements.stats;
+        this._leaderboardPanel = elements.leaderboardPanel;
+        this._leaderboardList = elements.leaderboardList;
+        this._undoButton = elements.undoButton;
+        this._redoButton = elements.redoButton;
+        this._ghostButton = elements.ghostButton;
+        this._whereButton = elements.whereButton;
+        this._findButton = elements.findButton;
+        this._coopButton = elements.coopButton;
+        this._leaveCoopButton = elements.leaveCoopButton;
+        this._coopStatus = elements.coopStatus;
+        this._replayButton = elements.replayButton;
+        this._exportRecordingButton = elements.exportRecordingButton;
+        this._importRecordingButton = elements.importRecordingButton;
+        this._importRecordingInput = elements.importRecordingInput;
+        this._performanceButton = elements.performanceButton;
+        this._spreadButton = elements.spreadButton;
+        this._edgesButton = elements.edgesButton;
+        this._gatherButton = elements.gatherButton;
+        this._unstackButton = elements.unstackButton;
+        this._selectButton = elements.selectButton;
+        this._highContrastButton = elements.highContrastButton;
+        this._dailyButton = elements.dailyButton;
+        this._shareButton = elements.shareButton;
+        this._cameraModeButton = elements.cameraModeButton;
+        this._minimapButton = elements.minimapButton;
+        this._minimap = new Minimap(elements.minimap, (x, y) => this._cameras.centerOn(x, y));
+        this._announcer = new LiveAnnouncer(elements.announcer);
+        this._replayControls = new ReplayControls({
+            onTogglePlay: () => this._toggleReplayPlayback(),
+            onSeek: (timeMs) => this._seekReplay(timeMs),
+            onSpeedChange: (speed) => {
+                if (this._replay) this._replay.speed = speed;
+            },
+            onClose: () => this._stopReplay()
+        }, elements);
 
         this._engine = new Engine(this._canvas, true, { preserveDrawingBuffer: true, stencil: true });
         this._scene = new Scene(this._engine);
-        this._rows = rows;
-        this._cols = cols;
+        this._rows = options.rows ?? DEFAULT_GRID_SIZE;
+        this._cols = options.cols ?? DEFAULT_GRID_SIZE;
+        this._autoSave = options.autoSave ?? true;
+        this._seed = options.seed ?? randomSeed();
+        this._rotationEnabled = options.rotation ?? false;
+        this._freeForm = options.freeForm ?? false;
+        this._imageSource = options.image ?? puzzleImageUrl;
+        this._backImageSource = options.backImage ?? null;
+        this._faceDown = options.faceDown ?? false;
+        this._highContrast = options.highContrast ?? readPreference(HIGH_CONTRAST_STORAGE_KEY) === '1';
+        this._highContrastButton.setAttribute('aria-pressed', String(this._highContrast));
 
-        this._setupScene();
-        this._setupXR(); // Nouvelle méthode pour configurer WebXR
-        this._imageTexture = new Texture(puzzleImageUrl, this._scene);
+        this._setupScene(options.cameraMode ?? this._getPreferredCameraMode());
+        this._updateCameraModeButton();
+        this._minimap.setVisible(options.minimap ?? readPreference(MINIMAP_STORAGE_KEY) === '1');
+        this._minimapButton.setAttribute('aria-pressed', String(this._minimap.isVisible));
+        this._scene.onAfterRenderObservable.add(() => this._updateMinimap());
+        this._performanceOverlay = new PerformanceOverlay(this._scene, elements.performanceOverlay, () => this._puzzlePieces.length);
+        if (options.showPerformance) this.togglePerformanceOverlay();
+        this._hints = new HintManager(this._scene);
+        this._remotePlayers = new RemotePlayers(this._scene);
+        this._selectionBox = new SelectionBox(this._scene);
+        this._focusRing = new FocusRing(this._scene);
+        this._scene.onBeforeRenderObservable.add(() => this._updateFocusRing());
+        this._xrPanel = new XRPanel(this._scene, {
+            onReset: () => this.resetGame(),
+            onNewGame: () => this.newGame(this.getSettings()),
+            onHint: () => this.showFittingPieceHint(),
+            onSpread: () => this.spreadOutPieces(),
+            onEdgesFirst: () => this.spreadOutPieces(true),
+            onGather: () => this.gatherSelection()
+        });
+        if (options.xr ?? true) this._setupXR();
+        this._scene.onBeforeRenderObservable.add(() => this._advanceReplay());
 
-        this._imageTexture.onLoadObservable.add(() => {
+        this._ready = this._loadInitialTexture().then(async (texture) => {
+            this._imageTexture = texture;
+            await this._loadInitialBackTexture();
+            if (this._isDisposed) return; // Jeu supprimé pendant le chargement
             this._createPuzzle();
             this._shufflePuzzle();
             this._addEventListeners();
+            this._offerResume();
             this._engine.runRenderLoop(() => {
                 this._scene.render();
             });
         });
+        // Même l'image par défaut est illisible : pas de puzzle, le joueur est prévenu (ready reste rejetée)
+        this._ready.catch((err) => {
+            console.error("Erreur lors du chargement de l'image de départ :", err);
+            this._setMessage("Impossible de charger l'image du puzzle. Rechargez la page pour réessayer.");
+        });
 
+        // Tous les écouteurs DOM du jeu sont retirés ensemble par dispose
+        const { signal } = this._listeners;
         window.addEventListener('resize', () => {
             this._engine.resize();
-        });
+        }, { signal });
+
+        this._resetButton.addEventListener('click', () => this.resetGame(), { signal });
+        this._undoButton.addEventListener('click', () => this.undo(), { signal });
+        this._redoButton.addEventListener('click', () => this.redo(), { signal });
+        this._ghostButton.addEventListener('click', () => this.toggleGhostHint(), { signal });
+        this._whereButton.addEventListener('click', () => this.showPieceTargetHint(), { signal });
+        this._findButton.addEventListener('click', () => this.showFittingPieceHint(), { signal });
+        this._leaveCoopButton.addEventListener('click', () => this.leaveSession(), { signal });
+        this._performanceButton.addEventListener('click', () => this.togglePerformanceOverlay(), { signal });
+        this._spreadButton.addEventListener('click', () => this.spreadOutPieces(), { signal });
+        this._edgesButton.addEventListener('click', () => this.spreadOutPieces(true), { signal });
+        this._gatherButton.addEventListener('click', () => this.gatherSelection(), { signal });
+        this._unstackButton.addEventListener('click', () => this.fanOutStack(), { signal });
+        this._selectButton.addEventListener('click', () => this.toggleSelectMode(), { signal });
+        this._highContrastButton.addEventListener('click', () => this.toggleHighContrast(), { signal });
+        this._dailyButton.addEventListener('click', () => this.startDailyPuzzle(), { signal });
+        this._shareButton.addEventListener('click', () => this._shareChallenge(), { signal });
+        this._cameraModeButton.addEventListener('click', () => this.toggleCameraMode(), { signal });
+        this._minimapButton.addEventListener('click', () => this.toggleMinimap(), { signal });
+        this._replayButton.addEventListener('click', () => {
+            const recording = this._recorder.recording;
+            if (recording) this.startReplay(recording);
+        }, { signal });
+        this._exportRecordingButton.addEventListener('click', () => {
+            const recording = this._recorder.recording;
+            if (recording) downloadSessionRecording(recording);
+        }, { signal });
+        this._importRecordingButton.addEventListener('click', () => this._importRecordingInput.click(), { signal });
+        this._importRecordingInput.addEventListener('change', () => {
+            const file = this._importRecordingInput.files?.[0];
+            this._importRecordingInput.value = '';
+            if (!file) return;
+            readSessionRecordingFile(file)
+                .then(recording => this.startReplay(recording))
+                .catch((err: Error) => {
+                    this._setMessage(err.message);
+                });
+        }, { signal });
 
-        this._resetButton.addEventListener('click', () => this.resetGame());
+        // Chrono en pause quand l'onglet est masqué
+        document.addEventListener('visibilitychange', () => this._stats.setHidden(document.hidden), { signal });
+        this._statsTimer = window.setInterval(() => this._updateStatsDisplay(), 500);
+        this._resumeButton.addEventListener('click', () => {
+            if (this._resumableSave) this._restoreSave(this._resumableSave);
+        }, { signal });
+        this._exportButton.addEventListener('click', () => {
+            if (this._puzzleObject) {
+                this._setMessage("Les puzzles 3D ne peuvent pas être exportés : le modèle n'est pas conservé dans la sauvegarde.");
+                return;
+            }
+            downloadSavedPuzzle(this._serializeState());
+        }, { signal });
+        this._importButton.addEventListener('click', () => this._importInput.click(), { signal });
+        this._imageButton.addEventListener('click', () => this._imageInput.click(), { signal });
+        this._imageInput.addEventListener('change', () => {
+            const file = this._imageInput.files?.[0];
+            this._imageInput.value = '';
+            if (!file) return;
+            readImageFile(file).then(source => this.loadImage(source)).catch((err: Error) => this._showImageError(err));
+        }, { signal });
+        this._backImageButton.addEventListener('click', () => this._backImageInput.click(), { signal });
+        this._backImageInput.addEventListener('change', () => {
+            const file = this._backImageInput.files?.[0];
+            this._backImageInput.value = '';
+            if (!file) return;
+            readImageFile(file).then(source => this.loadBackImage(source)).catch((err: Error) => this._showImageError(err));
+        }, { signal });
+        this._clearBackImageButton.addEventListener('click', () => this.loadBackImage(null), { signal });
+        this._modelButton.addEventListener('click', () => this._modelInput.click(), { signal });
+        this._modelInput.addEventListener('change', () => {
+            const file = this._modelInput.files?.[0];
+            this._modelInput.value = '';
+            if (file) this.loadModel(file);
+        }, { signal });
+        // Glisser-déposer d'une image (fichier ou lien) sur le canvas
+        this._canvas.addEventListener('dragover', (event) => event.preventDefault(), { signal });
+        this._canvas.addEventListener('drop', (event) => {
+            event.preventDefault();
+            getDroppedImage(event.dataTransfer).then(source => this.loadImage(source)).catch((err: Error) => this._showImageError(err));
+        }, { signal });
+        this._importInput.addEventListener('change', () => {
+            const file = this._importInput.files?.[0];
+            this._importInput.value = '';
+            if (!file) return;
+            readSavedPuzzleFile(file)
+                .then(state => this._restoreSave(state))
+                .catch((err: Error) => {
+                    this._setMessage(err.message);
+                });
+        }, { signal });
     }
 
-    private async _setupScene(): Promise<void> {
-        // Caméra classique (utilisée en mode non-VR)
-        const camera = new ArcRotateCamera(
-            'camera',
-            Math.PI / 2,
-            Math.PI / 2.5,
-            10,
-            Vector3.Zero(),
-            this._scene
-        );
-        camera.attachControl(this._canvas, true);
-        camera.lowerRadiusLimit = 1;
-        camera.upperRadiusLimit = 20;
-        camera.wheelPrecision = 50;
+    // Image demandée au démarrage (option ou paramètre d'URL) ; en cas d'échec, retour à l'image par défaut
+    private async _loadInitialTexture(): Promise<Texture> {
+        try {
+            return await this._loadTexture(this._imageSource);
+        } catch (err) {
+            if (this._imageSource === puzzleImageUrl) throw err;
+            console.error("Erreur lors du chargement de l'image :", err);
+            const failedSource = this._imageSource;
+            this._imageSource = puzzleImageUrl;
+            const texture = await this._loadTexture(puzzleImageUrl);
+            // Affiché après la construction du puzzle, qui efface le message
+            setTimeout(() => {
+                this._setMessage(`Impossible de charger l'image « ${this._describeImageSource(failedSource)} ». Image par défaut utilisée.`);
+            });
+            return texture;
+        }
+    }
+
+    // Image du dos demandée au démarrage ; en cas d'échec, le puzzle reste simple face
+    private async _loadInitialBackTexture(): Promise<void> {
+        if (this._backImageSource === null) return;
+        const source = this._backImageSource;
+        try {
+            this._backTexture = await this._loadTexture(source);
+        } catch (err) {
+            console.error("Erreur lors du chargement de l'image du dos :", err);
+            this._backImageSource = null;
+            setTimeout(() => {
+                this._setMessage(`Impossible de charger l'image du dos « ${this._describeImageSource(source)} ». Puzzle simple face.`);
+            });
+        }
+        this._clearBackImageButton.hidden = this._backTexture === null;
+    }
+
+    // Charge une nouvelle image et reconstruit le puzzle sur place (mêmes moteur, scène et grille)
+    public async loadImage(source: string): Promise<void> {
+        await this._ready;
+        let texture: Texture;
+        try {
+            texture = await this._loadTexture(source);
+        } catch (err) {
+            console.error("Erreur lors du chargement de l'image :", err);
+            this._setMessage(`Impossible de charger l'image « ${this._describeImageSource(source)} ». Vérifiez qu'il s'agit bien d'une image lisible.`);
+            return;
+        }
+        this._replaceImageTexture(texture, source);
+        this._createPuzzle();
+        this._startNewPuzzle();
+    }
+
+    private _replaceImageTexture(texture: Texture, source: string): void {
+        this._cancelGrabs();
+        this._disposePuzzle();
+        this._disposePuzzleObject();
+        this._imageTexture?.dispose(); // Absente si l'image de départ n'a pas encore fini de charger
+        this._imageTexture = texture;
+        this._imageSource = source;
+    }
+
+    // Puzzle double face avec cette image au dos (null : retour au dos en carton, recto seul), puis nouvelle partie :
+    // les règles d'emboîtement changent
+    public async loadBackImage(source: string | null): Promise<void> {
+        await this._ready;
+        if (this._puzzleObject) {
+            this._setMessage("Les puzzles 3D n'ont pas de dos : choisissez d'abord une image.");
+            return;
+        }
+        let texture: Texture | null = null;
+        if (source !== null) {
+            try {
+                texture = await this._loadTexture(source);
+            } catch (err) {
+                console.error("Erreur lors du chargement de l'image du dos :", err);
+                this._setMessage(`Impossible de charger l'image « ${this._describeImageSource(source)} ». Vérifiez qu'il s'agit bien d'une image lisible.`);
+                return;
+            }
+        }
+        this._replaceBackTexture(texture, source);
+        this._createPuzzle();
+        this._startNewPuzzle();
+    }
+
+    private _replaceBackTexture(texture: Texture | null, source: string | null): void {
+        this._cancelGrabs();
+        this._disposePuzzle();
+        this._backTexture?.dispose();
+        this._backTexture = texture;
+        this._backImageSource = source;
+        this._clearBackImageButton.hidden = texture === null;
+    }
+
+    // Puzzle en volume : charge un modèle glTF local, le découpe selon la grille en cours et éparpille les pièces.
+    // L'image reste chargée : une nouvelle image ramène au puzzle plat.
+    public async loadModel(file: File): Promise<void> {
+        await this._ready;
+        if (this._session) {
+            this._setMessage("Les puzzles 3D ne sont pas disponibles en session : quittez d'abord la session.");
+            return;
+        }
+        this._setMessage(`Chargement du modèle « ${file.name} »…`);
+        let object: PuzzleObject;
+        try {
+            object = await loadModelFile(file, this._scene);
+        } catch (err) {
+            this._setMessage((err as Error).message);
+            return;
+        }
+        this._cancelGrabs();
+        this._disposePuzzle();
+        this._disposePuzzleObject();
+        this._puzzleObject = object;
+        this._seed = randomSeed();
+        this._createPuzzle();
+        this._startNewPuzzle();
+    }
+
+    private _disposePuzzleObject(): void {
+        this._puzzleObject?.dispose();
+        this._puzzleObject = null;
+    }
+
+    // Source du puzzle pour le classement et les enregistrements : l'image, ou le fichier du modèle 3D
+    private get _puzzleSource(): string {
+        return this._puzzleObject ? `${MODEL_SOURCE_PREFIX}${this._puzzleObject.name}` : this._imageSource;
+    }
+
+    // Les data URL (fichiers locaux) sont trop longues pour un message
+    private _describeImageSource(source: string): string {
+        return source.startsWith('data:') ? 'fichier local' : source;
+    }
+
+    // Message au joueur : sous le canvas, sur le panneau XR dans le casque, et lu par les lecteurs d'écran
+    private _setMessage(text: string): void {
+        this._messageDisplay.textContent = text;
+        this._xrPanel.setMessage(text);
+        if (text) this._announcer.announce(text);
+    }
+
+    private _showImageError(err: Error): void {
+        this._setMessage(err.message);
+    }
+
+    private async _setupScene(cameraMode: CameraMode): Promise<void> {
+        // Caméras hors VR : orbite ou vue de table
+        this._cameras = new CameraController(this._scene, this._canvas, cameraMode);
+        this._cameras.attachControl();
 
         new HemisphericLight('light', new Vector3(0, 1, 0), this._scene);
+        // Les pièces ne sont cherchées sous le pointeur qu'à l'appui : pas de picking à chaque mouvement de la souris
+        this._scene.skipPointerMovePicking = true;
 
         // Sol pour l'environnement VR (visible)
         this._ground = MeshBuilder.CreateGround("ground", { width: 100, height: 100 }, this._scene);
@@ -102,19 +615,48 @@ export class Game {
                 doNotLoadControllerMeshes: true // Désactiver le chargement des modèles de contrôleur
             }
         });
+        if (this._isDisposed) {
+            this._xrExperience.dispose();
+            this._xrExperience = null;
+            return;
+        }
         console.log("WebXR initialisé avec succès");
+        // Le rayon des contrôleurs, lancé à chaque image, ignore les pièces (la saisie à distance les vise elle-même, à la gâchette)
+        if (this._xrExperience.pointerSelection) {
+            this._xrExperience.pointerSelection.raySelectionPredicate = mesh =>
+                mesh.isEnabled() && mesh.isVisible && mesh.isPickable && !mesh.metadata?.isPuzzlePiece;
+        }
+
+        // Suivi des mains (si le casque le permet) : pincement pour saisir, de près ou à distance
+        let handTracking: WebXRHandTracking | null = null;
+        try {
+            handTracking = this._xrExperience.baseExperience.featuresManager.enableFeature(WebXRFeatureName.HAND_TRACKING, 'latest', {
+                xrInput: this._xrExperience.input
+            }) as WebXRHandTracking;
+        } catch (err) {
+            console.warn("Suivi des mains indisponible :", err);
+        }
 
-        // Stocker l'état précédent du trigger pour détecter les changements
-        const triggerStates: Map<string, boolean> = new Map();
+        // Gestes déjà en cours et pincement, par contrôleur ou main
+        const xrInputStates: Map<string, { gestures: Record<XRGesture, boolean>, pinch: PinchDetector }> = new Map();
+        // Joystick incliné ou non : un quart de tour par inclinaison franche à gauche ou à droite,
+        // un retournement vers le haut ou le bas
+        const thumbstickStates: Map<string, boolean> = new Map();
+        const flipStickStates: Map<string, boolean> = new Map();
+        // Boutons A / X (annuler) et B / Y (rétablir) déjà enfoncés, par contrôleur
+        const historyButtonStates: Map<string, boolean> = new Map();
 
         this._xrExperience.input.onControllerAddedObservable.add((controller: WebXRInputSource) => {
             console.log("Contrôleur ajouté:", controller.uniqueId);
+            xrInputStates.set(controller.uniqueId, { gestures: { select: false, squeeze: false, pinch: false }, pinch: new PinchDetector() });
+            // Panneau d'interface accroché au contrôleur gauche (une main suivie l'accroche à son poignet, plus bas)
+            if (controller.inputSource.handedness === 'left' && !controller.inputSource.hand && controller.grip) {
+                this._xrPanel.attachTo(controller.grip);
+            }
             controller.onMotionControllerInitObservable.add(() => {
                 const motionController = controller.motionController;
                 if (motionController) {
                     console.log("MotionController initialisé:", motionController.profileId);
-                    // Initialiser l'état du trigger pour ce contrôleur
-                    triggerStates.set(controller.uniqueId, false);
 
                     // Ajouter un pointeur visuel
                     const laserPointer = MeshBuilder.CreateTube("laser", {
@@ -130,55 +672,115 @@ export class Game {
                 }
             });
         });
+        // Contrôleur posé ou main sortie du champ : la pièce tenue est lâchée
+        this._xrExperience.input.onControllerRemovedObservable.add((controller: WebXRInputSource) => {
+            this._releaseGrab(controller.uniqueId);
+            if (this._band?.inputId === controller.uniqueId) this._cancelBand();
+            xrInputStates.delete(controller.uniqueId);
+            if (controller.inputSource.handedness === 'left') this._xrPanel.attachTo(null);
+        });
+        handTracking?.onHandAddedObservable.add((hand) => {
+            if (hand.xrController.inputSource.handedness === 'left') {
+                this._xrPanel.attachTo(hand.getJointMesh(WebXRHandJoint.WRIST));
+            }
+        });
 
         // Gérer les interactions dans la boucle de rendu
         this._scene.onBeforeRenderObservable.add(() => {
-            if (!this._xrExperience || this._isGameSolved) return;
+            if (!this._xrExperience || this._isGameSolved || this._isHistoryAnimating || this._replay) return;
 
             this._xrExperience.input.controllers.forEach((controller) => {
+                const inputState = xrInputStates.get(controller.uniqueId);
+                if (!inputState) return;
+
+                // Créer un rayon à partir du contrôleur
+                const ray = new Ray(Vector3.Zero(), Vector3.Forward());
+                controller.getWorldPointerRayToRef(ray, true);
+                // Rayon visible par les autres joueurs de la session
+                this._session?.sendCursor(ray.origin.asArray() as [number, number, number], ray.direction.asArray() as [number, number, number]);
+
+                // Gestes de saisie : pincement pour une main suivie, gâchette et poignée pour un contrôleur.
+                // handPoint : point tenu par la main (entre le pouce et l'index) ou position de la poignée.
                 const motionController = controller.motionController;
+                const hand = handTracking?.getHandByControllerId(controller.uniqueId) ?? null;
+                const gestures: Record<XRGesture, boolean> = { select: false, squeeze: false, pinch: false };
+                let handPoint: Vector3;
+                if (hand) {
+                    const thumbTip = hand.getJointMesh(WebXRHandJoint.THUMB_TIP).absolutePosition;
+                    const indexTip = hand.getJointMesh(WebXRHandJoint.INDEX_FINGER_TIP).absolutePosition;
+                    gestures.pinch = inputState.pinch.update(Vector3.Distance(thumbTip, indexTip));
+                    handPoint = Vector3.Center(thumbTip, indexTip);
+                } else {
+                    gestures.select = motionController?.getComponent("xr-standard-trigger")?.pressed ?? false;
+                    gestures.squeeze = motionController?.getComponent("xr-standard-squeeze")?.pressed ?? false;
+                    handPoint = (controller.grip ?? controller.pointer).absolutePosition.clone();
+                }
+
+                const inputSource = `xr-${controller.inputSource.handedness}`;
+                const started = (Object.keys(gestures) as XRGesture[]).filter(gesture => gestures[gesture] && !inputState.gestures[gesture]);
+                (Object.keys(gestures) as XRGesture[]).forEach(gesture => {
+                    if (gestures[gesture] === inputState.gestures[gesture]) return;
+                    this._recorder.recordInput(inputSource, `${gesture}-${gestures[gesture] ? 'down' : 'up'}`, ...handPoint.asArray(), ...ray.origin.asArray(), ...ray.direction.asArray());
+                });
+                inputState.gestures = gestures;
+
+                const grab = this._grabs.get(controller.uniqueId);
+                if (this._band?.inputId === controller.uniqueId) {
+                    // Lasso tracé à la gâchette : il suit le rayon et sélectionne au relâcher
+                    const point = this._intersectSelectionPlane(ray);
+                    if (point) this._updateBand(point);
+                    if (!gestures.select) this._finishBand();
+                } else if (!grab) {
+                    // Pincement : la pièce sous les doigts, sinon celle visée par le rayon de la main
+                    if (started.includes('pinch')) {
+                        if (!this._grabNear(controller.uniqueId, handPoint, 'pinch')) this._grabWithRay(controller.uniqueId, ray, 'pinch');
+                    } else if (started.includes('squeeze')) {
+                        this._grabNear(controller.uniqueId, handPoint, 'squeeze');
+                    } else if (started.includes('select') && !this._grabWithRay(controller.uniqueId, ray, 'select') && !this._xrPanel.isPointedBy(ray)) {
+                        // Gâchette hors des pièces et du panneau : début d'un lasso sur la table
+                        const point = this._intersectSelectionPlane(ray);
+                        if (point) this._startBand(controller.uniqueId, point);
+                    }
+                } else if (!grab.gesture || !gestures[grab.gesture]) {
+                    // Fin du geste qui tenait la pièce
+                    this._releaseGrab(controller.uniqueId);
+                } else {
+                    // La pièce suit la main, ou reste au bout du rayon, dans les trois dimensions
+                    const grabPoint = grab.rayDistance === null ? handPoint : ray.origin.add(ray.direction.scale(grab.rayDistance));
+                    this._moveGrabbedPiece(grab, grabPoint.subtract(grab.offset), true);
+                    this._recorder.recordInput(inputSource, 'move', ...grabPoint.asArray());
+                }
+
                 if (motionController) {
-                    const triggerComponent = motionController.getComponent("xr-standard-trigger");
-                    if (triggerComponent) {
-                        const isPressed = triggerComponent.pressed;
-                        const previousState = triggerStates.get(controller.uniqueId) ?? false;
-
-                        // Créer un rayon à partir du contrôleur
-                        const ray = new Ray(Vector3.Zero(), Vector3.Forward());
-                        controller.getWorldPointerRayToRef(ray, true);
-
-                        // Détecter la pression du trigger
-                        if (isPressed && !previousState) {
-                            const pickResult = this._scene.pickWithRay(ray);
-                            if (pickResult?.hit && pickResult.pickedMesh?.metadata?.isPuzzlePiece) {
-                                this._draggedPiece = pickResult.pickedMesh.metadata.piece;
-                                if (this._draggedPiece && !this._draggedPiece.isLocked) {
-                                    this._draggedPiece.elevate(this._pieceDepth * 2);
-                                    this._dragOffset = pickResult.pickedPoint!.subtract(this._draggedPiece.mesh.position);
-                                }
-                            }
-                        }
-                        // Détecter le relâchement du trigger
-                        else if (!isPressed && previousState) {
-                            if (this._draggedPiece) {
-                                this._snapPiece(this._draggedPiece);
-                                this._draggedPiece = null;
-                                this._dragOffset = Vector3.Zero();
-                                this._checkWinCondition();
-                            }
+                    // Tourner la pièce saisie avec le joystick (gauche / droite)
+                    const thumbstickComponent = motionController.getComponent("xr-standard-thumbstick");
+                    if (thumbstickComponent) {
+                        const axisX = thumbstickComponent.axes.x;
+                        const wasDeflected = thumbstickStates.get(controller.uniqueId) ?? false;
+                        const isDeflected = Math.abs(axisX) > 0.7;
+                        const heldGrab = this._grabs.get(controller.uniqueId);
+                        if (isDeflected && !wasDeflected && heldGrab) {
+                            this._rotatePiece(heldGrab.piece, axisX > 0 ? 1 : -1);
                         }
+                        thumbstickStates.set(controller.uniqueId, isDeflected || (wasDeflected && Math.abs(axisX) > 0.3));
 
-                        // Mettre à jour l'état précédent
-                        triggerStates.set(controller.uniqueId, isPressed);
+                        const axisY = thumbstickComponent.axes.y;
+                        const wasFlipped = flipStickStates.get(controller.uniqueId) ?? false;
+                        const isFlipped = Math.abs(axisY) > 0.7 && Math.abs(axisY) > Math.abs(axisX);
+                        if (isFlipped && !wasFlipped && heldGrab) this._flipPiece(heldGrab.piece);
+                        flipStickStates.set(controller.uniqueId, isFlipped || (wasFlipped && Math.abs(axisY) > 0.3));
+                    }
 
-                        // Déplacer la pièce si saisie
-                        if (this._draggedPiece) {
-                            const pickResult = this._scene.pickWithRay(ray);
-                            if (pickResult?.pickedPoint) {
-                                const newPosition = pickResult.pickedPoint.subtract(this._dragOffset);
-                                this._draggedPiece.setPosition(newPosition.x, newPosition.y, this._draggedPiece.mesh.position.z);
-                            }
-                        }
+                    // Annuler / rétablir avec les boutons de façade
+                    for (const [componentId, action] of [
+                        ['a-button', () => this.undo()], ['x-button', () => this.undo()],
+                        ['b-button', () => this.redo()], ['y-button', () => this.redo()]
+                    ] as [string, () => void][]) {
+                        const button = motionController.getComponent(componentId);
+                        if (!button) continue;
+                        const key = `${controller.uniqueId}/${componentId}`;
+                        if (button.pressed && !historyButtonStates.get(key)) action();
+                        historyButtonStates.set(key, button.pressed);
                     }
                 }
             });
@@ -186,10 +788,12 @@ export class Game {
 
         // Entrée et sortie du mode XR
         this._xrExperience.baseExperience.onStateChangedObservable.add((state) => {
+            this._updateCameraControl();
             if (state === WebXRState.IN_XR) {
-                this._scene.activeCamera?.detachControl();
+                this._updateStatsDisplay();
+                this._xrPanel.show();
             } else {
-                (this._scene.activeCamera as ArcRotateCamera)?.attachControl(this._canvas, true);
+                this._xrPanel.hide();
             }
         });
     } catch (err) {
@@ -197,85 +801,185 @@ export class Game {
     }
 }
     private _createPuzzle(): void {
+        if (this._puzzleObject) {
+            this._createVolumePuzzle(this._puzzleObject);
+        } else {
+            this._createImagePuzzle();
+        }
+        this._model.onPieceChanged = state => {
+            if (!this._replay) this._puzzlePieces[state.index]?.sync();
+            this._recorder.recordPiece(state);
+        };
+        this._applyHighContrast();
+        this._level = null; // Un autre puzzle quitte la campagne (startLevel indique le niveau après la construction)
+    }
+
+    private _createImagePuzzle(): void {
         const imgWidth = this._imageTexture.getSize().width;
         const imgHeight = this._imageTexture.getSize().height;
 
-        this._puzzleWidth = 2; // Réduit pour faciliter l'interaction en VR
-        this._puzzleHeight = (imgHeight / imgWidth) * this._puzzleWidth;
+        // Images très larges ou très hautes : recadrage au centre, puis le puzzle tient dans un carré de 2 x 2
+        const crop = computeImageCrop(imgWidth, imgHeight);
+        this._imageTexture.uScale = crop.uScale;
+        this._imageTexture.uOffset = (1 - crop.uScale) / 2;
+        this._imageTexture.vScale = crop.vScale;
+        this._imageTexture.vOffset = (1 - crop.vScale) / 2;
+        if (this._backTexture) {
+            // Le dos couvre exactement le recto ; vu de dos, il est inversé de gauche à droite
+            const backSize = this._backTexture.getSize();
+            const backCrop = computeCoverCrop(backSize.width, backSize.height, crop.aspect);
+            this._backTexture.uScale = -backCrop.uScale;
+            this._backTexture.uOffset = (1 + backCrop.uScale) / 2;
+            this._backTexture.vScale = backCrop.vScale;
+            this._backTexture.vOffset = (1 - backCrop.vScale) / 2;
+        }
+
+        const maxPuzzleSize = 2; // Réduit pour faciliter l'interaction en VR
+        this._puzzleWidth = crop.aspect >= 1 ? maxPuzzleSize : maxPuzzleSize * crop.aspect;
+        this._puzzleHeight = this._puzzleWidth / crop.aspect;
 
         const tileWidth = this._puzzleWidth / this._cols;
         const tileHeight = this._puzzleHeight / this._rows;
+        this._cut = generatePuzzleCut(this._rows, this._cols, this._seed);
+        this._model = new PuzzleModel({
+            rows: this._rows,
+            cols: this._cols,
+            tileWidth,
+            tileHeight,
+            depth: this._pieceDepth,
+            freeForm: this._freeForm,
+            doubleSided: this._backTexture !== null
+        });
 
-        let pieceIndex = 0;
-        for (let r = 0; r < this._rows; r++) {
-            for (let c = 0; c < this._cols; c++) {
-                const piece = new PuzzlePiece(
-                    `piece-${pieceIndex}`,
-                    this._scene,
-                    this._imageTexture,
-                    r,
-                    c,
-                    this._rows,
-                    this._cols,
-                    tileWidth,
-                    tileHeight,
-                    pieceIndex,
-                    this._pieceDepth
-                );
-                this._puzzlePieces.push(piece);
-                pieceIndex++;
-            }
+        const meshes = new PieceMeshFactory(this._scene, this._imageTexture, this._cut, tileWidth, tileHeight, this._pieceDepth, this._backTexture);
+        this._pieceMeshes = meshes;
+        for (const state of this._model.pieces) {
+            this._puzzlePieces.push(PuzzlePiece.fromImage(`piece-${state.index}`, meshes, state));
         }
+        this._hints.buildGhost(this._imageTexture, this._puzzleWidth, this._puzzleHeight);
     }
 
-    private _shufflePuzzle(): void {
-        const spreadRadiusX = this._puzzleWidth * 1.5;
-        const spreadRadiusY = this._puzzleHeight * 1.5;
-        const spreadRadiusZ = 1; // Réduit pour VR
-
-        this._puzzlePieces.forEach(piece => {
-            piece.reset();
-            const randomX = (Math.random() - 0.5) * spreadRadiusX;
-            const randomY = (Math.random() - 0.5) * spreadRadiusY;
-            const randomZ = (Math.random() - 0.5) * spreadRadiusZ + 1; // Élevé pour être à portée en VR
+    // Puzzle en volume : l'objet est découpé en lignes x colonnes x VOLUME_LAYERS cellules, une pièce par cellule non vide
+    private _createVolumePuzzle(object: PuzzleObject): void {
+        const sliced = sliceModel(object.parts, this._rows, this._cols, VOLUME_LAYERS);
+        this._puzzleWidth = sliced.tileWidth * this._cols;
+        this._puzzleHeight = sliced.tileHeight * this._rows;
+        this._model = new PuzzleModel({
+            rows: this._rows,
+            cols: this._cols,
+            tileWidth: sliced.tileWidth,
+            tileHeight: sliced.tileHeight,
+            depth: sliced.tileDepth,
+            freeForm: this._freeForm,
+            volume: {
+                layers: VOLUME_LAYERS,
+                cells: sliced.slices.map(slice => ({ row: slice.row, col: slice.col, layer: slice.layer, target: slice.center }))
+            }
+        });
 
-            piece.setPosition(randomX, randomY, randomZ);
-            piece.currentPosition = piece.mesh.position.clone();
+        sliced.slices.forEach((slice, index) => {
+            const name = `piece-${index}`;
+            this._puzzlePieces.push(PuzzlePiece.fromSlice(name, this._scene, slice, this._model.getPiece(index), object.createMaterial(name + "Mat", this._scene)));
         });
+        this._hints.buildModelGhost(object.parts);
+    }
+
+    private _shufflePuzzle(): void {
+        // Mélange tiré de la graine : un même défi donne la même disposition de départ à tous les joueurs
+        this._model.shuffle({ rotation: this._rotationEnabled, faceDown: this._faceDown, random: createShuffleRandom(this._seed) });
         this._isGameSolved = false;
-        this._messageDisplay.textContent = '';
+        this._setMessage('');
+        this._startRecording();
     }
 
     private _addEventListeners(): void {
+        const { signal } = this._listeners;
         this._scene.onPointerObservable.add((pointerInfo) => {
-            if (this._isGameSolved || this._xrExperience?.baseExperience.state === WebXRState.IN_XR) return;
+            const event = pointerInfo.event as IPointerEvent;
+            if (this._isGameSolved || this._isHistoryAnimating || this._replay || this._xrExperience?.baseExperience.state === WebXRState.IN_XR) {
+                // Un doigt levé pendant ce temps ne bloque plus la caméra
+                if (pointerInfo.type === PointerEventTypes.POINTERUP && this._touchPoints.delete(event.pointerId)) this._endTouchGesture();
+                return;
+            }
+            this._recordPointerInput(pointerInfo.type, event);
 
             if (pointerInfo.type === PointerEventTypes.POINTERDOWN) {
+                if (event.pointerType === 'touch') {
+                    // Un doigt prend les pièces, deux doigts déplacent la caméra : les doigts ne la pilotent jamais directement
+                    this._touchPoints.set(event.pointerId, { x: event.clientX, y: event.clientY });
+                    this._updateCameraControl();
+                    if (this._touchPoints.size >= 2) {
+                        if (this._pointerGrab) {
+                            // Deuxième doigt sur une pièce tenue : début d'un geste de rotation, pas d'une nouvelle saisie
+                            this._twistAngle = this._getTwistAngle();
+                        } else if (this._touchPoints.size === 2) {
+                            // Deuxième doigt hors pièce : la caméra suit les deux doigts (le lasso du premier est abandonné)
+                            if (this._band?.inputId === POINTER_INPUT) this._cancelBand();
+                            const frame = this._getTouchFrame();
+                            if (frame) this._cameras.beginGesture(frame);
+                        }
+                        return;
+                    }
+                }
+                const pointerGrab = this._pointerGrab;
+                if (pointerGrab) {
+                    if (event.button === 2) this._rotatePiece(pointerGrab.piece, 1);
+                    return;
+                }
+                // La souris (ou le doigt) reprend la main sur le clavier
+                if (!this._grabs.has(KEYBOARD_INPUT)) this._keyboardFocus = null;
+
                 const pickResult = this._scene.pick(this._scene.pointerX, this._scene.pointerY);
                 if (pickResult?.hit && pickResult.pickedMesh?.metadata?.isPuzzlePiece) {
-                    this._draggedPiece = pickResult.pickedMesh.metadata.piece;
-                    if (this._draggedPiece && !this._draggedPiece.isLocked) {
-                        this._draggedPiece.elevate(this._pieceDepth * 2);
-                        const intersectionPoint = pickResult.pickedPoint;
-                        if (intersectionPoint) {
-                            this._dragOffset = intersectionPoint.subtract(this._draggedPiece.mesh.position);
-                        } else {
-                            console.warn("POINTERDOWN - Le point d'intersection était nul.");
-                            this._dragOffset = Vector3.Zero();
-                        }
-                        (this._scene.activeCamera as ArcRotateCamera).detachControl();
+                    const piece = this._getTopPiece(pickResult.pickedMesh.metadata.piece, pickResult.pickedPoint);
+                    // Clic droit : rotation sur place, sans saisir la pièce
+                    if (event.button === 2) {
+                        this._rotatePiece(piece, 1);
+                        return;
+                    }
+                    // Double-clic (ou double toucher) : retournement sur place. Au doigt, une pièce face visible
+                    // d'un puzzle à une face n'a rien à montrer au dos : le double toucher zoome plutôt sur elle.
+                    const now = performance.now();
+                    const isDoubleClick = this._lastPieceClick?.piece === piece && now - this._lastPieceClick.time < DOUBLE_CLICK_MS;
+                    this._lastPieceClick = isDoubleClick ? null : { piece, time: now };
+                    if (isDoubleClick && event.pointerType === 'touch' && !piece.state.isFaceDown && !this._model.isDoubleSided) {
+                        this._focusOn(piece.state.position.x, piece.state.position.y);
+                        return;
+                    }
+                    if (isDoubleClick && this._flipPiece(piece)) return;
+                    if (!pickResult.pickedPoint) console.warn("POINTERDOWN - Le point d'intersection était nul.");
+                    if (this._grabPiece(POINTER_INPUT, piece, pickResult.pickedPoint ?? piece.mesh.position, null, null)) {
+                        this._dragPointerId = event.pointerId;
+                        this._liftGrab(POINTER_INPUT);
+                        this._updateCameraControl();
                     }
+                } else if (event.button === 0 && (event.shiftKey || this._isSelectMode)) {
+                    // Maj + glisser (ou mode sélection) hors des pièces : lasso de sélection
+                    const point = this._getPointerSelectionPoint();
+                    if (point && this._startBand(POINTER_INPUT, point)) this._updateCameraControl();
+                } else if (event.pointerType === 'touch') {
+                    this._handleTableTap();
                 }
             } else if (pointerInfo.type === PointerEventTypes.POINTERUP) {
-                if (this._draggedPiece) {
-                    (this._scene.activeCamera as ArcRotateCamera).attachControl(this._canvas, true);
-                    this._snapPiece(this._draggedPiece);
-                    this._draggedPiece = null;
-                    this._dragOffset = Vector3.Zero();
-                    this._checkWinCondition();
-                }
+                this._touchPoints.delete(event.pointerId);
+                this._twistAngle = null;
+                if (this._band?.inputId === POINTER_INPUT) this._finishBand();
+                if (this._pointerGrab && event.pointerId === this._dragPointerId) this._releaseGrab(POINTER_INPUT);
+                this._endTouchGesture();
             } else if (pointerInfo.type === PointerEventTypes.POINTERMOVE) {
-                if (this._draggedPiece && !this._isGameSolved && !this._draggedPiece.isLocked) {
+                if (this._session) this._sendPointerCursor();
+                if (this._touchPoints.has(event.pointerId)) {
+                    this._touchPoints.set(event.pointerId, { x: event.clientX, y: event.clientY });
+                    const frame = this._cameras.isGestureActive ? this._getTouchFrame() : null;
+                    if (frame) this._cameras.updateGesture(frame);
+                    else this._handleTwist();
+                }
+                if (this._band?.inputId === POINTER_INPUT) {
+                    const point = this._getPointerSelectionPoint();
+                    if (point) this._updateBand(point);
+                }
+                const pointerGrab = this._pointerGrab;
+                if (pointerGrab && event.pointerId === this._dragPointerId && !this._isGameSolved && !pointerGrab.piece.isLocked) {
                     const ray = this._scene.createPickingRay(
                         this._scene.pointerX,
                         this._scene.pointerY,
@@ -284,210 +988,1669 @@ export class Game {
                     );
 
                     const dragPlane = Plane.FromPositionAndNormal(
-                        new Vector3(0, 0, this._draggedPiece.mesh.position.z),
+                        new Vector3(0, 0, pointerGrab.piece.mesh.position.z),
                         Vector3.Backward()
                     );
 
                     const distance = ray.intersectsPlane(dragPlane);
                     if (distance !== null) {
                         const pickedPointOnPlane = ray.origin.add(ray.direction.scale(distance));
-                        const newPosition = pickedPointOnPlane.subtract(this._dragOffset);
-                        this._draggedPiece.setPosition(newPosition.x, newPosition.y, this._draggedPiece.mesh.position.z);
+                        this._moveGrabbedPiece(pointerGrab, pickedPointOnPlane.subtract(pointerGrab.offset), false);
                     }
                 }
             }
         });
-    }
 
-    private _snapPiece(piece: PuzzlePiece): void {
-        let snapped = false;
-        const snapThreshold = this._puzzleWidth / this._cols / 2;
+        // Jeu au clavier, canvas actif : les touches utilisées n'atteignent pas la caméra (qui tourne sinon avec les flèches)
+        this._scene.onPreKeyboardObservable.add((keyboardInfo) => {
+            if (keyboardInfo.type !== KeyboardEventTypes.KEYDOWN || !this._handleKeyboardPlay(keyboardInfo.event)) return;
+            keyboardInfo.event.preventDefault();
+            keyboardInfo.skipOnKeyboardObservable = true;
+        });
+        // Canvas quitté : la pièce prise au clavier est posée, le cadre disparaît
+        this._canvas.addEventListener('blur', () => {
+            this._releaseGrab(KEYBOARD_INPUT);
+            this._keyboardFocus = null;
+        }, { signal });
 
-        const distToSelfCorrectPos = Vector3.Distance(
-            new Vector3(piece.mesh.position.x, piece.mesh.position.y, 0),
-            new Vector3(piece.originalPosition.x, piece.originalPosition.y, 0)
-        );
+        // Le clic droit sert à tourner les pièces : pas de menu contextuel sur le canvas
+        this._canvas.addEventListener('contextmenu', (event) => event.preventDefault(), { signal });
 
-        if (distToSelfCorrectPos < snapThreshold) {
-            piece.snapToOriginalPosition();
-            snapped = true;
-        } else {
-            for (const otherPiece of this._puzzlePieces) {
-                if (otherPiece !== piece && otherPiece.isLocked) {
-                    const currentPos = piece.mesh.position;
-                    const tileWidth = this._puzzleWidth / this._cols;
-                    const tileHeight = this._puzzleHeight / this._rows;
-                    let idealSnapPosition: Vector3 | null = null;
-
-                    if (piece.row === otherPiece.row - 1 && piece.col === otherPiece.col) {
-                        idealSnapPosition = new Vector3(
-                            otherPiece.originalPosition.x,
-                            otherPiece.originalPosition.y + tileHeight,
-                            this._pieceDepth / 2 + 0.01
-                        );
-                    } else if (piece.row === otherPiece.row + 1 && piece.col === otherPiece.col) {
-                        idealSnapPosition = new Vector3(
-                            otherPiece.originalPosition.x,
-                            otherPiece.originalPosition.y - tileHeight,
-                            this._pieceDepth / 2 + 0.01
-                        );
-                    } else if (piece.col === otherPiece.col - 1 && piece.row === otherPiece.row) {
-                        idealSnapPosition = new Vector3(
-                            otherPiece.originalPosition.x + tileWidth,
-                            otherPiece.originalPosition.y,
-                            this._pieceDepth / 2 + 0.01
-                        );
-                    } else if (piece.col === otherPiece.col + 1 && piece.row === otherPiece.row) {
-                        idealSnapPosition = new Vector3(
-                            otherPiece.originalPosition.x - tileWidth,
-                            otherPiece.originalPosition.y,
-                            this._pieceDepth / 2 + 0.01
-                        );
-                    }
+        // Puzzle en volume : la molette avance (ou recule) la pièce glissée, qui sinon reste à sa profondeur
+        this._canvas.addEventListener('wheel', (event) => {
+            const pointerGrab = this._pointerGrab;
+            if (!pointerGrab || !this._model.isVolumetric) return;
+            event.preventDefault();
+            const position = pointerGrab.piece.mesh.position;
+            this._moveGrabbedPiece(pointerGrab, new Vector3(position.x, position.y, position.z - event.deltaY * DEPTH_WHEEL_SPEED), true);
+        }, { passive: false, signal });
 
-                    if (idealSnapPosition) {
-                        const distanceToNeighborSnap = Vector3.Distance(
-                            new Vector3(currentPos.x, currentPos.y, 0),
-                            new Vector3(idealSnapPosition.x, idealSnapPosition.y, 0)
-                        );
-
-                        if (distanceToNeighborSnap < snapThreshold) {
-                            piece.setPosition(idealSnapPosition.x, idealSnapPosition.y, idealSnapPosition.z);
-                            piece.lock();
-                            snapped = true;
-                            break;
-                        }
-                    }
+        // Touche R : quart de tour horaire (Maj + R : anti-horaire) de la pièce saisie ou survolée
+        window.addEventListener('keydown', (event) => {
+            // Les raccourcis ne s'appliquent pas pendant la saisie dans un formulaire
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement || event.target instanceof HTMLTextAreaElement) return;
+            // Ctrl+Z : annuler, Ctrl+Y ou Ctrl+Maj+Z : rétablir
+            if (event.ctrlKey || event.metaKey) {
+                const key = event.key.toLowerCase();
+                if (key === 'z' && !event.shiftKey) {
+                    event.preventDefault();
+                    this.undo();
+                } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+                    event.preventDefault();
+                    this.redo();
+                }
+                return;
+            }
+            // P : compteurs de performance, C : contour contrasté des pièces, T : orbite ou vue de table, M : minicarte,
+            // disponibles à tout moment
+            switch (event.key.toLowerCase()) {
+                case 'p': this.togglePerformanceOverlay(); return;
+                case 'c': this.toggleHighContrast(); return;
+                case 't': this.toggleCameraMode(); return;
+                case 'm': this.toggleMinimap(); return;
+            }
+            if (this._isGameSolved || this._replay || this._xrExperience?.baseExperience.state === WebXRState.IN_XR) return;
+            // Échap : vide la sélection
+            if (event.key === 'Escape') {
+                this._setSelection([]);
+                return;
+            }
+            // Indices : G = image modèle, H = où va cette pièce, F = trouver une pièce qui s'emboîte ; D = déplier la pile,
+            // V = retourner la pièce saisie ou survolée
+            switch (event.key.toLowerCase()) {
+                case 'g': this.toggleGhostHint(); return;
+                case 'h': this.showPieceTargetHint(this._getShortcutPiece()); return;
+                case 'f': this.showFittingPieceHint(); return;
+                case 'd': this.fanOutStack((this._keyboardFocus ?? this._pickPieceUnderPointer()) ?? undefined); return;
+                case 'v': {
+                    const piece = this._getShortcutPiece();
+                    if (piece) this._flipPiece(piece);
+                    return;
+                }
+            }
+            if (event.key !== 'r' && event.key !== 'R') return;
+            const piece = this._getShortcutPiece();
+            if (piece) {
+                this._rotatePiece(piece, event.shiftKey ? -1 : 1);
+            }
+        }, { signal });
+    }
+
+    // Pièce visée par un raccourci : celle qu'on tient, sinon celle visée au clavier, sinon celle sous le pointeur
+    private _getShortcutPiece(): PuzzlePiece | null {
+        return this._heldPiece ?? this._keyboardFocus ?? this._pickPieceUnderPointer();
+    }
+
+    // Jeu au clavier : Tab (Maj + Tab) parcourt les pièces libres, puis les flèches ; Entrée ou Espace prend la pièce
+    // visée et la pose ; les flèches déplacent la pièce prise d'une case, Page préc. / Page suiv. d'une couche (volume).
+    // Renvoie true si la touche a servi.
+    private _handleKeyboardPlay(event: IKeyboardEvent): boolean {
+        if (this._isGameSolved || this._isHistoryAnimating || this._replay) return false;
+        const grab = this._grabs.get(KEYBOARD_INPUT);
+        switch (event.key) {
+            case 'Tab':
+                // La pièce prise garde le focus ; après la dernière pièce, Tab rend la main aux boutons de la page
+                return grab !== undefined || this._moveKeyboardFocus(event.shiftKey ? -1 : 1, false);
+            case 'Enter':
+            case ' ':
+                if (grab) {
+                    this._releaseGrab(KEYBOARD_INPUT);
+                    this._announcer.announce('Pièce posée.');
+                } else {
+                    this._grabFocusedPiece();
                 }
+                return true;
+            case 'ArrowLeft':
+            case 'ArrowRight':
+            case 'ArrowUp':
+            case 'ArrowDown': {
+                // Sans pièce visée, les flèches restent à la caméra
+                if (!grab) return this._keyboardFocus !== null && this._moveKeyboardFocus(event.key === 'ArrowRight' || event.key === 'ArrowDown' ? 1 : -1, true);
+                const dRow = event.key === 'ArrowUp' ? -1 : event.key === 'ArrowDown' ? 1 : 0;
+                const dCol = event.key === 'ArrowLeft' ? -1 : event.key === 'ArrowRight' ? 1 : 0;
+                const { x, y, z } = grab.piece.state.position;
+                const cell = stepToCell(this._model, x, y, dRow, dCol);
+                this._moveGrabbedPiece(grab, new Vector3(cell.x, cell.y, z), false);
+                this._announcer.announce(describePosition(this._model, cell.x, cell.y));
+                return true;
             }
+            case 'PageUp':
+            case 'PageDown': {
+                if (!grab || !this._model.isVolumetric) return false;
+                const { x, y, z } = grab.piece.state.position;
+                this._moveGrabbedPiece(grab, new Vector3(x, y, z + (event.key === 'PageUp' ? 1 : -1) * this._model.depth), true);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Vise la pièce libre suivante (ou précédente) ; false s'il n'y en a plus (voir getNextFocus)
+    private _moveKeyboardFocus(direction: 1 | -1, wrap: boolean): boolean {
+        const next = getNextFocus(this._model, this._keyboardFocus?.state ?? null, direction, wrap);
+        this._keyboardFocus = next ? this._puzzlePieces[next.index] : null;
+        if (!next) return false;
+        this._lastGrabbedPiece = this._keyboardFocus; // Cible de « Où va cette pièce ? »
+        const order = getFocusOrder(this._model);
+        this._announcer.announce(`Pièce ${order.indexOf(next) + 1} sur ${order.length} : ${describePiece(this._model, next)}, `
+            + describePosition(this._model, next.position.x, next.position.y).replace('au-dessus de', 'sur') + '.');
+        return true;
+    }
+
+    private _grabFocusedPiece(): void {
+        const piece = this._keyboardFocus;
+        if (!piece) {
+            this._moveKeyboardFocus(1, true);
+            return;
+        }
+        if (!this._grabPiece(KEYBOARD_INPUT, piece, piece.mesh.position.clone(), null, null)) {
+            this._announcer.announce("Cette pièce ne peut pas être prise pour l'instant.");
+            return;
+        }
+        this._liftGrab(KEYBOARD_INPUT);
+        this._announcer.announce('Pièce prise. Flèches : déplacer d\'une case ; Entrée : poser.');
+    }
+
+    // Cadre autour de la pièce visée au clavier, qui suit ses déplacements
+    private _updateFocusRing(): void {
+        const piece = this._keyboardFocus;
+        if (!piece || this._replay) {
+            this._focusRing.hide();
+            return;
+        }
+        const box = piece.mesh.getBoundingInfo().boundingBox;
+        this._focusRing.show(box.centerWorld, box.extendSizeWorld.x * 2, box.extendSizeWorld.y * 2);
+    }
+
+    // Contour contrasté des pièces, pour mieux les distinguer de l'image et entre elles ; le choix est mémorisé
+    public toggleHighContrast(): void {
+        this._highContrast = !this._highContrast;
+        writePreference(HIGH_CONTRAST_STORAGE_KEY, this._highContrast ? '1' : '0');
+        this._highContrastButton.setAttribute('aria-pressed', String(this._highContrast));
+        this._applyHighContrast();
+    }
+
+    public get cameraMode(): CameraMode {
+        return this._cameras.mode;
+    }
+
+    // Orbite (la caméra d'origine) ou vue de table, orthographique et vue de dessus ; le choix est mémorisé.
+    // La vue (point visé, zoom) est conservée ; en XR, le mode s'applique au retour.
+    public setCameraMode(mode: CameraMode): void {
+        if (this._xrExperience?.baseExperience.state === WebXRState.IN_XR) return;
+        this._cameras.setMode(mode);
+        writePreference(CAMERA_MODE_STORAGE_KEY, mode);
+        this._updateCameraModeButton();
+    }
+
+    public toggleCameraMode(): void {
+        this.setCameraMode(this._cameras.mode === 'orbit' ? 'table' : 'orbit');
+    }
+
+    // Minicarte de la table, par-dessus le canvas ; le choix est mémorisé
+    public toggleMinimap(): void {
+        this._minimap.setVisible(!this._minimap.isVisible);
+        writePreference(MINIMAP_STORAGE_KEY, this._minimap.isVisible ? '1' : '0');
+        this._minimapButton.setAttribute('aria-pressed', String(this._minimap.isVisible));
+        this._minimapUpdate = 0;
+    }
+
+    // Dernier mode choisi ; sinon la vue de table sur écran tactile, où l'orbite se prête mal au jeu à plat
+    private _getPreferredCameraMode(): CameraMode {
+        const stored = readPreference(CAMERA_MODE_STORAGE_KEY);
+        if (stored === 'orbit' || stored === 'table') return stored;
+        return window.matchMedia?.('(pointer: coarse)').matches ? 'table' : 'orbit';
+    }
+
+    private _updateCameraModeButton(): void {
+        this._cameraModeButton.textContent = this._cameras.mode === 'orbit' ? 'Vue : orbite' : 'Vue : table';
+    }
+
+    // Minicarte redessinée quelques fois par seconde : pièces, plateau et zone visible
+    private _updateMinimap(): void {
+        const now = performance.now();
+        if (!this._minimap.isVisible || !this._model || now - this._minimapUpdate < MINIMAP_REFRESH_MS) return;
+        this._minimapUpdate = now;
+        const held = new Set(Array.from(this._grabs.values(), grab => grab.piece.state.cluster));
+        const content: MinimapContent = {
+            board: this._model.isFreeForm ? null : {
+                minX: -this._puzzleWidth / 2, minY: -this._puzzleHeight / 2, maxX: this._puzzleWidth / 2, maxY: this._puzzleHeight / 2
+            },
+            tileWidth: this._model.tileWidth,
+            tileHeight: this._model.tileHeight,
+            pieces: this._model.pieces.map(piece => ({
+                x: piece.position.x,
+                y: piece.position.y,
+                rotationSteps: piece.rotationSteps,
+                isLocked: piece.isLocked,
+                isFaceDown: piece.isFaceDown,
+                isHeld: held.has(piece.cluster)
+            })),
+            view: this._xrExperience?.baseExperience.state === WebXRState.IN_XR ? null : this._cameras.getVisibleArea()
+        };
+        this._minimap.draw(content);
+    }
+
+    private _applyHighContrast(): void {
+        this._pieceMeshes?.setHighContrast(this._highContrast);
+        this._puzzlePieces.forEach(piece => piece.showHighContrast(this._highContrast));
+    }
+
+    // Action du pointeur (souris, doigt, stylet) ajoutée à l'enregistrement de la partie, en coordonnées écran
+    private _recordPointerInput(type: number, event: IPointerEvent): void {
+        const action = type === PointerEventTypes.POINTERDOWN ? 'down'
+            : type === PointerEventTypes.POINTERUP ? 'up'
+            : type === PointerEventTypes.POINTERMOVE ? 'move' : null;
+        if (!action) return;
+        this._recorder.recordInput(event.pointerType || 'mouse', action, this._scene.pointerX, this._scene.pointerY);
+    }
+
+    // Point de la table visé par la souris, montré aux autres joueurs de la session
+    private _sendPointerCursor(): void {
+        const ray = this._scene.createPickingRay(this._scene.pointerX, this._scene.pointerY, Matrix.Identity(), this._scene.activeCamera);
+        const distance = ray.intersectsPlane(Plane.FromPositionAndNormal(Vector3.Zero(), Vector3.Backward()));
+        if (distance === null) return;
+        const point = ray.origin.add(ray.direction.scale(distance));
+        this._session?.sendCursor([point.x, point.y, point.z], null);
+    }
+
+    private _pickPieceUnderPointer(): PuzzlePiece | null {
+        const pickResult = this._scene.pick(this._scene.pointerX, this._scene.pointerY);
+        return pickResult?.pickedMesh?.metadata?.isPuzzlePiece ? this._getTopPiece(pickResult.pickedMesh.metadata.piece, pickResult.pickedPoint) : null;
+    }
+
+    // Pièce du dessus de la pile au point visé : vue de biais, le rayon peut toucher la tranche d'une pièce du dessous
+    private _getTopPiece(piece: PuzzlePiece, point: Vector3 | null): PuzzlePiece {
+        if (!point || this._model.isVolumetric) return piece;
+        const top = this._model.findTopPieceAt(point.x, point.y);
+        return top && top.position.z > piece.state.position.z ? this._puzzlePieces[top.index] : piece;
+    }
+
+    // Pièces plates soulevées au-dessus des piles (avec la sélection) ; une pièce en volume reste à sa profondeur
+    private _liftGrab(inputId: string): void {
+        const grab = this._grabs.get(inputId);
+        if (!grab || this._model.isVolumetric) return;
+        const dragHeight = this._getDragHeight();
+        [grab.piece.state, ...grab.companions].forEach(member => this._model.liftCluster(member, dragHeight));
+    }
+
+    // Hauteur de glisser des pièces plates : au-dessus de la plus haute pile, pour n'en traverser aucune
+    private _getDragHeight(): number {
+        return Math.max(this._pieceDepth * 2, this._model.getStackTopZ() + this._pieceDepth);
+    }
+
+    // Angle (écran) de la droite passant par les deux doigts posés
+    private _getTwistAngle(): number | null {
+        if (this._touchPoints.size !== 2) return null;
+        const [first, second] = Array.from(this._touchPoints.values());
+        return Math.atan2(second.y - first.y, second.x - first.x);
+    }
+
+    // Rotation à deux doigts : un quart de tour dès que le geste dépasse 45°
+    private _handleTwist(): void {
+        const pointerGrab = this._pointerGrab;
+        if (!pointerGrab || this._twistAngle === null) return;
+        const angle = this._getTwistAngle();
+        if (angle === null) return;
+
+        let delta = angle - this._twistAngle;
+        if (delta > Math.PI) delta -= 2 * Math.PI;
+        if (delta < -Math.PI) delta += 2 * Math.PI;
+
+        if (Math.abs(delta) >= Math.PI / 4) {
+            // Axe y de l'écran vers le bas : un angle croissant correspond à une rotation horaire
+            this._rotatePiece(pointerGrab.piece, delta > 0 ? 1 : -1);
+            this._twistAngle = angle;
+        }
+    }
+
+    // Milieu et écart des deux doigts posés, en coordonnées du canvas (comme scene.pointerX)
+    private _getTouchFrame(): TwoFingerFrame | null {
+        const frame = getTwoFingerFrame(Array.from(this._touchPoints.values()));
+        if (!frame) return null;
+        const rect = this._canvas.getBoundingClientRect();
+        return { ...frame, x: frame.x - rect.left, y: frame.y - rect.top };
+    }
+
+    // Moins de deux doigts : fin du geste de caméra ; plus aucun doigt : la souris reprend la caméra
+    private _endTouchGesture(): void {
+        if (this._touchPoints.size < 2) this._cameras.endGesture();
+        this._updateCameraControl();
+    }
+
+    // Double toucher sur la table : zoom sur la zone
+    private _handleTableTap(): void {
+        const tap = { x: this._scene.pointerX, y: this._scene.pointerY, time: performance.now() };
+        const last = this._lastTableTap;
+        const isDoubleTap = last !== null && tap.time - last.time < DOUBLE_CLICK_MS && Math.hypot(tap.x - last.x, tap.y - last.y) < DOUBLE_TAP_DISTANCE;
+        this._lastTableTap = isDoubleTap ? null : tap;
+        const point = isDoubleTap ? this._cameras.pickTable(tap.x, tap.y) : null;
+        if (point) this._focusOn(point.x, point.y);
+    }
+
+    // Zoom animé sur un point de la table ; déjà zoomé à cet endroit, retour à la vue d'ensemble du puzzle
+    private _focusOn(x: number, y: number): void {
+        const view = this._cameras.getView();
+        const span = FOCUS_TILES * Math.max(this._model.tileWidth, this._model.tileHeight);
+        const isFocused = view.span <= span * 1.1 && Math.hypot(view.x - x, view.y - y) < span / 2;
+        this._cameras.animateTo(isFocused ? { x: 0, y: 0, span: this._getOverviewSpan() } : { x, y, span }, FOCUS_DURATION_MS);
+    }
+
+    // Hauteur de table visible pour voir le plateau et toutes les pièces
+    private _getOverviewSpan(): number {
+        const aspect = this._engine.getAspectRatio(this._cameras.camera);
+        const margin = Math.max(this._model.tileWidth, this._model.tileHeight);
+        let halfWidth = this._puzzleWidth / 2;
+        let halfHeight = this._puzzleHeight / 2;
+        this._model.pieces.forEach(piece => {
+            halfWidth = Math.max(halfWidth, Math.abs(piece.position.x) + margin);
+            halfHeight = Math.max(halfHeight, Math.abs(piece.position.y) + margin);
+        });
+        return 2 * Math.max(halfHeight, halfWidth / aspect);
+    }
+
+    // La souris pilote la caméra, sauf pendant un glisser de pièce ou de lasso, et tant qu'un doigt est posé
+    private _updateCameraControl(): void {
+        const isBusy = this._pointerGrab !== null || this._band?.inputId === POINTER_INPUT || this._touchPoints.size > 0
+            || this._xrExperience?.baseExperience.state === WebXRState.IN_XR;
+        if (isBusy) {
+            this._cameras.detachControl();
+        } else {
+            this._cameras.attachControl();
+        }
+    }
+
+    // Pièce tenue par la souris ou le doigt
+    private get _pointerGrab(): PieceGrab | null {
+        return this._grabs.get(POINTER_INPUT) ?? null;
+    }
+
+    // Dernière pièce saisie parmi celles encore tenues (raccourcis clavier, indices)
+    private get _heldPiece(): PuzzlePiece | null {
+        let held: PuzzlePiece | null = null;
+        this._grabs.forEach(grab => held = grab.piece);
+        return held;
+    }
+
+    // Saisie (pointeur, contrôleur ou main) qui tient le groupe de la pièce, directement ou avec la sélection, ou null
+    private _getGrab(state: PieceState): PieceGrab | null {
+        for (const grab of this._grabs.values()) {
+            if (grab.piece.state.cluster === state.cluster) return grab;
+            if (grab.companions.some(companion => companion.cluster === state.cluster)) return grab;
+        }
+        return null;
+    }
+
+    private _isSettling(state: PieceState): boolean {
+        for (const settling of this._settling.keys()) {
+            if (settling.cluster === state.cluster) return true;
+        }
+        return false;
+    }
+
+    // Pièce posée : ni tenue, ni en train de se poser (elle peut servir de voisine ou d'appui)
+    private _isAtRest(state: PieceState): boolean {
+        return !this._getGrab(state) && !this._isSettling(state);
+    }
+
+    // Une pièce se saisit si elle est libre, qu'aucune autre main ni aucun autre joueur ne tient son groupe
+    // et qu'elle n'est pas en train de se poser
+    private _canGrab(piece: PuzzlePiece): boolean {
+        return !piece.isLocked && this._getRemoteHolder(piece) === null && !this._getGrab(piece.state) && !this._isSettling(piece.state);
+    }
+
+    // Saisie d'une pièce par une entrée, au point grabPoint ; false si la pièce ne peut pas être saisie
+    private _grabPiece(inputId: string, piece: PuzzlePiece, grabPoint: Vector3, rayDistance: number | null, gesture: XRGesture | null): boolean {
+        if (this._grabs.has(inputId) || !this._canGrab(piece)) return false;
+        this._grabs.set(inputId, {
+            piece,
+            companions: this._selection.has(piece.state) ? this._getSelectedCompanions(piece.state) : [],
+            offset: grabPoint.subtract(piece.mesh.position),
+            rayDistance,
+            gesture,
+            // En session, l'état est partagé : pas d'historique local
+            startState: this._session ? null : this._capturePieceStates()
+        });
+        this._lastGrabbedPiece = piece;
+        this._session?.send({ type: 'grab', piece: piece.originalIndex });
+        this._stats.start();
+        this._stats.pickups++;
+        this._updateStatsDisplay();
+        this._events.emit('pieceGrabbed', this._describePieceEvent(piece.state));
+        return true;
+    }
+
+    // Une pièce de chacun des autres groupes sélectionnés qui peuvent suivre la pièce saisie
+    private _getSelectedCompanions(state: PieceState): PieceState[] {
+        const companions = new Map<PieceCluster, PieceState>();
+        this._selection.forEach(member => {
+            if (member.cluster === state.cluster || member.cluster.isLocked || companions.has(member.cluster)) return;
+            if (this._getGrab(member) || this._isSettling(member)) return;
+            companions.set(member.cluster, member);
+        });
+        return Array.from(companions.values());
+    }
+
+    // Saisie directe de la pièce sous la main (ou contre la poignée du contrôleur)
+    private _grabNear(inputId: string, handPoint: Vector3, gesture: XRGesture): boolean {
+        const state = this._model.findPieceNear(handPoint, NEAR_GRAB_REACH);
+        return state !== null && this._grabPiece(inputId, this._puzzlePieces[state.index], handPoint, null, gesture);
+    }
+
+    // Saisie à distance de la pièce visée par le rayon d'un contrôleur ou d'une main
+    private _grabWithRay(inputId: string, ray: Ray, gesture: XRGesture): boolean {
+        const pickResult = this._scene.pickWithRay(ray);
+        if (!pickResult?.hit || !pickResult.pickedPoint || !pickResult.pickedMesh?.metadata?.isPuzzlePiece) return false;
+        const piece = this._getTopPiece(pickResult.pickedMesh.metadata.piece, pickResult.pickedPoint);
+        return this._grabPiece(inputId, piece, pickResult.pickedPoint, pickResult.distance, gesture);
+    }
+
+    // Déplace la pièce saisie et tout son groupe, et la sélection qui la suit : dans le plan (pointeur) ou en 3D (XR)
+    private _moveGrabbedPiece(grab: PieceGrab, newPosition: Vector3, withDepth: boolean): void {
+        const position = grab.piece.state.position;
+        const dx = newPosition.x - position.x;
+        const dy = newPosition.y - position.y;
+        const dz = withDepth ? newPosition.z - position.z : 0;
+        [grab.piece.state, ...grab.companions].forEach(member => this._model.moveCluster(member, dx, dy, dz));
+        this._session?.send({ type: 'move', piece: grab.piece.originalIndex, position: [position.x, position.y, position.z] });
+    }
+
+    // Lâcher de la pièce tenue par une entrée. Près de la table (ou d'une pile), elle s'y pose avant de s'emboîter ;
+    // plus loin, elle reste en l'air là où la main l'a laissée. Une pièce en volume s'emboîte là où elle est lâchée.
+    private _releaseGrab(inputId: string): void {
+        const grab = this._grabs.get(inputId);
+        if (!grab) return;
+        this._grabs.delete(inputId);
+        if (inputId === POINTER_INPUT) {
+            this._dragPointerId = null;
+            this._updateCameraControl();
+        }
+        this._stats.drops++;
+        this._hints.clearSlotHighlight();
+        this._updateStatsDisplay();
+
+        const state = grab.piece.state;
+        if (this._model.isVolumetric) {
+            this._finishDrop(grab, true);
+        } else if (Math.abs(state.position.z - this._model.getRestingZ(state, other => this._isAtRest(other))) <= BOARD_SETTLE_DISTANCE) {
+            // Les groupes sélectionnés se posent avec la pièce ; l'emboîtement attend que tous soient sur la table
+            const members = [state, ...grab.companions];
+            let remaining = members.length;
+            members.forEach(member => this._settleOntoBoard(member, () => {
+                if (--remaining === 0) this._finishDrop(grab, true);
+            }));
+        } else {
+            this._finishDrop(grab, false);
+        }
+    }
+
+    // Descente en douceur du groupe de la pièce jusqu'à la table, ou sur les pièces qu'il recouvre, puis onSettled
+    private _settleOntoBoard(state: PieceState, onSettled: () => void): void {
+        const observer = this._scene.onBeforeRenderObservable.add(() => {
+            const restingZ = this._model.getRestingZ(state, other => this._isAtRest(other));
+            const step = SETTLE_SPEED * this._engine.getDeltaTime() / 1000;
+            const z = state.position.z;
+            const nextZ = Math.abs(z - restingZ) <= step ? restingZ : z - Math.sign(z - restingZ) * step;
+            this._model.liftCluster(state, nextZ);
+            if (nextZ !== restingZ) return;
+            this._scene.onBeforeRenderObservable.remove(observer);
+            this._settling.delete(state);
+            onSettled();
+        });
+        this._settling.set(state, observer);
+    }
+
+    // Pièces en train de se poser : arrêtées là où elles sont (puzzle remplacé ou remis à zéro)
+    private _cancelSettling(): void {
+        this._settling.forEach(observer => this._scene.onBeforeRenderObservable.remove(observer));
+        this._settling.clear();
+    }
+
+    // Fin d'un lâcher : emboîtement (pièce posée sur la table), historique, victoire, sauvegarde
+    private _finishDrop(grab: PieceGrab, isOnBoard: boolean): void {
+        const members = [grab.piece.state, ...grab.companions];
+        const movedPieces = new Set(members.flatMap(member => Array.from(member.cluster.pieces, piece => piece.index)));
+        const statesBeforeDrop = this._capturePieceStates();
+        const { x, y, z } = grab.piece.state.position;
+        this._events.emit('pieceDropped', { ...this._describePieceEvent(grab.piece.state), position: [x, y, z] });
+
+        if (this._session) {
+            // En session, le serveur applique l'emboîtement et renvoie le résultat à tous les joueurs
+            this._session.send({ type: 'drop', piece: grab.piece.originalIndex, snap: isOnBoard });
+        } else if (isOnBoard) {
+            members.forEach(member => {
+                if (this._model.snap(member, neighbour => this._isAtRest(neighbour))) this._countSnap(member);
+            });
+        }
+        // Les pièces qui reposaient sur les groupes déplacés retombent (le coup les inclut : on les retrouve en annulant)
+        if (!this._session) this._model.settleStacks(other => this._isAtRest(other));
+
+        // Le coup ne couvre que ces groupes : les pièces tenues par une autre main n'en font pas partie
+        if (grab.startState) {
+            const startState = grab.startState;
+            this._recordMove(statesBeforeDrop.map(saved => movedPieces.has(saved.index) ? startState[saved.index] : saved));
+        }
+        this._checkWinCondition();
+        this._saveProgress();
+    }
+
+    // Emboîtement réussi par le joueur local : statistiques, annonce et événement
+    private _countSnap(state: PieceState): void {
+        this._stats.snaps++;
+        this._updateStatsDisplay();
+        const assembled = this._model.findAssembledPieces().size;
+        this._announcer.announce(`Pièce emboîtée : ${assembled} sur ${this._model.pieces.length} pièces assemblées.`);
+        this._events.emit('pieceSnapped', this._describePieceEvent(state));
+    }
+
+    private _describePieceEvent(state: PieceState): GamePieceEvent {
+        return { piece: state.index, row: state.row, col: state.col };
+    }
+
+    // Ajoute à l'historique le coup qui a mené de before à l'état actuel
+    private _recordMove(before: SavedPiece[]): void {
+        this._history.record(before, this._capturePieceStates());
+        this._updateHistoryButtons();
+    }
+
+    // Abandon des saisies en cours (refus du serveur, fin de session, puzzle remplacé) ; les pièces restent où elles sont
+    private _cancelGrabs(predicate: (grab: PieceGrab) => boolean = () => true): void {
+        this._grabs.forEach((grab, inputId) => {
+            if (!predicate(grab)) return;
+            this._grabs.delete(inputId);
+            if (inputId === POINTER_INPUT) this._dragPointerId = null;
+        });
+        this._updateCameraControl();
+    }
+
+    private _rotatePiece(piece: PuzzlePiece, steps: number): void {
+        if (!this._rotationEnabled || piece.state.cluster.isLocked || this._getRemoteHolder(piece) !== null || this._isSettling(piece.state)) return;
+        if (this._session) {
+            // Sur la table, c'est le serveur qui décide d'un éventuel emboîtement
+            this._model.rotateCluster(piece.state, steps);
+            this._session.send({ type: 'rotate', piece: piece.originalIndex, steps });
+            return;
         }
+        const isOnTable = !this._getGrab(piece.state);
+        const before = this._capturePieceStates();
+        this._model.rotateCluster(piece.state, steps);
 
-        if (!snapped) {
-            piece.setPosition(
-                piece.currentPosition.x,
-                piece.currentPosition.y,
-                this._pieceDepth / 2 + 0.01
-            );
+        // Une pièce posée qui se retrouve à l'endroit peut s'emboîter immédiatement
+        if (isOnTable) {
+            if (this._model.snap(piece.state, neighbour => this._isAtRest(neighbour))) this._countSnap(piece.state);
+            this._recordMove(before);
+            this._checkWinCondition();
+            this._saveProgress();
         }
     }
 
+    // Retourne la pièce et son groupe autour de la pièce, en main ou sur la table ; false si c'est impossible
+    // (puzzle en volume, groupe verrouillé, tenu par un autre joueur ou déjà en train de se retourner)
+    private _flipPiece(piece: PuzzlePiece): boolean {
+        const members = Array.from(piece.state.cluster.pieces, state => this._puzzlePieces[state.index]);
+        if (this._model.isVolumetric || piece.state.cluster.isLocked || this._getRemoteHolder(piece) !== null
+            || members.some(member => this._flipping.has(member))) return false;
+        if (this._session) {
+            // Sur la table, c'est le serveur qui décide d'un éventuel emboîtement
+            if (this._isSettling(piece.state)) return false;
+            this._model.flipCluster(piece.state);
+            this._animateFlip(piece, members);
+            this._session.send({ type: 'flip', piece: piece.originalIndex });
+            return true;
+        }
+        // Une pièce en main ou qui se pose est emboîtée et enregistrée à la fin de son lâcher
+        const isAtRest = this._isAtRest(piece.state);
+        const before = this._capturePieceStates();
+        this._model.flipCluster(piece.state);
+        this._animateFlip(piece, members);
+        if (isAtRest) {
+            if (this._model.snap(piece.state, neighbour => this._isAtRest(neighbour))) this._countSnap(piece.state);
+            this._recordMove(before);
+            this._checkWinCondition();
+            this._saveProgress();
+        }
+        return true;
+    }
+
+    // Le groupe, déjà retourné dans le modèle, est montré en train de faire un demi-tour autour de la pièce pivot
+    private _animateFlip(pivot: PuzzlePiece, members: PuzzlePiece[]): void {
+        const pivotX = pivot.state.position.x;
+        const offsets = members.map(member => member.state.position.x - pivotX);
+        const lift = Math.max(this._model.tileWidth, this._model.tileHeight) / 2;
+        const start = performance.now();
+        const observer = this._scene.onBeforeRenderObservable.add(() => {
+            const t = Math.min((performance.now() - start) / FLIP_DURATION_MS, 1);
+            const eased = t * t * (3 - 2 * t);
+            members.forEach((member, i) => member.showFlip(Math.PI * (1 - eased), offsets[i], lift));
+            if (t < 1) return;
+            this._scene.onBeforeRenderObservable.remove(observer);
+            members.forEach(member => this._flipping.delete(member));
+        });
+        members.forEach(member => this._flipping.set(member, observer));
+        members.forEach((member, i) => member.showFlip(Math.PI, offsets[i], lift));
+    }
+
+    // Retournements arrêtés (puzzle remplacé) : les meshes sont supprimés avec lui
+    private _cancelFlips(): void {
+        new Set(this._flipping.values()).forEach(observer => this._scene.onBeforeRenderObservable.remove(observer));
+        this._flipping.clear();
+    }
+
     private _checkWinCondition(): void {
-        const allPiecesAreLocked = this._puzzlePieces.every(piece => piece.isLocked);
-        if (allPiecesAreLocked) {
-            const allPiecesAreInCorrectPosition = this._puzzlePieces.every(piece =>
-                piece.currentPosition.equalsWithEpsilon(
-                    new Vector3(piece.originalPosition.x, piece.originalPosition.y, piece.originalPosition.z + this._pieceDepth / 2 + 0.01),
-                    0.001
-                )
-            );
-
-            if (allPiecesAreInCorrectPosition && !this._isGameSolved) {
-                this._isGameSolved = true;
-                this._messageDisplay.textContent = "Félicitations, vous avez résolu le puzzle !";
-                this._disableInteractions();
-                this._animateSolvedPuzzle();
-            } else if (!allPiecesAreInCorrectPosition) {
-                this._messageDisplay.textContent = "Oops ! Toutes les pièces sont verrouillées mais pas au bon endroit. Réessayez !";
-                setTimeout(() => {
-                    this.resetGame();
-                }, 2000);
+        this._updateStatsDisplay(); // Progression à jour avant une éventuelle victoire
+        const misplaced = this._showMisplacedPieces();
+        const status = this._model.getStatus();
+        if (status === 'solved' && !this._isGameSolved) {
+            this._isGameSolved = true;
+            this._stats.stop();
+            this._updateStatsDisplay();
+            const level = this._level;
+            const hasNextLevel = level !== null && level.index + 1 < level.pack.levels.length;
+            this._recordResult(level ? this._completeLevel(level) : ''); // Affiche aussi le message de félicitations
+            const { elapsedMs, ...counts } = this._stats.toJSON();
+            this._events.emit('solved', { timeMs: elapsedMs, ...counts, seed: this._seed });
+            this._disableInteractions();
+            const recording = this._recorder.stop();
+            const solvedAnimation = this._animateSolvedPuzzle();
+            // Campagne : le niveau suivant s'enchaîne à la fin de l'animation, à la place de l'accéléré
+            if (level && hasNextLevel) {
+                solvedAnimation.then(() => this._startNextLevel(level));
+            } else {
+                this._scheduleTimeLapse(recording);
             }
+        } else if (misplaced.length > 0) {
+            // Plus aucune pièce à poser ailleurs : seules les pièces mal placées empêchent de terminer
+            const assembled = this._model.findAssembledPieces();
+            if (this._model.pieces.every(piece => assembled.has(piece) || misplaced.includes(piece))) this._setMessage(MISPLACED_MESSAGE);
+        } else if (this._messageDisplay.textContent === MISPLACED_MESSAGE) {
+            this._setMessage('');
+        }
+    }
+
+    // Teinte en rouge les pièces posées à une mauvaise place de l'assemblage, jusqu'à ce qu'on les corrige.
+    // Une pièce verrouillée à tort (sauvegarde incohérente) est libérée pour pouvoir être déplacée, sauf en session
+    // coopérative où le serveur fait foi.
+    private _showMisplacedPieces(): PieceState[] {
+        const misplaced = this._model.findMisplacedPieces();
+        if (!this._session) misplaced.forEach(state => state.isLocked && state.reset());
+        const flagged = new Set(misplaced);
+        this._puzzlePieces.forEach(piece => piece.showMisplaced(flagged.has(piece.state)));
+        return misplaced;
+    }
+
+    private _updateStatsDisplay(): void {
+        this._statsDisplay.textContent =
+            `Temps : ${formatDuration(this._stats.elapsedMs)} — Prises : ${this._stats.pickups}` +
+            ` — Lâchers : ${this._stats.drops} — Emboîtements : ${this._stats.snaps} — Indices : ${this._stats.hints}`;
+        const pieces = this._model?.pieces ?? [];
+        const assembled = this._model ? this._model.findAssembledPieces().size : 0;
+        this._xrPanel.setStats(formatDuration(this._stats.elapsedMs), assembled, pieces.length);
+        this._reportProgress(assembled, pieces.length);
+    }
+
+    // Événement progress, seulement quand le nombre de pièces assemblées (ou de pièces) change
+    private _reportProgress(assembled: number, total: number): void {
+        if (total === 0 || (this._progress?.assembled === assembled && this._progress.total === total)) return;
+        this._progress = { assembled, total };
+        this._events.emit('progress', { assembled, total });
+    }
+
+    // Chaque indice utilisé est compté (le score pourra en tenir compte)
+    private _countHint(): void {
+        this._stats.hints++;
+        this._updateStatsDisplay();
+    }
+
+    public toggleGhostHint(): void {
+        const visible = !this._hints.isGhostVisible;
+        this._hints.setGhostVisible(visible);
+        this._ghostButton.classList.toggle('active', visible);
+        if (visible) this._countHint();
+    }
+
+    // "Où va cette pièce ?" : la pièce saisie, sinon la dernière pièce prise si elle est encore libre
+    public showPieceTargetHint(piece: PuzzlePiece | null = this._heldPiece ?? this._lastGrabbedPiece): void {
+        if (this._isGameSolved) return;
+        if (!piece || piece.isLocked) {
+            this._setMessage("Saisissez d'abord une pièce pour savoir où elle va.");
+            return;
         }
+        if (!this._highlightSlot(piece)) {
+            this._setMessage("Emboîtez d'abord quelques pièces : leur place se déduit de l'image en cours d'assemblage.");
+            return;
+        }
+        this._countHint();
+    }
+
+    // "Trouver une pièce qui s'emboîte" : une pièce libre voisine d'une pièce déjà en place,
+    // ou un coin si rien n'est encore en place
+    public showFittingPieceHint(): void {
+        if (!this._model || this._isGameSolved) return; // Puzzle de départ pas encore construit
+        const state = this._model.findFittingPiece();
+        if (!state) return;
+        const piece = this._puzzlePieces[state.index];
+
+        this._hints.pulsePiece(piece);
+        this._highlightSlot(piece);
+        this._countHint();
+    }
+
+    // Case (ou cellule de l'objet en volume) où va la pièce, par rapport aux pièces déjà assemblées ;
+    // false si rien n'est encore assemblé en mode libre
+    private _highlightSlot(piece: PuzzlePiece): boolean {
+        const slot = this._model.getAssemblySlot(piece.state);
+        if (!slot) return false;
+        const { tileWidth, tileHeight, depth } = this._model;
+        const isTurned = slot.rotationSteps % 2 !== 0; // Assemblage tourné d'un quart de tour : la case aussi
+        const position = new Vector3(slot.position.x, slot.position.y, slot.position.z);
+        if (this._model.isVolumetric) {
+            this._hints.highlightSlot(position, isTurned ? depth : tileWidth, tileHeight, isTurned ? tileWidth : depth);
+        } else {
+            this._hints.highlightSlot(position, isTurned ? tileHeight : tileWidth, isTurned ? tileWidth : tileHeight);
+        }
+        return true;
+    }
+
+    // Enregistre le résultat dans le classement local (par image ou modèle, et taille de grille) et l'affiche
+    private _recordResult(note: string): void {
+        const key = getLeaderboardKey(this._puzzleSource, this._rows, this._cols);
+        const entry: LeaderboardEntry = {
+            score: computeScore(this._rows, this._cols, this._stats.elapsedMs),
+            timeMs: Math.round(this._stats.elapsedMs),
+            pickups: this._stats.pickups,
+            date: new Date().toISOString(),
+            seed: this._seed
+        };
+        const rank = recordResult(key, entry);
+        this._setMessage(`Félicitations, vous avez résolu le puzzle en ${formatDuration(entry.timeMs)} ! Score : ${entry.score} — Graine : ${this._seed}${note}`);
+        this._showLeaderboard(getLeaderboard(key), rank);
+    }
+
+    private _showLeaderboard(entries: LeaderboardEntry[], highlightedRank: number): void {
+        this._leaderboardList.replaceChildren(...entries.map((entry, rank) => {
+            const item = document.createElement('li');
+            item.textContent = `${entry.score} pts — ${formatDuration(entry.timeMs)} — ${entry.pickups} prises — ${new Date(entry.date).toLocaleDateString()}`
+                + (entry.seed === undefined ? '' : ` — graine ${entry.seed}`);
+            if (rank === highlightedRank) item.classList.add('current');
+            return item;
+        }));
+        this._leaderboardPanel.hidden = false;
     }
 
     private _disableInteractions(): void {
         this._puzzlePieces.forEach(piece => {
             piece.mesh.isPickable = false;
         });
-        if (this._xrExperience?.baseExperience.state !== WebXRState.IN_XR) {
-            (this._scene.activeCamera as ArcRotateCamera)?.attachControl(this._canvas, true);
-        }
+        this._updateCameraControl();
     }
 
-    private _animateSolvedPuzzle(): void {
+    // Animation de victoire ; la promesse est tenue quand elle se termine
+    private async _animateSolvedPuzzle(): Promise<void> {
+        this._startSolvedGlow();
+        // Hors VR, la caméra recule aussi pour montrer le puzzle entier
         if (this._xrExperience?.baseExperience.state === WebXRState.IN_XR) {
-            // Animation simplifiée pour VR
-            this._puzzlePieces.forEach(piece => {
-                if (piece.mesh.material instanceof StandardMaterial) {
-                    const frameRate = 60;
-                    const emissiveAnimation = new Animation("emissiveAnimation", "emissiveColor", frameRate, Animation.ANIMATIONTYPE_COLOR3, Animation.ANIMATIONLOOPMODE_CYCLE);
-                    const emissiveKeys = [
-                        { frame: 0, value: Color3.Green() },
-                        { frame: frameRate / 2, value: new Color3(0.1, 0.5, 0.1) },
-                        { frame: frameRate, value: Color3.Green() }
-                    ];
-                    emissiveAnimation.setKeys(emissiveKeys);
-                    this._scene.beginDirectAnimation(piece.mesh.material, [emissiveAnimation], 0, frameRate, true, 1.0);
-                }
-            });
+            return new Promise(resolve => window.setTimeout(resolve, SOLVED_ANIMATION_MS));
+        }
+        await this._cameras.animateOverview(this._puzzleWidth, this._puzzleHeight, SOLVED_ANIMATION_MS);
+    }
+
+    // Les pièces d'une image partagent leur matériau : une seule animation les fait toutes briller
+    private _startSolvedGlow(): void {
+        const material = this._pieceMeshes?.material;
+        if (!material) return;
+        const frameRate = 60;
+        const emissiveAnimation = new Animation("emissiveAnimation", "emissiveColor", frameRate, Animation.ANIMATIONTYPE_COLOR3, Animation.ANIMATIONLOOPMODE_CYCLE);
+        emissiveAnimation.setKeys([
+            { frame: 0, value: Color3.Green() },
+            { frame: frameRate / 2, value: new Color3(0.1, 0.5, 0.1) },
+            { frame: frameRate, value: Color3.Green() }
+        ]);
+        this._scene.beginDirectAnimation(material, [emissiveAnimation], 0, frameRate, true, 1.0);
+    }
+
+    // Sauvegarde automatique (après chaque lâcher) ; une partie terminée n'est plus proposée à la reprise
+    private _saveProgress(): void {
+        this._hideResumeOffer();
+        if (!this._autoSave || this._session) return; // L'état de la session est conservé par le serveur
+        if (this._puzzleObject) return; // Le modèle 3D (fichier local) n'est pas sauvegardé : pas de reprise possible
+        if (this._isGameSolved) {
+            clearLocalSave();
         } else {
-            const camera = this._scene.activeCamera as ArcRotateCamera;
-            if (!camera) return;
-
-            const frameRate = 60;
-            const animationDuration = 3;
-
-            const radiusAnimation = new Animation("radiusAnimation", "radius", frameRate, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CONSTANT);
-            const radiusKeys = [
-                { frame: 0, value: camera.radius },
-                { frame: animationDuration * frameRate, value: 1.2 * Math.max(this._puzzleWidth, this._puzzleHeight) }
-            ];
-            radiusAnimation.setKeys(radiusKeys);
-
-            const alphaAnimation = new Animation("alphaAnimation", "alpha", frameRate, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CONSTANT);
-            const alphaKeys = [
-                { frame: 0, value: camera.alpha },
-                { frame: animationDuration * frameRate, value: camera.alpha + Math.PI / 4 }
-            ];
-            alphaAnimation.setKeys(alphaKeys);
-
-            const targetAnimation = new Animation("targetAnimation", "target", frameRate, Animation.ANIMATIONTYPE_VECTOR3, Animation.ANIMATIONLOOPMODE_CONSTANT);
-            const targetKeys = [
-                { frame: 0, value: camera.target.clone() },
-                { frame: animationDuration * frameRate, value: Vector3.Zero() }
-            ];
-            targetAnimation.setKeys(targetKeys);
-
-            this._scene.beginDirectAnimation(camera, [radiusAnimation, alphaAnimation, targetAnimation], 0, animationDuration * frameRate, false, 1);
-
-            this._puzzlePieces.forEach(piece => {
-                if (piece.mesh.material instanceof StandardMaterial) {
-                    const emissiveAnimation = new Animation("emissiveAnimation", "emissiveColor", frameRate, Animation.ANIMATIONTYPE_COLOR3, Animation.ANIMATIONLOOPMODE_CYCLE);
-                    const emissiveKeys = [
-                        { frame: 0, value: Color3.Green() },
-                        { frame: frameRate / 2, value: new Color3(0.1, 0.5, 0.1) },
-                        { frame: frameRate, value: Color3.Green() }
-                    ];
-                    emissiveAnimation.setKeys(emissiveKeys);
-                    this._scene.beginDirectAnimation(piece.mesh.material, [emissiveAnimation], 0, frameRate, true, 1.0);
-                }
-            });
+            saveToLocalStorage(this._serializeState());
         }
     }
 
-    public resetGame(): void {
+    private _serializeState(): SavedPuzzle {
+        return {
+            version: SAVE_FORMAT_VERSION,
+            savedAt: new Date().toISOString(),
+            rows: this._rows,
+            cols: this._cols,
+            imageSource: this._imageSource,
+            seed: this._seed,
+            rotation: this._rotationEnabled,
+            freeForm: this._freeForm,
+            backImageSource: this._backImageSource,
+            faceDown: this._faceDown,
+            stats: this._stats.toJSON(),
+            pieces: this._capturePieceStates()
+        };
+    }
+
+    private _capturePieceStates(): SavedPiece[] {
+        return this._model?.captureState() ?? []; // Aucune pièce tant que l'image de départ n'est pas chargée
+    }
+
+    public undo(): void {
+        if (!this._canReplayHistory()) return;
+        const command = this._history.undo();
+        if (command) this._animateToPieceStates(command.before);
+    }
+
+    public redo(): void {
+        if (!this._canReplayHistory()) return;
+        const command = this._history.redo();
+        if (command) this._animateToPieceStates(command.after);
+    }
+
+    private _canReplayHistory(): boolean {
+        if (!this._model) return false; // Puzzle de départ pas encore construit
+        return !this._session && this._grabs.size === 0 && this._settling.size === 0 && !this._isGameSolved && !this._isHistoryAnimating && !this._replay;
+    }
+
+    // Ramène en douceur les pièces concernées vers l'état voulu, puis l'applique (verrous et groupes compris)
+    private _animateToPieceStates(changes: SavedPiece[]): void {
+        const model = this._model;
+        const targetStates = this._capturePieceStates();
+        changes.forEach(change => targetStates[change.index] = change);
+
+        const frameRate = 60;
+        const durationFrames = 18;
+        this._isHistoryAnimating = true;
+
+        const animations = changes.map(change => {
+            const piece = this._puzzlePieces[change.index];
+            const mesh = piece.mesh;
+            const axis = piece.state.rotationAxis;
+            const targetPosition = Vector3.FromArray(change.position);
+            // Rotation par le chemin le plus court
+            let angleDelta = (change.rotation * Math.PI / 2 - mesh.rotation[axis]) % (2 * Math.PI);
+            if (angleDelta > Math.PI) angleDelta -= 2 * Math.PI;
+            if (angleDelta < -Math.PI) angleDelta += 2 * Math.PI;
+
+            const positionAnimation = new Animation("historyPosition", "position", frameRate, Animation.ANIMATIONTYPE_VECTOR3, Animation.ANIMATIONLOOPMODE_CONSTANT);
+            positionAnimation.setKeys([
+                { frame: 0, value: mesh.position.clone() },
+                { frame: durationFrames, value: targetPosition }
+            ]);
+            const rotationAnimation = new Animation("historyRotation", `rotation.${axis}`, frameRate, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CONSTANT);
+            rotationAnimation.setKeys([
+                { frame: 0, value: mesh.rotation[axis] },
+                { frame: durationFrames, value: mesh.rotation[axis] + angleDelta }
+            ]);
+            return this._scene.beginDirectAnimation(mesh, [positionAnimation, rotationAnimation], 0, durationFrames, false);
+        });
+
+        Promise.all(animations.map(animatable => animatable.waitAsync())).then(() => {
+            // Puzzle reconstruit entre-temps (nouvelle partie, reprise) : ces états ne le concernent plus
+            if (this._isDisposed || this._model !== model) return;
+            this._isHistoryAnimating = false;
+            this._model.applyState(targetStates);
+            this._updateHistoryButtons();
+            this._checkWinCondition();
+            this._saveProgress();
+        });
+    }
+
+    private _updateHistoryButtons(): void {
+        this._undoButton.disabled = !this._history.canUndo;
+        this._redoButton.disabled = !this._history.canRedo;
+    }
+
+    private _offerResume(): void {
+        if (!this._autoSave) return;
+        this._resumableSave = loadFromLocalStorage();
+        if (this._resumableSave) {
+            this._resumeButton.hidden = false;
+            this._setMessage("Une partie en cours a été sauvegardée. Voulez-vous la reprendre ?");
+        }
+    }
+
+    private _hideResumeOffer(): void {
+        if (!this._resumableSave) return;
+        this._resumableSave = null;
+        this._resumeButton.hidden = true;
+        this._setMessage('');
+    }
+
+    private async _restoreSave(state: SavedPuzzle): Promise<void> {
+        this._hideResumeOffer();
+        if (this._session) {
+            this._setMessage("Quittez la session pour reprendre une partie sauvegardée.");
+            return;
+        }
+        try {
+            await this._applySavedState(state);
+            this._saveProgress();
+        } catch (err) {
+            console.error("Erreur lors de la restauration de la partie :", err);
+            this._setMessage("Impossible de restaurer la partie sauvegardée.");
+        }
+    }
+
+    // Reconstruit le puzzle décrit par la sauvegarde (image, grille, découpe) puis replace chaque pièce
+    private async _applySavedState(state: SavedPuzzle): Promise<void> {
+        // Une sauvegarde décrit toujours un puzzle d'image : un puzzle en volume en cours est abandonné
+        let needsRebuild = state.rows !== this._rows || state.cols !== this._cols || state.seed !== this._seed || state.freeForm !== this._freeForm
+            || this._puzzleObject !== null;
+
+        // Les deux images sont chargées avant de toucher au puzzle en cours : un échec le laisse intact
+        const changesImage = state.imageSource !== this._imageSource;
+        const changesBackImage = state.backImageSource !== this._backImageSource;
+        let texture: Texture | null = null;
+        let backTexture: Texture | null = null;
+        try {
+            if (changesImage) texture = await this._loadTexture(state.imageSource);
+            if (changesBackImage && state.backImageSource !== null) backTexture = await this._loadTexture(state.backImageSource);
+        } catch (err) {
+            texture?.dispose();
+            throw err;
+        }
+        if (texture) {
+            this._replaceImageTexture(texture, state.imageSource);
+            needsRebuild = true;
+        }
+        if (changesBackImage) {
+            this._replaceBackTexture(backTexture, state.backImageSource);
+            needsRebuild = true;
+        }
+
+        if (needsRebuild) {
+            this._disposePuzzle();
+            this._disposePuzzleObject();
+            this._rows = state.rows;
+            this._cols = state.cols;
+            this._seed = state.seed;
+            this._freeForm = state.freeForm;
+            this._createPuzzle();
+        }
+        this._rotationEnabled = state.rotation;
+        this._faceDown = state.faceDown;
+        this._cancelGrabs();
+        this._cancelSettling();
+        this._cancelBand();
+        this._setSelection([]);
+        this._stopReplay();
+        this._stopSolvedAnimations();
+        this._model.applyState(state.pieces);
+        this._startRecording();
+        this._history.clear();
+        this._updateHistoryButtons();
+
         this._isGameSolved = false;
-        this._messageDisplay.textContent = '';
+        this._setMessage('');
+        this._leaderboardPanel.hidden = true;
+        this._stats.restore(state.stats);
+        this._updateStatsDisplay();
+        this._checkWinCondition();
+    }
+
+    private _loadTexture(url: string): Promise<Texture> {
+        return new Promise((resolve, reject) => {
+            const texture: Texture = new Texture(url, this._scene, false, true, Texture.TRILINEAR_SAMPLINGMODE,
+                () => resolve(texture),
+                (message) => {
+                    texture.dispose();
+                    reject(new Error(message || `Impossible de charger l'image ${url}`));
+                });
+        });
+    }
+
+    private _disposePuzzle(): void {
+        this._stopReplay();
+        this._cancelSettling();
+        this._cancelFlips();
+        this._isHistoryAnimating = false;
+        this._lastPieceClick = null;
+        this._keyboardFocus = null;
+        if (this._model) this._model.onPieceChanged = null;
+        this._puzzlePieces.forEach(piece => piece.dispose());
+        this._puzzlePieces = [];
+        this._pieceMeshes?.dispose();
+        this._pieceMeshes = null;
+        this._lastGrabbedPiece = null;
+        this._cancelBand();
+        this._setSelection([]);
+        this._hints.clear();
+    }
+
+    private _stopSolvedAnimations(): void {
         this._puzzlePieces.forEach(piece => {
-            piece.reset();
-            piece.mesh.isPickable = true;
-            if (piece.mesh.material instanceof StandardMaterial) {
-                this._scene.stopAnimation(piece.mesh.material);
+            piece.mesh.isPickable = !piece.isLocked;
+        });
+        const material = this._pieceMeshes?.material;
+        if (material) {
+            this._scene.stopAnimation(material);
+            material.emissiveColor = Color3.Black();
+        }
+    }
+
+    // Nouvel enregistrement à partir de l'état actuel des pièces (partie mélangée, reprise ou rejointe)
+    private _startRecording(): void {
+        this._recorder.start({
+            rows: this._rows,
+            cols: this._cols,
+            seed: this._seed,
+            imageSource: this._puzzleSource,
+            backImageSource: this._puzzleObject ? null : this._backImageSource,
+            rotation: this._rotationEnabled,
+            freeForm: this._freeForm
+        }, this._capturePieceStates());
+    }
+
+    // Accéléré de la partie gagnée, une fois l'animation de victoire terminée
+    private _scheduleTimeLapse(recording: SessionRecording | null): void {
+        if (!recording || recording.events.length === 0) return;
+        const speed = Math.max(1, Math.round(recording.durationMs / TIME_LAPSE_DURATION_MS));
+        this._timeLapseTimer = window.setTimeout(() => {
+            this._timeLapseTimer = null;
+            if (this._isGameSolved) this.startReplay(recording, speed);
+        }, SOLVED_ANIMATION_MS);
+    }
+
+    // Relecture d'un enregistrement dans la scène ; un puzzle différent de celui en cours est d'abord reconstruit
+    public async startReplay(recording: SessionRecording, speed: number = 1): Promise<void> {
+        await this._ready;
+        const { puzzle } = recording;
+        const isSamePuzzle = puzzle.rows === this._rows && puzzle.cols === this._cols && puzzle.seed === this._seed && puzzle.imageSource === this._puzzleSource
+            && puzzle.freeForm === this._freeForm && puzzle.backImageSource === this._backImageSource;
+        if (!isSamePuzzle) {
+            if (puzzle.imageSource.startsWith(MODEL_SOURCE_PREFIX)) {
+                this._setMessage(`Chargez d'abord le modèle « ${puzzle.imageSource.slice(MODEL_SOURCE_PREFIX.length)} » pour revoir cette partie.`);
+                return;
+            }
+            if (this._session) {
+                this._setMessage("Quittez la session pour revoir un autre puzzle.");
+                return;
+            }
+            try {
+                await this._applySavedState({
+                    version: SAVE_FORMAT_VERSION,
+                    savedAt: '',
+                    rows: puzzle.rows,
+                    cols: puzzle.cols,
+                    imageSource: puzzle.imageSource,
+                    seed: puzzle.seed,
+                    rotation: puzzle.rotation,
+                    freeForm: puzzle.freeForm,
+                    backImageSource: puzzle.backImageSource,
+                    faceDown: recording.initialPieces.some(piece => piece.faceDown === true),
+                    pieces: recording.initialPieces,
+                    stats: { elapsedMs: 0, pickups: 0, drops: 0, snaps: 0, hints: 0 }
+                });
+            } catch (err) {
+                console.error("Erreur lors du chargement du puzzle enregistré :", err);
+                this._setMessage("Impossible de charger le puzzle de l'enregistrement.");
+                return;
             }
+        }
+
+        this._stopReplay();
+        Array.from(this._grabs.keys()).forEach(inputId => this._releaseGrab(inputId));
+        this._stopSolvedAnimations();
+        this._hints.clearSlotHighlight();
+        this._replay = new SessionPlayer(recording);
+        this._replay.speed = speed;
+        this._replay.play();
+        this._replayControls.show(this._replay);
+        this._showReplayFrame();
+    }
+
+    private _stopReplay(): void {
+        if (this._timeLapseTimer !== null) {
+            clearTimeout(this._timeLapseTimer);
+            this._timeLapseTimer = null;
+        }
+        if (!this._replay) return;
+        this._replay = null;
+        this._replayControls.hide();
+        this._puzzlePieces.forEach(piece => piece.sync()); // Retour à l'état réel de la partie
+    }
+
+    private _toggleReplayPlayback(): void {
+        if (!this._replay) return;
+        if (this._replay.isPlaying) {
+            this._replay.pause();
+        } else {
+            this._replay.play();
+        }
+        this._showReplayFrame();
+    }
+
+    private _seekReplay(timeMs: number): void {
+        if (!this._replay) return;
+        this._replay.seek(timeMs);
+        this._showReplayFrame();
+    }
+
+    private _advanceReplay(): void {
+        if (!this._replay?.isPlaying) return;
+        this._replay.advance(this._engine.getDeltaTime());
+        this._showReplayFrame();
+    }
+
+    // Affiche les pièces modifiées depuis la dernière image de la relecture
+    private _showReplayFrame(): void {
+        const replay = this._replay;
+        if (!replay) return;
+        replay.takeChanged().forEach(index => {
+            const piece = replay.pieces[index];
+            this._puzzlePieces[index]?.showTransform(piece.x, piece.y, piece.z, piece.rotation, piece.locked, piece.faceDown);
         });
-        this._shufflePuzzle();
-        if (this._xrExperience?.baseExperience.state !== WebXRState.IN_XR) {
-            const camera = this._scene.activeCamera as ArcRotateCamera;
-            if (camera) {
-                camera.alpha = Math.PI / 2;
-                camera.beta = Math.PI / 2.5;
-                camera.radius = 10;
-                camera.target = Vector3.Zero();
+        this._replayControls.update(replay);
+    }
+
+    // Rejoint (ou crée avec le puzzle en cours) une salle du serveur relais
+    public async joinSession(options: CoopJoinOptions): Promise<void> {
+        await this._ready;
+        if (this._puzzleObject) {
+            this._setMessage("Les puzzles 3D ne sont pas disponibles en session : choisissez d'abord une image.");
+            return;
+        }
+        this.leaveSession();
+        this._setMessage(`Connexion à la salle « ${options.room} »…`);
+        try {
+            const { session, state } = await CoopSession.connect(options, this._getPuzzleSetup(), this._capturePieceStates());
+            if (this._isDisposed) {
+                session.close();
+                return;
             }
+            this._session = session;
+            session.onClose = () => this._endSession("La connexion avec le serveur de la session a été perdue.");
+            this._remotePlayers.setPlayers(Array.from(session.players.values()));
+            this._hideResumeOffer();
+            this._coopButton.hidden = true;
+            this._leaveCoopButton.hidden = false;
+            await this._applyCoopState(state);
+            session.listen(message => this._onSessionMessage(message));
+            this._updateCoopStatus();
+            this._setMessage(`Vous avez rejoint la salle « ${options.room} ».`);
+        } catch (err) {
+            console.error("Erreur de connexion à la session :", err);
+            this._session?.close(); // Connexion déjà ouverte si c'est l'état de la salle qui n'a pas pu être appliqué
+            this._endSession((err as Error).message);
+        }
+    }
+
+    public leaveSession(): void {
+        if (!this._session) return;
+        this._session.close();
+        this._endSession("Vous avez quitté la session.");
+        this._saveProgress();
+    }
+
+    private _endSession(message: string): void {
+        this._session = null;
+        this._remoteHolders.clear();
+        this._remotePlayers.clear();
+        this._updateHeldOutlines();
+        this._cancelGrabs();
+        this._coopButton.hidden = false;
+        this._leaveCoopButton.hidden = true;
+        this._updateCoopStatus();
+        this._setMessage(message);
+    }
+
+    private _getPuzzleSetup(): CoopPuzzleSetup {
+        return {
+            rows: this._rows,
+            cols: this._cols,
+            seed: this._seed,
+            imageSource: this._imageSource,
+            rotation: this._rotationEnabled,
+            freeForm: this._freeForm,
+            backImageSource: this._backImageSource,
+            faceDown: this._faceDown,
+            tileWidth: this._model.tileWidth,
+            tileHeight: this._model.tileHeight,
+            depth: this._pieceDepth
+        };
+    }
+
+    // État complet de la salle (arrivée, nouvelle partie, remise à zéro) : reconstruit le puzzle si besoin
+    private async _applyCoopState(state: CoopRoomState): Promise<void> {
+        const { puzzle } = state;
+        await this._applySavedState({
+            version: SAVE_FORMAT_VERSION,
+            savedAt: '',
+            rows: puzzle.rows,
+            cols: puzzle.cols,
+            imageSource: puzzle.imageSource,
+            seed: puzzle.seed,
+            rotation: puzzle.rotation,
+            freeForm: puzzle.freeForm === true,
+            backImageSource: puzzle.backImageSource ?? null,
+            faceDown: puzzle.faceDown === true,
+            pieces: state.pieces,
+            stats: { elapsedMs: 0, pickups: 0, drops: 0, snaps: 0, hints: 0 }
+        });
+        const ownId = this._session?.playerId;
+        this._remoteHolders = new Map(state.holders.filter(([, playerId]) => playerId !== ownId));
+        this._updateHeldOutlines();
+    }
+
+    private _onSessionMessage(message: CoopServerMessage): void {
+        const session = this._session;
+        if (!session) return;
+        switch (message.type) {
+            case 'state':
+                this._applyCoopState(message.state).catch(err => {
+                    console.error("Erreur lors de la synchronisation de la session :", err);
+                    this._setMessage("Impossible de charger le puzzle de la session.");
+                });
+                break;
+            case 'pieces':
+                this._model.applyState(message.pieces);
+                this._updateHeldOutlines();
+                this._checkWinCondition();
+                break;
+            case 'held':
+                if (message.playerId === null || message.playerId === session.playerId) {
+                    this._remoteHolders.delete(message.piece);
+                } else {
+                    this._remoteHolders.set(message.piece, message.playerId);
+                }
+                this._updateHeldOutlines();
+                break;
+            case 'grabDenied':
+                if (Array.from(this._grabs.values()).some(grab => grab.piece.originalIndex === message.piece)) {
+                    this._cancelGrabs(grab => grab.piece.originalIndex === message.piece);
+                    this._setMessage("Cette pièce est déjà tenue par un autre joueur.");
+                }
+                break;
+            case 'dropped':
+                if (message.playerId === session.playerId && message.snapped) this._countSnap(this._model.getPiece(message.piece));
+                break;
+            case 'cursor':
+                this._remotePlayers.updateCursor(message.playerId, message.origin, message.direction);
+                break;
+            case 'playerJoined':
+                this._remotePlayers.addPlayer(message.player);
+                this._updateCoopStatus();
+                break;
+            case 'playerLeft':
+                this._remotePlayers.removePlayer(message.playerId);
+                this._updateCoopStatus();
+                break;
+            case 'solved':
+                this._checkWinCondition();
+                break;
+            case 'error':
+                this._setMessage(message.message);
+                break;
+        }
+    }
+
+    // Joueur (autre que soi) qui tient le groupe de la pièce, ou null
+    private _getRemoteHolder(piece: PuzzlePiece): number | null {
+        if (this._remoteHolders.size === 0) return null;
+        for (const member of piece.state.cluster.pieces) {
+            const holder = this._remoteHolders.get(member.index);
+            if (holder !== undefined) return holder;
+        }
+        return null;
+    }
+
+    // Teinte des pièces tenues par les autres joueurs : le joueur de chaque groupe n'est cherché qu'une fois
+    private _updateHeldOutlines(): void {
+        const clusterHolders = new Map<PieceCluster, number>();
+        this._remoteHolders.forEach((playerId, index) => {
+            const state = this._model.pieces[index];
+            if (state) clusterHolders.set(state.cluster, playerId);
+        });
+        this._puzzlePieces.forEach(piece => this._remotePlayers.showHeld(piece, clusterHolders.get(piece.state.cluster) ?? null));
+    }
+
+    private _updateCoopStatus(): void {
+        const session = this._session;
+        this._coopStatus.hidden = !session;
+        if (!session) return;
+        const names = Array.from(session.players.values(), player => {
+            const item = document.createElement('span');
+            item.textContent = player.id === session.playerId ? `${player.name} (vous)` : player.name;
+            item.style.color = player.color;
+            return item;
+        });
+        this._coopStatus.replaceChildren(`Salle « ${session.room} » — Joueurs : `, ...names.flatMap((item, i) => i > 0 ? [', ', item] : [item]));
+    }
+
+    public togglePerformanceOverlay(): void {
+        this._performanceOverlay.toggle();
+        this._performanceButton.classList.toggle('active', this._performanceOverlay.isVisible);
+    }
+
+    // "Étaler les pièces" : toutes les pièces libres en grille autour du plateau ; edgesFirst : les bords à gauche
+    public spreadOutPieces(edgesFirst: boolean = false): void {
+        if (!this._canArrangeTable()) return;
+        this._applyTrayLayout(spreadOutPieces(this._model, edgesFirst));
+    }
+
+    // "Rassembler la sélection" : les pièces sélectionnées côte à côte, là où elles sont en moyenne
+    public gatherSelection(): void {
+        if (!this._canArrangeTable()) return;
+        const placements = gatherPieces(this._model, Array.from(this._selection));
+        if (placements.length === 0) {
+            this._setMessage("Sélectionnez d'abord des pièces libres : Maj + glisser sur la table, ou gâchette dans le vide en VR.");
+            return;
+        }
+        this._applyTrayLayout(placements);
+    }
+
+    // "Déplier la pile" : les pièces empilées avec la pièce visée (sinon la dernière prise) posées côte à côte sur la table
+    public fanOutStack(piece: PuzzlePiece | null = this._lastGrabbedPiece): void {
+        if (!this._canArrangeTable()) return;
+        const placements = piece && !this._model.isVolumetric ? fanOutStack(this._model, piece.state) : [];
+        if (placements.length === 0) {
+            this._setMessage("Visez une pile de pièces (ou prenez-en une) pour la déplier.");
+            return;
+        }
+        this._applyTrayLayout(placements);
+    }
+
+    // Mode sélection (écrans tactiles, sans touche Maj) : le glisser hors des pièces trace un lasso au lieu de tourner la caméra
+    public toggleSelectMode(): void {
+        this._isSelectMode = !this._isSelectMode;
+        this._selectButton.classList.toggle('active', this._isSelectMode);
+    }
+
+    // Le rangement déplace des pièces que d'autres joueurs pourraient tenir : pas en session
+    private _canArrangeTable(): boolean {
+        if (this._session) {
+            this._setMessage("Le rangement de la table n'est pas disponible en session.");
+            return false;
+        }
+        return this._canReplayHistory();
+    }
+
+    // Anime les pièces vers leurs nouvelles places ; le rangement s'annule comme un coup
+    private _applyTrayLayout(placements: PiecePlacement[]): void {
+        if (placements.length === 0) return;
+        const before = this._capturePieceStates();
+        const after = before.map(saved => ({ ...saved }));
+        placements.forEach(({ piece, x, y, z }) => after[piece.index].position = [x, y, z]);
+        this._history.record(before, after);
+        this._updateHistoryButtons();
+        this._animateToPieceStates(placements.map(({ piece }) => after[piece.index]));
+    }
+
+    // Remplace la sélection : les groupes entiers des pièces libres données
+    private _setSelection(states: Iterable<PieceState>): void {
+        this._selection.forEach(state => this._puzzlePieces[state.index]?.showSelected(false));
+        this._selection = new Set();
+        for (const state of states) {
+            if (!state.isLocked) state.cluster.pieces.forEach(member => this._selection.add(member));
+        }
+        this._selection.forEach(state => this._puzzlePieces[state.index]?.showSelected(true));
+    }
+
+    // Début d'un lasso de sélection ; pas en session, où chacun déplace ses propres pièces
+    private _startBand(inputId: string, point: Vector3): boolean {
+        if (this._band) return false;
+        if (this._session) {
+            this._setMessage("La sélection de plusieurs pièces n'est pas disponible en session.");
+            return false;
+        }
+        this._band = { inputId, start: point, end: point };
+        this._updateBand(point);
+        return true;
+    }
+
+    private _updateBand(point: Vector3): void {
+        if (!this._band) return;
+        this._band.end = point;
+        const { start } = this._band;
+        // Juste au-dessus des pièces posées, pour rester visible
+        this._selectionBox.show(start.x, start.y, point.x, point.y, this._selectionPlaneZ + this._pieceDepth);
+    }
+
+    // Fin du lasso : il sélectionne les pièces libres dont le centre est dedans (aucune : la sélection est vidée)
+    private _finishBand(): void {
+        const band = this._band;
+        if (!band) return;
+        this._cancelBand();
+        const { start, end } = band;
+        this._setSelection(this._model.findLoosePiecesInArea(
+            Math.min(start.x, end.x), Math.min(start.y, end.y), Math.max(start.x, end.x), Math.max(start.y, end.y)));
+    }
+
+    private _cancelBand(): void {
+        this._band = null;
+        this._selectionBox.hide();
+        this._updateCameraControl();
+    }
+
+    // Plan du lasso : la table, ou le plan médian de l'objet en volume
+    private get _selectionPlaneZ(): number {
+        return this._model.isVolumetric ? 0 : this._model.tableZ;
+    }
+
+    // Point du plan du lasso visé par la souris ou le doigt
+    private _getPointerSelectionPoint(): Vector3 | null {
+        return this._intersectSelectionPlane(this._scene.createPickingRay(this._scene.pointerX, this._scene.pointerY, Matrix.Identity(), this._scene.activeCamera));
+    }
+
+    private _intersectSelectionPlane(ray: Ray): Vector3 | null {
+        const distance = ray.intersectsPlane(Plane.FromPositionAndNormal(new Vector3(0, 0, this._selectionPlaneZ), Vector3.Backward()));
+        return distance === null ? null : ray.origin.add(ray.direction.scale(distance));
+    }
+
+    public getSettings(): GameSettings {
+        return { rows: this._rows, cols: this._cols, rotation: this._rotationEnabled, freeForm: this._freeForm, faceDown: this._faceDown };
+    }
+
+    // Nouvelle partie avec une autre grille : les pièces sont reconstruites dans la même scène
+    // (un objet 3D est redécoupé selon la nouvelle grille). Les réglages absents restent ceux de la partie en cours ;
+    // sans graine imposée, la découpe et le mélange sont nouveaux.
+    public async newGame(changes: Partial<GameSettings> = {}, seed: number = randomSeed()): Promise<void> {
+        await this._ready;
+        const settings = { ...this.getSettings(), ...changes };
+        this._cancelGrabs();
+        this._disposePuzzle();
+        this._rows = settings.rows;
+        this._cols = settings.cols;
+        this._rotationEnabled = settings.rotation;
+        this._freeForm = settings.freeForm;
+        this._faceDown = settings.faceDown;
+        this._seed = seed;
+        this._createPuzzle();
+        this._startNewPuzzle();
+    }
+
+    // Joue un défi (lien partagé, puzzle du jour, niveau d'un pack) : image, grille, graine et options imposées.
+    // false si ses images n'ont pas pu être chargées (la partie en cours continue)
+    public async startChallenge(challenge: Challenge): Promise<boolean> {
+        await this._ready;
+        const image = challenge.image ?? puzzleImageUrl;
+        const backImage = challenge.backImage ?? null;
+        let texture: Texture | null = null;
+        let backTexture: Texture | null;
+        try {
+            texture = image === this._imageSource ? null : await this._loadTexture(image);
+            backTexture = backImage === null || backImage === this._backImageSource ? null : await this._loadTexture(backImage);
+        } catch (err) {
+            texture?.dispose(); // Image de face déjà chargée si c'est celle du dos qui a échoué
+            console.error("Erreur lors du chargement de l'image du défi :", err);
+            this._setMessage("Impossible de charger l'image de ce défi.");
+            return false;
+        }
+        if (texture) {
+            this._replaceImageTexture(texture, image);
+        } else {
+            this._disposePuzzleObject(); // Un défi est toujours un puzzle d'image
+        }
+        if (backImage !== this._backImageSource) this._replaceBackTexture(backTexture, backImage);
+        const { rows, cols, rotation, freeForm, faceDown } = challenge;
+        await this.newGame({ rows, cols, rotation, freeForm, faceDown }, challenge.seed);
+        return true;
+    }
+
+    // Joue un niveau d'un pack : une fois résolu, il est enregistré dans la progression et le suivant s'enchaîne
+    public async startLevel(pack: PuzzlePack, index: number): Promise<void> {
+        const level = pack.levels[index];
+        if (!level || !await this.startChallenge(getLevelChallenge(pack, level))) return;
+        this._level = { pack, index };
+        this._setMessage(`${pack.title} — niveau ${index + 1} sur ${pack.levels.length} : ${level.title}`);
+    }
+
+    // Niveau résolu : progression enregistrée ; renvoie la note ajoutée au message de félicitations
+    private _completeLevel(level: { pack: PuzzlePack, index: number }): string {
+        const { pack, index } = level;
+        recordLevelCompleted(pack, index, Math.round(this._stats.elapsedMs));
+        const next = pack.levels[index + 1];
+        return next ? ` — Niveau suivant : ${next.title}` : ` — Pack « ${pack.title} » terminé !`;
+    }
+
+    // Fin de l'animation de victoire : niveau suivant, sauf si le joueur est passé à autre chose entre-temps
+    private _startNextLevel(level: { pack: PuzzlePack, index: number }): void {
+        if (this._isDisposed || !this._isGameSolved || this._level !== level) return;
+        this.startLevel(level.pack, level.index + 1);
+    }
+
+    // Puzzle du jour : même graine pour tout le monde à cette date, image par défaut (jouable hors ligne)
+    public async startDailyPuzzle(date: Date = new Date()): Promise<void> {
+        if (!await this.startChallenge(getDailyChallenge(date))) return;
+        this._setMessage(`Puzzle du jour (${formatDay(date)}) : tout le monde joue la même partie aujourd'hui. Graine : ${this._seed}`);
+    }
+
+    // Défi de la partie en cours ; null pour un puzzle en volume (le modèle reste sur l'appareil du joueur)
+    public getChallenge(): Challenge | null {
+        if (this._puzzleObject) return null;
+        return {
+            seed: this._seed,
+            rows: this._rows,
+            cols: this._cols,
+            image: this._imageSource === puzzleImageUrl ? undefined : this._imageSource,
+            backImage: this._backImageSource ?? undefined,
+            rotation: this._rotationEnabled,
+            freeForm: this._freeForm,
+            faceDown: this._faceDown
+        };
+    }
+
+    // Lien du défi en cours ; null s'il n'est pas partageable (puzzle en volume, image choisie sur l'appareil)
+    public getChallengeUrl(): string | null {
+        const challenge = this.getChallenge();
+        if (!challenge || challenge.image?.startsWith('data:') || challenge.backImage?.startsWith('data:')) return null;
+        const absolute = (source: string | undefined) => source === undefined ? undefined : new URL(source, window.location.href).href;
+        return createChallengeUrl(window.location.href, { ...challenge, image: absolute(challenge.image), backImage: absolute(challenge.backImage) });
+    }
+
+    // Copie le lien du défi (affiché aussi dans le message, si le presse-papiers est indisponible)
+    private _shareChallenge(): void {
+        const url = this.getChallengeUrl();
+        if (!url) {
+            this._setMessage(this._puzzleObject
+                ? "Les puzzles 3D ne peuvent pas être partagés : le modèle reste sur votre appareil."
+                : "Une image choisie sur votre appareil ne peut pas être partagée : utilisez une image en ligne.");
+            return;
         }
+        const copy = navigator.clipboard?.writeText(url) ?? Promise.reject(new Error('Presse-papiers indisponible'));
+        copy.then(
+            () => this._setMessage(`Lien du défi copié (graine ${this._seed}) : ${url}`),
+            () => this._setMessage(`Lien du défi (graine ${this._seed}) : ${url}`)
+        );
+    }
+
+    // Puzzle tout juste reconstruit : mélangé sur place, ou par le serveur pour tous les joueurs de la session
+    private _startNewPuzzle(): void {
+        if (this._session) {
+            this._session.send({ type: 'newPuzzle', puzzle: this._getPuzzleSetup() });
+        } else {
+            this.resetGame();
+        }
+    }
+
+    public resetGame(): void {
+        if (!this._model) return; // Puzzle de départ pas encore construit : il sera mélangé en arrivant
+        if (this._session) {
+            // Le serveur mélange à nouveau les pièces et renvoie le nouvel état à tous les joueurs
+            this._session.send({ type: 'reset' });
+            return;
+        }
+        this._isGameSolved = false;
+        this._setMessage('');
+        this._leaderboardPanel.hidden = true;
+        this._stats.reset();
+        this._updateStatsDisplay();
+        this._history.clear();
+        this._updateHistoryButtons();
+        this._hints.clearSlotHighlight();
+        this._stopReplay();
+        this._cancelSettling();
+        this._cancelBand();
+        this._setSelection([]);
+        this._model.reset();
+        this._stopSolvedAnimations();
+        this._shufflePuzzle();
+        this._saveProgress();
+        this._cameras.reset();
     }
 
     public run(): void {
         // Vide, mais peut être utilisé pour des initialisations supplémentaires si nécessaire
     }
+
+    // Image de départ chargée et puzzle construit : getState et les événements reflètent alors la partie
+    public get ready(): Promise<void> {
+        return this._ready;
+    }
+
+    // Écoute un événement du jeu ; renvoie la fonction qui retire l'écouteur
+    public on<K extends keyof GameEvents>(type: K, listener: EventListener<GameEvents[K]>): () => void {
+        return this._events.on(type, listener);
+    }
+
+    public once<K extends keyof GameEvents>(type: K, listener: EventListener<GameEvents[K]>): () => void {
+        return this._events.once(type, listener);
+    }
+
+    public off<K extends keyof GameEvents>(type: K, listener: EventListener<GameEvents[K]>): void {
+        this._events.off(type, listener);
+    }
+
+    // État de la partie, au format des sauvegardes (un puzzle en volume n'y décrit que ses pièces, pas son modèle)
+    public getState(): SavedPuzzle {
+        return this._serializeState();
+    }
+
+    // Reprend une partie décrite par getState (ou une sauvegarde exportée) ; rejette un état invalide,
+    // ou pendant une session coopérative dont l'état appartient au serveur
+    public async setState(state: SavedPuzzle): Promise<void> {
+        const checked = parseSavedPuzzle(JSON.stringify(state));
+        await this._ready;
+        if (this._session) throw new Error("Quittez la session pour reprendre une partie sauvegardée.");
+        this._hideResumeOffer();
+        await this._applySavedState(checked);
+        this._saveProgress();
+    }
+
+    // Supprime le jeu : session quittée, XR arrêté, écouteurs retirés, scène et moteur libérés.
+    // Le canvas et les éléments d'interface restent à la page.
+    public dispose(): void {
+        if (this._isDisposed) return;
+        this._isDisposed = true;
+        this._session?.close();
+        this._session = null;
+        this._stopReplay();
+        this._replayControls.dispose();
+        this._minimap.dispose();
+        window.clearInterval(this._statsTimer);
+        this._listeners.abort();
+        this._events.clear();
+        this._xrExperience?.dispose();
+        this._xrExperience = null;
+        this._engine.stopRenderLoop();
+        this._scene.dispose();
+        this._engine.dispose();
+    }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+// src/gameElements.ts
+// Éléments de la page utilisés par le jeu, hors canvas : messages, statistiques, boutons, barre de relecture.
+// Tous sont facultatifs pour une intégration dans une autre page : un élément absent est remplacé par un élément
+// détaché du document, et la fonction correspondante reste simplement sans bouton.
+export interface GameElements {
+    message: HTMLElement;
+    stats: HTMLElement;
+    announcer: HTMLElement;             // Zone lue par les lecteurs d'écran (aria-live)
+    performanceOverlay: HTMLElement;
+    minimap: HTMLCanvasElement;         // Minicarte de la table, par-dessus le canvas du jeu
+    coopStatus: HTMLElement;
+    leaderboardPanel: HTMLElement;
+    leaderboardList: HTMLOListElement;
+    resetButton: HTMLButtonElement;
+    dailyButton: HTMLButtonElement;
+    shareButton: HTMLButtonElement;
+    resumeButton: HTMLButtonElement;
+    undoButton: HTMLButtonElement;
+    redoButton: HTMLButtonElement;
+    ghostButton: HTMLButtonElement;
+    whereButton: HTMLButtonElement;
+    findButton: HTMLButtonElement;
+    spreadButton: HTMLButtonElement;
+    edgesButton: HTMLButtonElement;
+    selectButton: HTMLButtonElement;
+    gatherButton: HTMLButtonElement;
+    unstackButton: HTMLButtonElement;
+    imageButton: HTMLButtonElement;
+    imageInput: HTMLInputElement;
+    backImageButton: HTMLButtonElement;
+    clearBackImageButton: HTMLButtonElement;
+    backImageInput: HTMLInputElement;
+    modelButton: HTMLButtonElement;
+    modelInput: HTMLInputElement;
+    exportButton: HTMLButtonElement;
+    importButton: HTMLButtonElement;
+    importInput: HTMLInputElement;
+    coopButton: HTMLButtonElement;
+    leaveCoopButton: HTMLButtonElement;
+    replayButton: HTMLButtonElement;
+    exportRecordingButton: HTMLButtonElement;
+    importRecordingButton: HTMLButtonElement;
+    importRecordingInput: HTMLInputElement;
+    highContrastButton: HTMLButtonElement;
+    performanceButton: HTMLButtonElement;
+    cameraModeButton: HTMLButtonElement;
+    minimapButton: HTMLButtonElement;
+    replayBar: HTMLElement;
+    replayPlayButton: HTMLButtonElement;
+    replaySeekInput: HTMLInputElement;
+    replayTime: HTMLElement;
+    replaySpeedSelect: HTMLSelectElement;
+    replayCloseButton: HTMLButtonElement;
+}
+
+// Balise de l'élément de remplacement, quand la page ne fournit pas l'élément
+const ELEMENT_TAGS: { [K in keyof GameElements]: keyof HTMLElementTagNameMap } = {
+    message: 'p',
+    stats: 'p',
+    announcer: 'p',
+    performanceOverlay: 'pre',
+    minimap: 'canvas',
+    coopStatus: 'p',
+    leaderboardPanel: 'section',
+    leaderboardList: 'ol',
+    resetButton: 'button',
+    dailyButton: 'button',
+    shareButton: 'button',
+    resumeButton: 'button',
+    undoButton: 'button',
+    redoButton: 'button',
+    ghostButton: 'button',
+    whereButton: 'button',
+    findButton: 'button',
+    spreadButton: 'button',
+    edgesButton: 'button',
+    selectButton: 'button',
+    gatherButton: 'button',
+    unstackButton: 'button',
+    imageButton: 'button',
+    imageInput: 'input',
+    backImageButton: 'button',
+    clearBackImageButton: 'button',
+    backImageInput: 'input',
+    modelButton: 'button',
+    modelInput: 'input',
+    exportButton: 'button',
+    importButton: 'button',
+    importInput: 'input',
+    coopButton: 'button',
+    leaveCoopButton: 'button',
+    replayButton: 'button',
+    exportRecordingButton: 'button',
+    importRecordingButton: 'button',
+    importRecordingInput: 'input',
+    highContrastButton: 'button',
+    performanceButton: 'button',
+    cameraModeButton: 'button',
+    minimapButton: 'button',
+    replayBar: 'div',
+    replayPlayButton: 'button',
+    replaySeekInput: 'input',
+    replayTime: 'span',
+    replaySpeedSelect: 'select',
+    replayCloseButton: 'button'
+};
+
+// Éléments du jeu : ceux fournis, sinon (given absent) ceux de la page dont l'ID porte le même nom ;
+// les autres sont remplacés par des éléments détachés
+export function resolveGameElements(given?: Partial<GameElements>): GameElements {
+    const elements: Partial<Record<keyof GameElements, HTMLElement>> = {};
+    (Object.keys(ELEMENT_TAGS) as (keyof GameElements)[]).forEach(name => {
+        const element = given ? given[name] : document.getElementById(name);
+        elements[name] = element ?? document.createElement(ELEMENT_TAGS[name]);
+    });
+    return elements as GameElements;
+}
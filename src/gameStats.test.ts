@@ -0,0 +1,48 @@
+// src/gameStats.test.ts
+import { describe, it, expect } from 'vitest';
+import { GameStats, formatDuration } from './gameStats';
+import { computeScore } from './leaderboard';
+
+describe('chrono de la partie', () => {
+    it('ne compte que le temps de jeu, onglet visible, jusqu’à la victoire', () => {
+        let now = 0;
+        const stats = new GameStats(() => now);
+        now = 1000;
+        expect(stats.elapsedMs).toBe(0);
+
+        stats.start();
+        now = 3000;
+        stats.setHidden(true);
+        now = 10000;
+        stats.setHidden(false);
+        now = 11000;
+        stats.stop();
+        now = 20000;
+        stats.start();
+        expect(stats.elapsedMs).toBe(3000);
+    });
+
+    it('reste en pause après une reprise jusqu’à la prochaine prise', () => {
+        let now = 0;
+        const stats = new GameStats(() => now);
+        stats.restore({ elapsedMs: 5000, pickups: 3, drops: 3, snaps: 1, hints: 2 });
+        now = 4000;
+        expect(stats.elapsedMs).toBe(5000);
+        stats.start();
+        now = 5000;
+        expect(stats.toJSON()).toEqual({ elapsedMs: 6000, pickups: 3, drops: 3, snaps: 1, hints: 2 });
+    });
+
+    it('formate les durées', () => {
+        expect(formatDuration(83500)).toBe('01:23');
+        expect(formatDuration(3723000)).toBe('1:02:03');
+    });
+});
+
+describe('score', () => {
+    it('récompense la rapidité, dans les limites x0.1 à x2', () => {
+        expect(computeScore(3, 3, 90000)).toBe(900);
+        expect(computeScore(3, 3, 1)).toBe(1800);
+        expect(computeScore(3, 3, 90000 * 100)).toBe(90);
+    });
+});
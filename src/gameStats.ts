@@ -0,0 +1,101 @@
+// src/gameStats.ts
+// Chronomètre et compteurs d'une partie. Le chrono démarre à la première prise de pièce,
+// se met en pause quand l'onglet est masqué et s'arrête à la victoire.
+
+export interface GameStatsSnapshot {
+    elapsedMs: number;
+    pickups: number;    // Pièces saisies
+    drops: number;      // Pièces lâchées
+    snaps: number;      // Lâchers qui ont emboîté la pièce (voisin ou position finale)
+    hints: number;      // Indices utilisés
+}
+
+export class GameStats {
+    public pickups: number = 0;
+    public drops: number = 0;
+    public snaps: number = 0;
+    public hints: number = 0;
+
+    private _elapsedBeforeMs: number = 0;           // Temps cumulé avant la dernière reprise
+    private _runningSince: number | null = null;
+    private _stopped: boolean = false;
+    private _pausedByVisibility: boolean = false;
+    private _now: () => number;
+
+    constructor(now: () => number = () => performance.now()) {
+        this._now = now;
+    }
+
+    public get elapsedMs(): number {
+        const running = this._runningSince !== null ? this._now() - this._runningSince : 0;
+        return this._elapsedBeforeMs + running;
+    }
+
+    public get isRunning(): boolean {
+        return this._runningSince !== null;
+    }
+
+    // Démarre (ou reprend) le chrono ; sans effet après la victoire
+    public start(): void {
+        if (this._stopped || this._runningSince !== null) return;
+        if (this._pausedByVisibility) return;
+        this._runningSince = this._now();
+    }
+
+    public pause(): void {
+        if (this._runningSince === null) return;
+        this._elapsedBeforeMs += this._now() - this._runningSince;
+        this._runningSince = null;
+    }
+
+    public stop(): void {
+        this.pause();
+        this._stopped = true;
+    }
+
+    // Onglet masqué : le chrono ne tourne pas, et repart au retour s'il tournait
+    public setHidden(hidden: boolean): void {
+        if (hidden && this.isRunning) {
+            this.pause();
+            this._pausedByVisibility = true;
+        } else if (!hidden && this._pausedByVisibility) {
+            this._pausedByVisibility = false;
+            this.start();
+        }
+    }
+
+    public reset(): void {
+        this.pickups = 0;
+        this.drops = 0;
+        this.snaps = 0;
+        this.hints = 0;
+        this._elapsedBeforeMs = 0;
+        this._runningSince = null;
+        this._stopped = false;
+        this._pausedByVisibility = false;
+    }
+
+    public toJSON(): GameStatsSnapshot {
+        return { elapsedMs: Math.round(this.elapsedMs), pickups: this.pickups, drops: this.drops, snaps: this.snaps, hints: this.hints };
+    }
+
+    // Reprise d'une partie sauvegardée : le chrono reste en pause jusqu'à la prochaine prise
+    public restore(snapshot: GameStatsSnapshot): void {
+        this.reset();
+        this._elapsedBeforeMs = snapshot.elapsedMs;
+        this.pickups = snapshot.pickups;
+        this.drops = snapshot.drops;
+        this.snaps = snapshot.snaps;
+        this.hints = snapshot.hints;
+    }
+}
+
+// 83 500 ms -> "01:23" (ou "1:02:03" au-delà d'une heure)
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
@@ -0,0 +1,5 @@
+// src/gridSize.ts
+// Bornes de la grille (lignes et colonnes), communes à la boîte "Nouvelle partie", aux fichiers importés et au serveur.
+
+export const MIN_GRID_SIZE = 2;
+export const MAX_GRID_SIZE = 40;
@@ -0,0 +1,15 @@
+// src/handPinch.test.ts
+import { describe, it, expect } from 'vitest';
+import { PinchDetector } from './handPinch';
+
+describe('pincement d’une main suivie', () => {
+    it('commence sous le seuil de départ et ne cesse qu’au-delà du seuil de fin', () => {
+        const pinch = new PinchDetector();
+        expect(pinch.update(0.03)).toBe(false);
+        expect(pinch.update(0.015)).toBe(true);
+        expect(pinch.update(0.035)).toBe(true);   // Doigts légèrement écartés : la pièce reste tenue
+        expect(pinch.update(0.05)).toBe(false);
+        expect(pinch.update(0.03)).toBe(false);
+        expect(pinch.isPinching).toBe(false);
+    });
+});
@@ -0,0 +1,23 @@
+// src/handPinch.ts
+// Pincement (bout du pouce contre bout de l'index) d'une main suivie en WebXR. Seuils distincts pour
+// commencer et finir le geste, afin qu'une pièce tenue ne tombe pas au moindre tremblement de la main.
+export const PINCH_START_DISTANCE = 0.02;  // En mètres
+export const PINCH_END_DISTANCE = 0.04;
+
+export class PinchDetector {
+    private _isPinching: boolean = false;
+
+    public get isPinching(): boolean {
+        return this._isPinching;
+    }
+
+    // Met à jour le geste avec la distance pouce-index de l'image courante ; renvoie true tant que la main pince
+    public update(distance: number): boolean {
+        if (this._isPinching) {
+            if (distance > PINCH_END_DISTANCE) this._isPinching = false;
+        } else if (distance < PINCH_START_DISTANCE) {
+            this._isPinching = true;
+        }
+        return this._isPinching;
+    }
+}
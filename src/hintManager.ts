@@ -0,0 +1,130 @@
+// src/hintManager.ts
+// Aides visuelles : image (ou objet) modèle en transparence ("couvercle de la boîte"), case cible d'une pièce
+// et pièce qui clignote pour indiquer qu'elle s'emboîte quelque part.
+import { Scene, Mesh, MeshBuilder, StandardMaterial, Texture, Color3, Vector3, Animation } from '@babylonjs/core';
+import { PuzzlePiece, createPartsMesh } from './puzzlePiece';
+import type { GeometryPart } from './meshSlicer';
+
+const GHOST_ALPHA = 0.3;
+
+export class HintManager {
+    private _scene: Scene;
+    private _ghost: Mesh | null = null;
+    private _ghostVisible: boolean = false; // Conservé quand l'image modèle est reconstruite
+    private _slotHighlight: Mesh | null = null;
+
+    constructor(scene: Scene) {
+        this._scene = scene;
+    }
+
+    public get isGhostVisible(): boolean {
+        return this._ghostVisible;
+    }
+
+    // (Re)crée l'image modèle à l'emplacement de la solution, derrière les pièces verrouillées
+    public buildGhost(texture: Texture, width: number, height: number): void {
+        this._disposeGhost();
+
+        this._ghost = MeshBuilder.CreatePlane("hintGhost", { width, height }, this._scene);
+        this._ghost.rotation.y = Math.PI; // Face visible vers la caméra (z+), image dans le bon sens
+        this._ghost.position.z = -0.01;
+        this._ghost.isPickable = false;
+
+        const material = new StandardMaterial("hintGhostMat", this._scene);
+        material.diffuseTexture = texture;
+        material.emissiveColor = Color3.White();
+        material.disableLighting = true;
+        material.alpha = GHOST_ALPHA;
+        this._ghost.material = material;
+        this._ghost.isVisible = this._ghostVisible;
+    }
+
+    // Puzzle en volume : l'objet entier, en transparence, là où il doit être reconstitué
+    public buildModelGhost(parts: GeometryPart[]): void {
+        this._disposeGhost();
+
+        this._ghost = createPartsMesh("hintGhost", this._scene, parts);
+        this._ghost.isPickable = false;
+
+        const material = new StandardMaterial("hintGhostMat", this._scene);
+        material.emissiveColor = Color3.White();
+        material.disableLighting = true;
+        material.backFaceCulling = false;
+        material.alpha = GHOST_ALPHA;
+        this._ghost.subMeshes.forEach(subMesh => subMesh.materialIndex = 0); // Une seule couleur pour tout l'objet
+        this._ghost.material = material;
+        this._ghost.isVisible = this._ghostVisible;
+    }
+
+    public setGhostVisible(visible: boolean): void {
+        this._ghostVisible = visible;
+        if (this._ghost) this._ghost.isVisible = visible;
+    }
+
+    // Met en évidence la case où doit aller une pièce (rectangle lumineux qui pulse, sur la table), ou sa cellule
+    // (boîte lumineuse) pour un puzzle en volume, dont on donne alors la profondeur
+    public highlightSlot(position: Vector3, width: number, height: number, depth: number | null = null): void {
+        this.clearSlotHighlight();
+
+        if (depth === null) {
+            this._slotHighlight = MeshBuilder.CreatePlane("hintSlot", { width, height }, this._scene);
+            this._slotHighlight.rotation.y = Math.PI;
+            this._slotHighlight.position = new Vector3(position.x, position.y, 0);
+        } else {
+            this._slotHighlight = MeshBuilder.CreateBox("hintSlot", { width, height, depth }, this._scene);
+            this._slotHighlight.position = position.clone();
+        }
+        this._slotHighlight.isPickable = false;
+
+        const material = new StandardMaterial("hintSlotMat", this._scene);
+        material.emissiveColor = new Color3(1, 0.85, 0.2);
+        material.disableLighting = true;
+        material.alpha = 0.6;
+        this._slotHighlight.material = material;
+
+        const frameRate = 60;
+        const pulse = new Animation("hintSlotPulse", "alpha", frameRate, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CYCLE);
+        pulse.setKeys([
+            { frame: 0, value: 0.6 },
+            { frame: frameRate / 2, value: 0.15 },
+            { frame: frameRate, value: 0.6 }
+        ]);
+        this._scene.beginDirectAnimation(material, [pulse], 0, frameRate, true);
+    }
+
+    public clearSlotHighlight(): void {
+        if (!this._slotHighlight) return;
+        this._slotHighlight.material?.dispose();
+        this._slotHighlight.dispose();
+        this._slotHighlight = null;
+    }
+
+    // Fait "battre" une pièce quelques fois pour la désigner au joueur
+    public pulsePiece(piece: PuzzlePiece): void {
+        const frameRate = 60;
+        const pulse = new Animation("hintPiecePulse", "scaling", frameRate, Animation.ANIMATIONTYPE_VECTOR3, Animation.ANIMATIONLOOPMODE_CYCLE);
+        pulse.setKeys([
+            { frame: 0, value: Vector3.One() },
+            { frame: frameRate / 4, value: new Vector3(1.2, 1.2, 1.2) },
+            { frame: frameRate / 2, value: Vector3.One() }
+        ]);
+        const animatable = this._scene.beginDirectAnimation(piece.mesh, [pulse], 0, frameRate / 2, true);
+        setTimeout(() => {
+            animatable.stop();
+            piece.mesh.scaling = Vector3.One();
+        }, 2000);
+    }
+
+    // Retire toutes les aides (nouvelle partie, changement d'image)
+    public clear(): void {
+        this.clearSlotHighlight();
+        this._disposeGhost();
+    }
+
+    private _disposeGhost(): void {
+        if (!this._ghost) return;
+        this._ghost.material?.dispose();
+        this._ghost.dispose();
+        this._ghost = null;
+    }
+}
@@ -0,0 +1,56 @@
+// src/imageLoader.ts
+// Sources d'image choisies par le joueur : fichier local, glisser-déposer ou URL.
+
+// Rapport largeur / hauteur maximal : au-delà, l'image est recadrée au centre
+// pour éviter des pièces trop étirées.
+export const MAX_IMAGE_ASPECT = 3;
+
+export interface ImageCrop {
+    aspect: number;     // Rapport largeur / hauteur de la zone conservée
+    uScale: number;     // Fraction de la largeur conservée
+    vScale: number;     // Fraction de la hauteur conservée
+}
+
+export function computeImageCrop(width: number, height: number): ImageCrop {
+    const aspect = width / height;
+    if (aspect > MAX_IMAGE_ASPECT) {
+        return { aspect: MAX_IMAGE_ASPECT, uScale: MAX_IMAGE_ASPECT / aspect, vScale: 1 };
+    }
+    if (aspect < 1 / MAX_IMAGE_ASPECT) {
+        return { aspect: 1 / MAX_IMAGE_ASPECT, uScale: 1, vScale: aspect * MAX_IMAGE_ASPECT };
+    }
+    return { aspect, uScale: 1, vScale: 1 };
+}
+
+// Recadrage au centre d'une image pour un rapport largeur / hauteur imposé (image du dos d'un puzzle double face,
+// qui doit couvrir exactement le recto)
+export function computeCoverCrop(width: number, height: number, aspect: number): ImageCrop {
+    const imageAspect = width / height;
+    if (imageAspect > aspect) return { aspect, uScale: aspect / imageAspect, vScale: 1 };
+    return { aspect, uScale: 1, vScale: imageAspect / aspect };
+}
+
+// Lit un fichier image local en data URL : la source reste utilisable dans une sauvegarde
+export function readImageFile(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        if (!file.type.startsWith('image/')) {
+            reject(new Error(`Le fichier « ${file.name} » n'est pas une image.`));
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error(`Impossible de lire le fichier « ${file.name} ».`));
+        reader.readAsDataURL(file);
+    });
+}
+
+// Image déposée sur le canvas : un fichier, ou un lien glissé depuis une autre page
+export function getDroppedImage(dataTransfer: DataTransfer | null): Promise<string> {
+    const file = dataTransfer?.files?.[0];
+    if (file) return readImageFile(file);
+
+    const url = dataTransfer?.getData('text/uri-list') || dataTransfer?.getData('text/plain');
+    if (url && /^(https?:|data:image\/)/.test(url.trim())) return Promise.resolve(url.trim());
+
+    return Promise.reject(new Error("Aucune image n'a été déposée."));
+}
@@ -1,8 +1,41 @@
 // src/index.ts
 import { Game } from './game';
+import { NewGameDialog, DIFFICULTY_PRESETS } from './newGameDialog';
+import { CoopDialog, loadPlayerName } from './coopDialog';
+import { LevelSelectDialog } from './levelSelectDialog';
+import { getDefaultServerUrl } from './coopSession';
+import { getDailyChallenge, parseChallenge } from './challenge';
 import './style.css'; // Importe le CSS pour que Webpack le gère
 
 document.addEventListener('DOMContentLoaded', () => {
-    const game = new Game('gameCanvas', 2, 2); // Crée un puzzle 3x3
+    const params = new URLSearchParams(window.location.search);
+    const { rows, cols } = DIFFICULTY_PRESETS[0];
+    const game = new Game({
+        canvas: 'gameCanvas',
+        rows,
+        cols,
+        rotation: params.has('rotation'),
+        freeForm: params.has('libre'), // ?libre : assemblage libre, sans plateau
+        image: params.get('image') ?? undefined, // ?image=<url> : puzzle à partir d'une image en ligne
+        backImage: params.get('dos') ?? undefined, // ?dos=<url> : puzzle double face, avec cette image au dos
+        faceDown: params.has('retournees'), // ?retournees : une partie des pièces mélangées face cachée
+        showPerformance: params.has('perf'),
+        // ?graine=<n>&grille=<lignes>x<colonnes> : défi partagé ; ?jour : puzzle du jour (graine, grille et image imposées)
+        ...(params.has('jour') ? getDailyChallenge(new Date()) : parseChallenge(params)),
+        highContrast: params.has('contraste') || undefined, // ?contraste : contour contrasté des pièces
+        // ?vue=table ou ?vue=orbite : mode de caméra imposé ; ?carte : minicarte affichée
+        cameraMode: params.get('vue') === 'table' ? 'table' : params.get('vue') === 'orbite' ? 'orbit' : undefined,
+        minimap: params.has('carte') || undefined
+    });
     game.run();
+
+    new NewGameDialog(settings => game.newGame(settings), () => game.getSettings());
+    new CoopDialog(options => game.joinSession(options));
+    new LevelSelectDialog((pack, index) => game.startLevel(pack, index));
+
+    // ?room=<salle>[&server=ws://...] : rejoint directement une session coopérative
+    const room = params.get('room');
+    if (room) {
+        game.joinSession({ serverUrl: params.get('server') ?? getDefaultServerUrl(), room, name: loadPlayerName() });
+    }
 });
\ No newline at end of file
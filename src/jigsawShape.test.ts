@@ -0,0 +1,65 @@
+// src/jigsawShape.test.ts
+import { describe, it, expect } from 'vitest';
+import { generatePuzzleCut, buildPieceOutline, pieceShapeKey, ShapePoint, REGULAR_CUT_MIN_PIECES } from './jigsawShape';
+
+const POINTS_PER_CURVED_EDGE = 24; // 3 courbes de Bézier de 8 segments, dernier point exclu
+
+// Points intérieurs d'un bord découpé (sans ses coins), décalés dans le repère d'une voisine
+function edgeInterior(outline: ShapePoint[], start: number, dx: number, dy: number): string[] {
+    return outline.slice(start + 1, start + POINTS_PER_CURVED_EDGE)
+        .map(point => `${(point.x + dx).toFixed(6)},${(point.y + dy).toFixed(6)}`);
+}
+
+describe('découpe du puzzle', () => {
+    it('redonne exactement la même découpe avec la même graine', () => {
+        expect(generatePuzzleCut(4, 5, 99)).toEqual(generatePuzzleCut(4, 5, 99));
+        expect(generatePuzzleCut(4, 5, 99)).not.toEqual(generatePuzzleCut(4, 5, 100));
+    });
+
+    it('a un profil par bord intérieur', () => {
+        const cut = generatePuzzleCut(3, 4, 1);
+        expect(cut.horizontal).toHaveLength(2);
+        expect(cut.horizontal[0]).toHaveLength(4);
+        expect(cut.vertical).toHaveLength(3);
+        expect(cut.vertical[0]).toHaveLength(3);
+    });
+
+    it('donne un simple rectangle sans découpe', () => {
+        expect(buildPieceOutline(null, 0, 0, 2, 1)).toEqual([
+            { x: -1, y: 0.5 }, { x: 1, y: 0.5 }, { x: 1, y: -0.5 }, { x: -1, y: -0.5 }
+        ]);
+    });
+
+    it('fait coïncider les bords partagés de deux voisines', () => {
+        const cut = generatePuzzleCut(2, 2, 5);
+        const w = 1;
+        const h = 0.8;
+        const topLeft = buildPieceOutline(cut, 0, 0, w, h);      // haut, droite [1..24], bas [25..48], gauche
+        const topRight = buildPieceOutline(cut, 0, 1, w, h);     // haut, droite, bas [2..25], gauche [26..49]
+        const bottomLeft = buildPieceOutline(cut, 1, 0, w, h);   // haut [0..23], droite, bas, gauche
+
+        // Bord vertical entre (0, 0) et (0, 1) : la voisine de droite est décalée de w, et parcourue en sens inverse
+        expect(edgeInterior(topRight, 26, 0, 0).reverse()).toEqual(edgeInterior(topLeft, 1, -w, 0));
+        // Bord horizontal entre (0, 0) et (1, 0) : la voisine du dessous est décalée de -h
+        expect(edgeInterior(topLeft, 25, 0, h).reverse()).toEqual(edgeInterior(bottomLeft, 0, 0, 0));
+    });
+
+    it('réduit un grand puzzle à quelques formes de pièces partagées', () => {
+        const size = Math.ceil(Math.sqrt(REGULAR_CUT_MIN_PIECES));
+        const cut = generatePuzzleCut(size, size, 3);
+        const outlines = new Map<string, string>();
+        for (let row = 0; row < size; row++) {
+            for (let col = 0; col < size; col++) {
+                const key = pieceShapeKey(cut, row, col);
+                const outline = JSON.stringify(buildPieceOutline(cut, row, col, 1, 1));
+                expect(outlines.get(key) ?? outline).toBe(outline); // Même clé : même contour
+                outlines.set(key, outline);
+            }
+        }
+        expect(outlines.size).toBeLessThanOrEqual(3 ** 4);
+
+        // Petit puzzle : chaque pièce garde sa forme propre
+        const small = generatePuzzleCut(3, 3, 3);
+        expect(new Set([0, 1, 2].map(col => pieceShapeKey(small, 1, col))).size).toBe(3);
+    });
+});
@@ -0,0 +1,159 @@
+// src/jigsawShape.ts
+// Générateur de découpe "puzzle" : chaque bord partagé entre deux pièces voisines reçoit un tenon
+// d'un côté et le creux correspondant de l'autre. Les bords extérieurs restent plats.
+import { createSeededRandom, randomBetween } from './random';
+
+export interface ShapePoint {
+    x: number;
+    y: number;
+}
+
+// Profil d'un bord partagé, exprimé dans son sens canonique
+// (gauche -> droite pour un bord horizontal, haut -> bas pour un bord vertical).
+// sign = 1 : le tenon appartient à la première pièce (celle du haut ou de gauche).
+export interface EdgeProfile {
+    sign: 1 | -1;
+    offset: number;   // Décalage du tenon le long du bord
+    lean: number;     // Inclinaison de la tête du tenon
+    neck: number;     // Variation de la largeur du col
+}
+
+export interface PuzzleCut {
+    rows: number;
+    cols: number;
+    seed: number;
+    horizontal: EdgeProfile[][]; // (rows - 1) x cols : bord entre (r, c) et (r + 1, c)
+    vertical: EdgeProfile[][];   // rows x (cols - 1) : bord entre (r, c) et (r, c + 1)
+}
+
+const TAB_SIZE = 0.1;             // Taille du tenon, relative à la longueur du bord
+const JITTER = 0.04;              // Amplitude des variations aléatoires
+const SEGMENTS_PER_CURVE = 8;     // Finesse de l'échantillonnage des courbes de Bézier
+
+// Saillie maximale d'un tenon hors de sa case, relative au plus petit côté de la case
+export const MAX_TAB_DEPTH = 3 * TAB_SIZE + JITTER;
+
+// À partir de ce nombre de pièces, les tenons sont réguliers (seul leur sens varie) : il n'y a plus
+// que quelques dizaines de formes de pièces différentes, dont la géométrie est partagée (voir pieceMeshFactory.ts)
+export const REGULAR_CUT_MIN_PIECES = 500;
+
+export function generatePuzzleCut(rows: number, cols: number, seed: number): PuzzleCut {
+    const random = createSeededRandom(seed);
+    const jitter = rows * cols >= REGULAR_CUT_MIN_PIECES ? 0 : JITTER;
+    const randomProfile = (): EdgeProfile => ({
+        sign: random() < 0.5 ? 1 : -1,
+        offset: randomBetween(random, -jitter, jitter),
+        lean: randomBetween(random, -jitter, jitter),
+        neck: randomBetween(random, -jitter, jitter)
+    });
+
+    const horizontal: EdgeProfile[][] = [];
+    for (let r = 0; r < rows - 1; r++) {
+        const line: EdgeProfile[] = [];
+        for (let c = 0; c < cols; c++) line.push(randomProfile());
+        horizontal.push(line);
+    }
+
+    const vertical: EdgeProfile[][] = [];
+    for (let r = 0; r < rows; r++) {
+        const line: EdgeProfile[] = [];
+        for (let c = 0; c < cols - 1; c++) line.push(randomProfile());
+        vertical.push(line);
+    }
+
+    return { rows, cols, seed, horizontal, vertical };
+}
+
+// Points d'un bord dans son repère canonique : [position le long du bord (0..1), écart perpendiculaire].
+// Courbe classique en trois Bézier cubiques : approche, tête du tenon, sortie.
+function sampleEdgeProfile(profile: EdgeProfile): [number, number][] {
+    const t = TAB_SIZE;
+    const b = profile.offset;
+    const c = profile.lean;
+    const d = profile.neck;
+
+    const controls: [number, number][] = [
+        [0, 0],
+        [0.2, 0], [0.5 + b + d, -t + c], [0.5 - t + b, t + c],
+        [0.5 - 2 * t + b - d, 3 * t + c], [0.5 + 2 * t + b - d, 3 * t + c], [0.5 + t + b, t + c],
+        [0.5 + b + d, -t + c], [0.8, 0], [1, 0]
+    ];
+
+    const points: [number, number][] = [[0, 0]];
+    for (let curve = 0; curve < 3; curve++) {
+        const [p0, p1, p2, p3] = controls.slice(curve * 3, curve * 3 + 4);
+        for (let i = 1; i <= SEGMENTS_PER_CURVE; i++) {
+            const u = i / SEGMENTS_PER_CURVE;
+            const k0 = (1 - u) ** 3;
+            const k1 = 3 * (1 - u) ** 2 * u;
+            const k2 = 3 * (1 - u) * u ** 2;
+            const k3 = u ** 3;
+            points.push([
+                k0 * p0[0] + k1 * p1[0] + k2 * p2[0] + k3 * p3[0],
+                (k0 * p0[1] + k1 * p1[1] + k2 * p2[1] + k3 * p3[1]) * profile.sign
+            ]);
+        }
+    }
+    return points;
+}
+
+// Contour fermé d'une pièce, dans le repère de l'image centré sur la pièce :
+// x vers la droite de l'image, y vers le haut. Parcours : haut, droite, bas, gauche.
+// Les tenons dépassent du rectangle [-w/2, w/2] x [-h/2, h/2].
+export function buildPieceOutline(cut: PuzzleCut | null, row: number, col: number, tileWidth: number, tileHeight: number): ShapePoint[] {
+    const halfW = tileWidth / 2;
+    const halfH = tileHeight / 2;
+    const bump = Math.min(tileWidth, tileHeight); // Les tenons gardent les mêmes proportions sur des pièces non carrées
+    const outline: ShapePoint[] = [];
+
+    // Bord du haut (partagé avec la ligne r - 1), parcouru de gauche à droite
+    if (cut && row > 0) {
+        for (const [along, side] of sampleEdgeProfile(cut.horizontal[row - 1][col]).slice(0, -1)) {
+            // Écart positif = vers le bas, donc vers l'intérieur de cette pièce
+            outline.push({ x: -halfW + along * tileWidth, y: halfH - side * bump });
+        }
+    } else {
+        outline.push({ x: -halfW, y: halfH });
+    }
+
+    // Bord droit (partagé avec la colonne c + 1), parcouru de haut en bas
+    if (cut && col < cut.cols - 1) {
+        for (const [along, side] of sampleEdgeProfile(cut.vertical[row][col]).slice(0, -1)) {
+            outline.push({ x: halfW + side * bump, y: halfH - along * tileHeight });
+        }
+    } else {
+        outline.push({ x: halfW, y: halfH });
+    }
+
+    // Bord du bas (partagé avec la ligne r + 1), parcouru de droite à gauche
+    if (cut && row < cut.rows - 1) {
+        for (const [along, side] of sampleEdgeProfile(cut.horizontal[row][col]).reverse().slice(0, -1)) {
+            outline.push({ x: -halfW + along * tileWidth, y: -halfH - side * bump });
+        }
+    } else {
+        outline.push({ x: halfW, y: -halfH });
+    }
+
+    // Bord gauche (partagé avec la colonne c - 1), parcouru de bas en haut
+    if (cut && col > 0) {
+        for (const [along, side] of sampleEdgeProfile(cut.vertical[row][col - 1]).reverse().slice(0, -1)) {
+            outline.push({ x: -halfW + side * bump, y: halfH - along * tileHeight });
+        }
+    } else {
+        outline.push({ x: -halfW, y: -halfH });
+    }
+
+    return outline;
+}
+
+// Forme d'une pièce : deux pièces de même clé ont exactement le même contour (pour une même taille de case)
+export function pieceShapeKey(cut: PuzzleCut | null, row: number, col: number): string {
+    if (!cut) return 'rectangle';
+    const edges = [
+        row > 0 ? cut.horizontal[row - 1][col] : null,
+        col < cut.cols - 1 ? cut.vertical[row][col] : null,
+        row < cut.rows - 1 ? cut.horizontal[row][col] : null,
+        col > 0 ? cut.vertical[row][col - 1] : null
+    ];
+    return edges.map(edge => edge ? `${edge.sign},${edge.offset},${edge.lean},${edge.neck}` : 'plat').join('|');
+}
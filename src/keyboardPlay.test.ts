@@ -0,0 +1,76 @@
+// src/keyboardPlay.test.ts
+import { describe, it, expect } from 'vitest';
+import { PuzzleModel } from './puzzleModel';
+import { getFocusOrder, getNextFocus, getCellAt, stepToCell, describePiece, describePosition } from './keyboardPlay';
+
+function createModel(): PuzzleModel {
+    return new PuzzleModel({ rows: 3, cols: 4, tileWidth: 1, tileHeight: 1, depth: 0.1 });
+}
+
+describe('jeu au clavier', () => {
+    it('parcourt les pièces libres de haut en bas, puis de gauche à droite', () => {
+        const model = createModel();
+        model.pieces.forEach(piece => piece.setPosition(piece.target.x, piece.target.y, model.tableZ));
+        model.getPiece(5).lockInPlace();
+
+        const order = getFocusOrder(model);
+        expect(order).toHaveLength(11);
+        expect(order).not.toContain(model.getPiece(5));
+        // Colonne 0 à gauche du joueur, ligne 0 en haut : l'ordre de lecture suit l'ordre des pièces
+        expect(order.map(piece => piece.index)).toEqual([0, 1, 2, 3, 4, 6, 7, 8, 9, 10, 11]);
+    });
+
+    it("ne présente qu'une fois un groupe emboîté", () => {
+        const model = createModel();
+        model.pieces.forEach((piece, index) => piece.setPosition(10 + index * 3, 10, model.tableZ));
+        const [a, b] = [model.getPiece(0), model.getPiece(1)];
+        b.setPosition(a.position.x + b.target.x - a.target.x, a.position.y, model.tableZ);
+        expect(model.snap(b)).toBe(true);
+
+        const order = getFocusOrder(model);
+        expect(order).toHaveLength(11);
+        expect(order.filter(piece => piece.cluster === a.cluster)).toHaveLength(1);
+        expect(describePiece(model, order.find(piece => piece.cluster === a.cluster)!)).toContain('groupe de 2 pièces');
+    });
+
+    it("passe à la pièce suivante, en rebouclant ou non au bout de l'ordre", () => {
+        const model = createModel();
+        const order = getFocusOrder(model);
+        const last = order[order.length - 1];
+
+        expect(getNextFocus(model, null, 1, false)).toBe(order[0]);
+        expect(getNextFocus(model, null, -1, false)).toBe(last);
+        expect(getNextFocus(model, order[0], 1, false)).toBe(order[1]);
+        expect(getNextFocus(model, last, 1, false)).toBeNull();
+        expect(getNextFocus(model, last, 1, true)).toBe(order[0]);
+        expect(getNextFocus(model, order[0], -1, true)).toBe(last);
+    });
+
+    it('déplace une pièce de case en case, alignée sur les places des pièces', () => {
+        const model = createModel();
+        const piece = model.getPiece(5); // ligne 1, colonne 1
+        const { x, y } = piece.target;
+
+        const right = stepToCell(model, x + 0.2, y - 0.1, 0, 1);
+        expect(right.x).toBeCloseTo(model.getPiece(6).target.x);
+        expect(right.y).toBeCloseTo(y);
+        const up = stepToCell(model, x, y, -1, 0);
+        expect(up.x).toBeCloseTo(x);
+        expect(up.y).toBeCloseTo(model.getPiece(1).target.y);
+        // La grille se prolonge hors du plateau
+        const outside = stepToCell(model, model.getPiece(0).target.x, model.getPiece(0).target.y, 0, -1);
+        expect(getCellAt(model, outside.x, outside.y)).toBeNull();
+        expect(describePosition(model, outside.x, outside.y)).toBe('hors du plateau');
+        expect(getCellAt(model, x, y)).toEqual({ row: 1, col: 1 });
+        expect(describePosition(model, x, y)).toBe('au-dessus de la case ligne 2, colonne 2');
+    });
+
+    it('décrit la place, la forme et l’état de la pièce', () => {
+        const model = createModel();
+        expect(describePiece(model, model.getPiece(0))).toBe('ligne 1, colonne 1, coin');
+        expect(describePiece(model, model.getPiece(1))).toBe('ligne 1, colonne 2, bord');
+        const middle = model.getPiece(5);
+        model.rotateCluster(middle, 1);
+        expect(describePiece(model, middle)).toBe("ligne 2, colonne 2, tournée d'un quart de tour");
+    });
+});
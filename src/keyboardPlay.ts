@@ -0,0 +1,83 @@
+// src/keyboardPlay.ts
+// Jeu au clavier, indépendant du rendu : ordre de parcours des pièces libres (Tab, flèches), déplacement
+// case par case de la pièce prise, et descriptions lues par les lecteurs d'écran.
+import type { PuzzleModel, PieceState } from './puzzleModel';
+import type { PieceCluster } from './pieceCluster';
+
+export interface BoardCell {
+    row: number;
+    col: number;
+}
+
+const QUARTER_TURNS = ['', "tournée d'un quart de tour", "tournée d'un demi-tour", 'tournée de trois quarts de tour'];
+
+// Pièces libres dans l'ordre de lecture du joueur : de haut en bas par rangées, puis de gauche à droite (x décroissants).
+// Un groupe emboîté n'apparaît qu'une fois, par sa première pièce dans cet ordre.
+export function getFocusOrder(model: PuzzleModel): PieceState[] {
+    const band = (piece: PieceState) => Math.round(-piece.position.y / model.tileHeight);
+    const sorted = model.pieces
+        .filter(piece => !piece.isLocked)
+        .sort((a, b) => band(a) - band(b) || b.position.x - a.position.x || a.index - b.index);
+    const seen = new Set<PieceCluster>();
+    return sorted.filter(piece => {
+        if (seen.has(piece.cluster)) return false;
+        seen.add(piece.cluster);
+        return true;
+    });
+}
+
+// Pièce suivante (direction 1) ou précédente (-1) après current dans l'ordre de parcours.
+// Au-delà du dernier ou avant le premier : on reboucle si wrap, sinon null (Tab rend alors la main à la page).
+export function getNextFocus(model: PuzzleModel, current: PieceState | null, direction: 1 | -1, wrap: boolean): PieceState | null {
+    const order = getFocusOrder(model);
+    if (order.length === 0) return null;
+    const index = current ? order.findIndex(piece => piece.cluster === current.cluster) : -1;
+    if (index < 0) return direction === 1 ? order[0] : order[order.length - 1];
+    const next = index + direction;
+    if (next >= 0 && next < order.length) return order[next];
+    return wrap ? order[(next + order.length) % order.length] : null;
+}
+
+// Case du plateau sous un point de la table, ou null en dehors (colonne 0 à gauche du joueur, côté x positifs)
+export function getCellAt(model: PuzzleModel, x: number, y: number): BoardCell | null {
+    const col = Math.floor((model.width / 2 - x) / model.tileWidth);
+    const row = Math.floor((model.height / 2 - y) / model.tileHeight);
+    if (row < 0 || row >= model.rows || col < 0 || col >= model.cols) return null;
+    return { row, col };
+}
+
+// Centre de la case voisine (dRow, dCol) de celle qui contient le point, sur la grille du plateau prolongée
+// à toute la table : les pièces déplacées au clavier restent alignées sur les cases, et donc emboîtables
+export function stepToCell(model: PuzzleModel, x: number, y: number, dRow: number, dCol: number): { x: number, y: number } {
+    const col = Math.round((model.width / 2 - x) / model.tileWidth - 0.5) + dCol;
+    const row = Math.round((model.height / 2 - y) / model.tileHeight - 0.5) + dRow;
+    return {
+        x: model.width / 2 - (col + 0.5) * model.tileWidth,
+        y: model.height / 2 - (row + 0.5) * model.tileHeight
+    };
+}
+
+// Description d'une pièce pour un lecteur d'écran : sa case d'origine, sa forme, son état
+export function describePiece(model: PuzzleModel, piece: PieceState): string {
+    const parts = [`ligne ${piece.row + 1}, colonne ${piece.col + 1}`];
+    if (model.isVolumetric) parts.push(`couche ${piece.layer + 1}`);
+    const isRowEdge = piece.row === 0 || piece.row === model.rows - 1;
+    const isColEdge = piece.col === 0 || piece.col === model.cols - 1;
+    if (isRowEdge && isColEdge) {
+        parts.push('coin');
+    } else if (isRowEdge || isColEdge) {
+        parts.push('bord');
+    }
+    if (piece.cluster.size > 1) parts.push(`groupe de ${piece.cluster.size} pièces`);
+    const turns = ((piece.rotationSteps % 4) + 4) % 4;
+    if (turns !== 0) parts.push(QUARTER_TURNS[turns]);
+    if (piece.isFaceDown) parts.push('face cachée');
+    return parts.join(', ');
+}
+
+// Position d'une pièce tenue, annoncée à chaque déplacement
+export function describePosition(model: PuzzleModel, x: number, y: number): string {
+    if (model.isFreeForm) return 'sur la table';
+    const cell = getCellAt(model, x, y);
+    return cell ? `au-dessus de la case ligne ${cell.row + 1}, colonne ${cell.col + 1}` : 'hors du plateau';
+}
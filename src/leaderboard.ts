@@ -0,0 +1,62 @@
+// src/leaderboard.ts
+// Meilleurs résultats locaux, par image et par taille de grille.
+import { hashString } from './random';
+
+const STORAGE_KEY = 'puzzle3d.leaderboard';
+const MAX_ENTRIES = 10;
+
+export interface LeaderboardEntry {
+    score: number;
+    timeMs: number;
+    pickups: number;
+    date: string;
+    seed?: number;      // Graine de la partie (absente des résultats plus anciens)
+}
+
+type LeaderboardData = Record<string, LeaderboardEntry[]>;
+
+// Score : 100 points par pièce, multipliés selon la rapidité par rapport à un temps de référence
+// de 10 secondes par pièce (x2 au mieux, x0.1 au pire).
+export function computeScore(rows: number, cols: number, timeMs: number): number {
+    const pieceCount = rows * cols;
+    const parTimeMs = pieceCount * 10000;
+    const speedFactor = Math.min(2, Math.max(0.1, parTimeMs / Math.max(timeMs, 1000)));
+    return Math.round(pieceCount * 100 * speedFactor);
+}
+
+// Les images locales (data URL) sont identifiées par une empreinte plutôt que par leur contenu complet
+export function getLeaderboardKey(imageSource: string, rows: number, cols: number): string {
+    const image = imageSource.startsWith('data:') ? `local-${hashString(imageSource).toString(16)}` : imageSource;
+    return `${image}|${rows}x${cols}`;
+}
+
+export function getLeaderboard(key: string): LeaderboardEntry[] {
+    return loadLeaderboards()[key] ?? [];
+}
+
+// Enregistre un résultat ; renvoie son rang (0 = meilleur) ou -1 s'il ne fait pas partie du classement
+export function recordResult(key: string, entry: LeaderboardEntry): number {
+    const data = loadLeaderboards();
+    const entries = [...(data[key] ?? []), entry]
+        .sort((a, b) => b.score - a.score || a.timeMs - b.timeMs)
+        .slice(0, MAX_ENTRIES);
+    data[key] = entries;
+
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    } catch (err) {
+        console.warn("Impossible d'enregistrer le classement :", err);
+    }
+    return entries.indexOf(entry);
+}
+
+function loadLeaderboards(): LeaderboardData {
+    try {
+        const json = localStorage.getItem(STORAGE_KEY);
+        const data = json ? JSON.parse(json) : null;
+        return data && typeof data === 'object' ? data : {};
+    } catch (err) {
+        console.warn("Classement illisible, il est réinitialisé :", err);
+        return {};
+    }
+}
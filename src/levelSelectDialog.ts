@@ -0,0 +1,102 @@
+// src/levelSelectDialog.ts
+// Écran de choix des niveaux : packs intégrés ou chargés depuis un fichier, avec pour chaque niveau une vignette,
+// son état (terminé, à jouer, verrouillé) et le meilleur temps.
+import { PuzzlePack, readPuzzlePackFile } from './puzzlePack';
+import { BUNDLED_PACKS } from './bundledPacks';
+import { CampaignProgress, loadCampaignProgress, getLevelProgress, isLevelUnlocked } from './campaign';
+import { formatDuration } from './gameStats';
+
+export class LevelSelectDialog {
+    private _dialog: HTMLDialogElement;
+    private _packSelect: HTMLSelectElement;
+    private _levelList: HTMLOListElement;
+    private _packError: HTMLElement;
+    private _packInput: HTMLInputElement;
+    private _packs: PuzzlePack[] = [...BUNDLED_PACKS];
+    private _onPlay: (pack: PuzzlePack, index: number) => void;
+
+    constructor(onPlay: (pack: PuzzlePack, index: number) => void) {
+        this._onPlay = onPlay;
+        this._dialog = this._getElement<HTMLDialogElement>('levelSelectDialog');
+        this._packSelect = this._getElement<HTMLSelectElement>('packSelect');
+        this._levelList = this._getElement<HTMLOListElement>('levelList');
+        this._packError = this._getElement<HTMLElement>('packError');
+        this._packInput = this._getElement<HTMLInputElement>('packInput');
+
+        this._getElement<HTMLButtonElement>('campaignButton').addEventListener('click', () => {
+            this._packError.textContent = '';
+            this._render();
+            this._dialog.showModal();
+        });
+        this._getElement<HTMLButtonElement>('closeLevelSelectButton').addEventListener('click', () => this._dialog.close());
+        this._packSelect.addEventListener('change', () => this._renderLevels(loadCampaignProgress()));
+        this._getElement<HTMLButtonElement>('loadPackButton').addEventListener('click', () => this._packInput.click());
+        this._packInput.addEventListener('change', () => {
+            const file = this._packInput.files?.[0];
+            this._packInput.value = '';
+            if (!file) return;
+            readPuzzlePackFile(file)
+                .then(pack => this._addPack(pack))
+                .catch((err: Error) => this._packError.textContent = err.message);
+        });
+    }
+
+    // Un pack chargé remplace celui de même identifiant (nouvelle version) ; sa progression est conservée
+    private _addPack(pack: PuzzlePack): void {
+        this._packError.textContent = '';
+        this._packs = [...this._packs.filter(other => other.id !== pack.id), pack];
+        this._render();
+        this._packSelect.value = pack.id;
+        this._renderLevels(loadCampaignProgress());
+    }
+
+    private _render(): void {
+        const selected = this._packSelect.value;
+        this._packSelect.replaceChildren(...this._packs.map(pack => new Option(pack.title, pack.id)));
+        if (this._packs.some(pack => pack.id === selected)) this._packSelect.value = selected;
+        this._renderLevels(loadCampaignProgress());
+    }
+
+    private _renderLevels(progress: CampaignProgress): void {
+        const pack = this._packs.find(other => other.id === this._packSelect.value) ?? this._packs[0];
+        this._levelList.replaceChildren(...pack.levels.map((level, index) => {
+            const result = getLevelProgress(progress, pack, index);
+            const isUnlocked = isLevelUnlocked(progress, pack, index);
+
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'level';
+            button.disabled = !isUnlocked;
+            if (result) button.classList.add('completed');
+
+            const thumbnail = document.createElement('img');
+            thumbnail.src = level.image;
+            thumbnail.alt = '';
+            thumbnail.loading = 'lazy';
+
+            const title = document.createElement('strong');
+            title.textContent = `${index + 1}. ${level.title}`;
+            const details = document.createElement('span');
+            const options = [level.rotation && 'rotation', level.freeForm && 'libre', level.faceDown && 'face cachée', level.backImage && 'double face']
+                .filter(Boolean);
+            details.textContent = `${level.rows} × ${level.cols}${options.length > 0 ? ` — ${options.join(', ')}` : ''}`;
+            const status = document.createElement('span');
+            status.textContent = result ? `Terminé — meilleur temps ${formatDuration(result.bestTimeMs)}` : isUnlocked ? 'À jouer' : 'Verrouillé';
+
+            button.append(thumbnail, title, details, status);
+            button.addEventListener('click', () => {
+                this._dialog.close();
+                this._onPlay(pack, index);
+            });
+            const item = document.createElement('li');
+            item.append(button);
+            return item;
+        }));
+    }
+
+    private _getElement<T extends HTMLElement>(id: string): T {
+        const element = document.getElementById(id) as T;
+        if (!element) throw new Error(`Élément avec ID '${id}' non trouvé !`);
+        return element;
+    }
+}
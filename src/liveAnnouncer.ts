@@ -0,0 +1,23 @@
+// src/liveAnnouncer.ts
+// Région ARIA « live » hors écran : les lecteurs d'écran lisent chaque annonce (pièce visée, emboîtement, victoire)
+// sans que le joueur ait à quitter le puzzle.
+const ANNOUNCE_DELAY_MS = 50;
+
+export class LiveAnnouncer {
+    private _element: HTMLElement;
+    private _timer: number | null = null;
+
+    constructor(element: HTMLElement) {
+        this._element = element;
+    }
+
+    // La région est vidée puis remplie : une annonce identique à la précédente est lue à nouveau
+    public announce(text: string): void {
+        if (this._timer !== null) clearTimeout(this._timer);
+        this._element.textContent = '';
+        this._timer = window.setTimeout(() => {
+            this._timer = null;
+            this._element.textContent = text;
+        }, ANNOUNCE_DELAY_MS);
+    }
+}
@@ -0,0 +1,74 @@
+// src/meshSlicer.test.ts
+import { describe, it, expect } from 'vitest';
+import { sliceModel, GeometryPart } from './meshSlicer';
+
+// Cube d'arête 2 centré sur l'origine : 8 sommets, 12 triangles
+function createCube(): GeometryPart {
+    const positions: number[] = [];
+    for (const z of [-1, 1]) for (const y of [-1, 1]) for (const x of [-1, 1]) positions.push(x, y, z);
+    const faces = [[0, 1, 3, 2], [4, 6, 7, 5], [0, 4, 5, 1], [2, 3, 7, 6], [0, 2, 6, 4], [1, 5, 7, 3]];
+    return {
+        material: 0,
+        positions,
+        normals: positions.map(value => value / Math.sqrt(3)),
+        uvs: null,
+        indices: faces.flatMap(([a, b, c, d]) => [a, b, c, a, c, d])
+    };
+}
+
+function surfaceArea(part: GeometryPart): number {
+    let area = 0;
+    for (let i = 0; i < part.indices.length; i += 3) {
+        const [a, b, c] = [0, 1, 2].map(k => part.indices[i + k] * 3);
+        const u = [0, 1, 2].map(axis => part.positions[b + axis] - part.positions[a + axis]);
+        const v = [0, 1, 2].map(axis => part.positions[c + axis] - part.positions[a + axis]);
+        area += Math.hypot(u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]) / 2;
+    }
+    return area;
+}
+
+describe('découpe d’un objet en volume', () => {
+    it('partage la surface de l’objet entre les cellules, sans en perdre', () => {
+        const sliced = sliceModel([createCube()], 2, 2, 2);
+        expect(sliced.slices).toHaveLength(8);
+        expect(sliced.tileWidth).toBe(1);
+        expect(sliced.tileDepth).toBe(1);
+
+        // Chaque coin du cube porte trois quarts de face d'aire 1
+        sliced.slices.forEach(slice => expect(surfaceArea(slice.parts[0])).toBeCloseTo(3));
+        const total = sliced.slices.reduce((sum, slice) => sum + surfaceArea(slice.parts[0]), 0);
+        expect(total).toBeCloseTo(24);
+    });
+
+    it('place les morceaux autour du centre de leur cellule, numérotée comme une grille vue par le joueur', () => {
+        const { slices } = sliceModel([createCube()], 2, 2, 2);
+        const first = slices[0];
+        expect([first.row, first.col, first.layer]).toEqual([0, 0, 0]);
+        expect(first.center).toEqual({ x: 0.5, y: 0.5, z: 0.5 }); // En haut, à gauche vu de face (x positifs), devant
+
+        for (const slice of slices) {
+            const positions = slice.parts[0].positions;
+            positions.forEach(value => expect(Math.abs(value)).toBeLessThanOrEqual(0.5 + 1e-9));
+            const normals = slice.parts[0].normals;
+            for (let i = 0; i < normals.length; i += 3) {
+                expect(Math.hypot(normals[i], normals[i + 1], normals[i + 2])).toBeCloseTo(1);
+            }
+        }
+    });
+
+    it('ignore les cellules vides et les triangles qui ne font que toucher une cellule', () => {
+        // Triangle dans le coin bas-gauche-arrière, dont un sommet est posé sur le plan de coupe x = 0
+        const triangle: GeometryPart = {
+            material: 2,
+            positions: [-1, -1, -1, 0, -1, -1, -1, -0.5, -1, 1, 1, 1],
+            normals: [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1],
+            uvs: [0, 0, 1, 0, 0, 1, 1, 1],
+            indices: [0, 1, 2]
+        };
+        const { slices } = sliceModel([triangle], 2, 2, 2);
+        expect(slices).toHaveLength(1);
+        expect(slices[0].parts[0].material).toBe(2);
+        expect(slices[0].parts[0].uvs).toHaveLength(6);
+        expect([slices[0].row, slices[0].col, slices[0].layer]).toEqual([1, 1, 1]);
+    });
+});
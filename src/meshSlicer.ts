@@ -0,0 +1,181 @@
+// src/meshSlicer.ts
+// Découpe d'un objet 3D en pièces de puzzle en volume, indépendante du rendu : la boîte englobante de l'objet
+// est partagée en une grille de cellules, et chaque triangle est coupé aux plans qui séparent les cellules.
+// Les faces de coupe ne sont pas refermées (les modèles glTF sont rarement étanches) : les matériaux
+// des pièces sont affichés des deux côtés, l'intérieur reste visible à travers la coupe.
+import type { Point3 } from './puzzleModel';
+
+// Géométrie d'une primitive du modèle (ou d'un morceau de pièce), avec l'index de son matériau
+export interface GeometryPart {
+    material: number;
+    positions: number[];
+    normals: number[];
+    uvs: number[] | null;
+    indices: number[];
+}
+
+// Une pièce : les morceaux de chaque primitive contenus dans la cellule, relatifs au centre de la cellule
+export interface VolumeSlice {
+    row: number;            // 0 en haut
+    col: number;            // 0 à gauche vu par le joueur (x positifs, repère main gauche)
+    layer: number;          // 0 devant, du côté du joueur (z positifs)
+    center: Point3;
+    parts: GeometryPart[];
+}
+
+export interface SlicedModel {
+    tileWidth: number;      // Dimensions d'une cellule
+    tileHeight: number;
+    tileDepth: number;
+    slices: VolumeSlice[];  // Cellules non vides seulement
+}
+
+// Sommet découpé : position, normale, coordonnées de texture
+type SliceVertex = [number, number, number, number, number, number, number, number];
+
+const MIN_CELL_SIZE = 1e-3; // Objet plat selon un axe : cellules d'épaisseur minimale
+const MIN_AREA_RATIO = 1e-9; // Morceau dont l'aire est négligeable devant une face de cellule : ignoré
+
+export function sliceModel(parts: GeometryPart[], rows: number, cols: number, layers: number): SlicedModel {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (const part of parts) {
+        for (let i = 0; i < part.positions.length; i += 3) {
+            for (let axis = 0; axis < 3; axis++) {
+                min[axis] = Math.min(min[axis], part.positions[i + axis]);
+                max[axis] = Math.max(max[axis], part.positions[i + axis]);
+            }
+        }
+    }
+    if (min[0] === Infinity) throw new Error("Le modèle ne contient aucune géométrie à découper.");
+
+    const counts = [cols, rows, layers];
+    const cellSize = counts.map((count, axis) => Math.max((max[axis] - min[axis]) / count, MIN_CELL_SIZE));
+    const minArea = Math.min(...cellSize) ** 2 * MIN_AREA_RATIO;
+    const cellOf = (value: number, axis: number) =>
+        Math.min(Math.max(Math.floor((value - min[axis]) / cellSize[axis]), 0), counts[axis] - 1);
+
+    // Morceaux de chaque cellule (indexée par ses coordonnées de grille), puis de chaque primitive
+    const cells = new Map<number, Map<number, GeometryPart>>();
+    const cellIndex = (cx: number, cy: number, cz: number) => (cz * rows + cy) * cols + cx;
+
+    parts.forEach((part, partIndex) => {
+        for (let t = 0; t < part.indices.length; t += 3) {
+            const triangle = [0, 1, 2].map(k => readVertex(part, part.indices[t + k]));
+            const low = [0, 1, 2].map(axis => cellOf(Math.min(...triangle.map(vertex => vertex[axis])), axis));
+            const high = [0, 1, 2].map(axis => cellOf(Math.max(...triangle.map(vertex => vertex[axis])), axis));
+
+            for (let cz = low[2]; cz <= high[2]; cz++) {
+                for (let cy = low[1]; cy <= high[1]; cy++) {
+                    for (let cx = low[0]; cx <= high[0]; cx++) {
+                        const cell = [cx, cy, cz];
+                        let polygon: SliceVertex[] = triangle;
+                        // Seuls les plans entre deux cellules coupent : ce qui dépasse de la boîte englobante reste entier
+                        for (let axis = 0; axis < 3 && polygon.length >= 3; axis++) {
+                            if (low[axis] === high[axis]) continue;
+                            const start = min[axis] + cell[axis] * cellSize[axis];
+                            if (cell[axis] > 0) polygon = clipPolygon(polygon, axis, start, false);
+                            if (cell[axis] < counts[axis] - 1) polygon = clipPolygon(polygon, axis, start + cellSize[axis], true);
+                        }
+                        // Triangle qui ne fait que toucher la cellule (par un sommet ou une arête) : rien à garder
+                        if (polygon.length < 3 || polygonArea(polygon) < minArea) continue;
+
+                        const index = cellIndex(cx, cy, cz);
+                        let cellParts = cells.get(index);
+                        if (!cellParts) cells.set(index, cellParts = new Map());
+                        let target = cellParts.get(partIndex);
+                        if (!target) {
+                            target = { material: part.material, positions: [], normals: [], uvs: part.uvs ? [] : null, indices: [] };
+                            cellParts.set(partIndex, target);
+                        }
+                        appendPolygon(target, polygon);
+                    }
+                }
+            }
+        }
+    });
+
+    const slices: VolumeSlice[] = [];
+    cells.forEach((cellParts, index) => {
+        const cx = index % cols;
+        const cy = Math.floor(index / cols) % rows;
+        const cz = Math.floor(index / (cols * rows));
+        const center = {
+            x: min[0] + (cx + 0.5) * cellSize[0],
+            y: min[1] + (cy + 0.5) * cellSize[1],
+            z: min[2] + (cz + 0.5) * cellSize[2]
+        };
+        const sliceParts = Array.from(cellParts.values());
+        sliceParts.forEach(part => {
+            for (let i = 0; i < part.positions.length; i += 3) {
+                part.positions[i] -= center.x;
+                part.positions[i + 1] -= center.y;
+                part.positions[i + 2] -= center.z;
+            }
+        });
+        slices.push({ row: rows - 1 - cy, col: cols - 1 - cx, layer: layers - 1 - cz, center, parts: sliceParts });
+    });
+    slices.sort((a, b) => a.layer - b.layer || a.row - b.row || a.col - b.col);
+
+    return { tileWidth: cellSize[0], tileHeight: cellSize[1], tileDepth: cellSize[2], slices };
+}
+
+function readVertex(part: GeometryPart, index: number): SliceVertex {
+    const p = index * 3;
+    const uv = index * 2;
+    return [
+        part.positions[p], part.positions[p + 1], part.positions[p + 2],
+        part.normals[p] ?? 0, part.normals[p + 1] ?? 0, part.normals[p + 2] ?? 0,
+        part.uvs?.[uv] ?? 0, part.uvs?.[uv + 1] ?? 0
+    ];
+}
+
+// Coupe un polygone convexe par le plan coordonnée[axis] = value (Sutherland-Hodgman),
+// en gardant le côté inférieur (keepBelow) ou supérieur ; normales et coordonnées de texture sont interpolées.
+function clipPolygon(polygon: SliceVertex[], axis: number, value: number, keepBelow: boolean): SliceVertex[] {
+    const kept: SliceVertex[] = [];
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        const insideA = keepBelow ? value - a[axis] : a[axis] - value;
+        const insideB = keepBelow ? value - b[axis] : b[axis] - value;
+        if (insideA >= 0) kept.push(a);
+        if ((insideA >= 0) !== (insideB >= 0)) {
+            const t = insideA / (insideA - insideB);
+            const vertex = a.map((component, k) => component + (b[k] - component) * t) as SliceVertex;
+            vertex[axis] = value; // Exactement sur le plan, malgré les arrondis
+            const length = Math.hypot(vertex[3], vertex[4], vertex[5]) || 1;
+            vertex[3] /= length;
+            vertex[4] /= length;
+            vertex[5] /= length;
+            kept.push(vertex);
+        }
+    }
+    return kept;
+}
+
+// Aire d'un polygone plan (méthode de Newell)
+function polygonArea(polygon: SliceVertex[]): number {
+    let nx = 0, ny = 0, nz = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        nx += (a[1] - b[1]) * (a[2] + b[2]);
+        ny += (a[2] - b[2]) * (a[0] + b[0]);
+        nz += (a[0] - b[0]) * (a[1] + b[1]);
+    }
+    return Math.hypot(nx, ny, nz) / 2;
+}
+
+// Ajoute un polygone convexe en éventail de triangles, dans l'ordre des sommets du triangle d'origine
+function appendPolygon(part: GeometryPart, polygon: SliceVertex[]): void {
+    const first = part.positions.length / 3;
+    for (const vertex of polygon) {
+        part.positions.push(vertex[0], vertex[1], vertex[2]);
+        part.normals.push(vertex[3], vertex[4], vertex[5]);
+        part.uvs?.push(vertex[6], vertex[7]);
+    }
+    for (let i = 1; i < polygon.length - 1; i++) {
+        part.indices.push(first, first + i, first + i + 1);
+    }
+}
@@ -0,0 +1,26 @@
+// src/minimap.test.ts
+import { describe, it, expect } from 'vitest';
+import { fitMinimapLayout, toMinimap, toTable, getMinimapBounds, MinimapContent } from './minimap';
+
+const piece = (x: number, y: number) => ({ x, y, rotationSteps: 0, isLocked: false, isFaceDown: false, isHeld: false });
+
+describe('minicarte', () => {
+    it('englobe le plateau et les pièces, élargis d’une case', () => {
+        const content: MinimapContent = {
+            board: { minX: -1, minY: -1, maxX: 1, maxY: 1 }, tileWidth: 0.5, tileHeight: 0.25,
+            pieces: [piece(3, 0), piece(0, -2)], view: null
+        };
+        expect(getMinimapBounds(content)).toEqual({ minX: -1, minY: -2.5, maxX: 3.5, maxY: 1 });
+        expect(getMinimapBounds({ ...content, board: null, pieces: [] })).toEqual({ minX: -1, minY: -1, maxX: 1, maxY: 1 });
+    });
+
+    it('montre la table comme la caméra de départ, et retrouve le point touché', () => {
+        const layout = fitMinimapLayout({ minX: -2, minY: -1, maxX: 2, maxY: 1 }, 200, 150, 0);
+        expect(layout.scale).toBe(50);
+        // x vers la gauche, y vers le haut
+        expect(toMinimap(layout, 2, 1)).toEqual({ x: 0, y: 25 });
+        expect(toMinimap(layout, -2, -1)).toEqual({ x: 200, y: 125 });
+        const point = toTable(layout, 130, 40);
+        expect(toMinimap(layout, point.x, point.y)).toEqual({ x: 130, y: 40 });
+    });
+});
@@ -0,0 +1,173 @@
+// src/minimap.ts
+// Minicarte par-dessus le canvas : toute la table vue de dessus (plateau, pièces, pièces tenues) et la zone que montre
+// la caméra. Toucher ou cliquer la carte y amène la caméra ; glisser dessus la déplace.
+export interface MinimapBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export interface MinimapPiece {
+    x: number;
+    y: number;
+    rotationSteps: number;
+    isLocked: boolean;
+    isFaceDown: boolean;
+    isHeld: boolean;
+}
+
+export interface MinimapContent {
+    board: MinimapBounds | null;        // Emplacement du plateau ; null en assemblage libre
+    tileWidth: number;
+    tileHeight: number;
+    pieces: MinimapPiece[];
+    view: { x: number, y: number }[] | null; // Coins de la zone visible, dans l'ordre ; null si la vue dépasse la table
+}
+
+// Passage des coordonnées de la table à celles de la carte
+export interface MinimapLayout {
+    scale: number;      // Pixels par unité de la scène
+    originX: number;    // Point de la table au coin haut gauche de la carte
+    originY: number;
+}
+
+const PADDING = 6;
+const BOARD_COLOR = 'rgba(255, 255, 255, 0.6)';
+const PIECE_COLOR = '#4a90e2';
+const LOCKED_COLOR = '#2ecc71';
+const FACE_DOWN_COLOR = '#8a7f72';
+const HELD_COLOR = '#f5c400';
+const VIEW_COLOR = '#ffffff';
+
+// Les bornes tiennent entières dans la carte, centrées. La table est vue comme par la caméra de départ :
+// depuis les z positifs, donc x vers la gauche et y vers le haut.
+export function fitMinimapLayout(bounds: MinimapBounds, width: number, height: number, padding: number = PADDING): MinimapLayout {
+    const boundsWidth = Math.max(bounds.maxX - bounds.minX, 1e-6);
+    const boundsHeight = Math.max(bounds.maxY - bounds.minY, 1e-6);
+    const scale = Math.min((width - 2 * padding) / boundsWidth, (height - 2 * padding) / boundsHeight);
+    return {
+        scale,
+        originX: (bounds.minX + bounds.maxX) / 2 + width / 2 / scale,
+        originY: (bounds.minY + bounds.maxY) / 2 + height / 2 / scale
+    };
+}
+
+export function toMinimap(layout: MinimapLayout, x: number, y: number): { x: number, y: number } {
+    return { x: (layout.originX - x) * layout.scale, y: (layout.originY - y) * layout.scale };
+}
+
+export function toTable(layout: MinimapLayout, x: number, y: number): { x: number, y: number } {
+    return { x: layout.originX - x / layout.scale, y: layout.originY - y / layout.scale };
+}
+
+// Bornes du plateau et des pièces (centres, élargis d'une case)
+export function getMinimapBounds(content: MinimapContent): MinimapBounds {
+    const bounds = content.board ? { ...content.board } : { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    const margin = Math.max(content.tileWidth, content.tileHeight);
+    content.pieces.forEach(piece => {
+        bounds.minX = Math.min(bounds.minX, piece.x - margin);
+        bounds.minY = Math.min(bounds.minY, piece.y - margin);
+        bounds.maxX = Math.max(bounds.maxX, piece.x + margin);
+        bounds.maxY = Math.max(bounds.maxY, piece.y + margin);
+    });
+    return Number.isFinite(bounds.minX) ? bounds : { minX: -1, minY: -1, maxX: 1, maxY: 1 };
+}
+
+export class Minimap {
+    private _canvas: HTMLCanvasElement;
+    private _layout: MinimapLayout | null = null;   // Celui du dernier dessin, pour situer les touches
+    private _navigatingPointer: number | null = null;
+    private _listeners: AbortController = new AbortController();
+
+    constructor(canvas: HTMLCanvasElement, onNavigate: (x: number, y: number) => void) {
+        this._canvas = canvas;
+        const { signal } = this._listeners;
+        const navigate = (event: PointerEvent) => {
+            if (!this._layout) return;
+            const rect = this._canvas.getBoundingClientRect();
+            const point = toTable(this._layout, event.clientX - rect.left, event.clientY - rect.top);
+            onNavigate(point.x, point.y);
+        };
+        this._canvas.addEventListener('pointerdown', (event) => {
+            event.preventDefault();
+            this._navigatingPointer = event.pointerId;
+            this._canvas.setPointerCapture(event.pointerId);
+            navigate(event);
+        }, { signal });
+        this._canvas.addEventListener('pointermove', (event) => {
+            if (event.pointerId === this._navigatingPointer) navigate(event);
+        }, { signal });
+        const stop = (event: PointerEvent) => {
+            if (event.pointerId === this._navigatingPointer) this._navigatingPointer = null;
+        };
+        this._canvas.addEventListener('pointerup', stop, { signal });
+        this._canvas.addEventListener('pointercancel', stop, { signal });
+    }
+
+    public get isVisible(): boolean {
+        return !this._canvas.hidden;
+    }
+
+    public setVisible(isVisible: boolean): void {
+        this._canvas.hidden = !isVisible;
+        if (!isVisible) this._navigatingPointer = null;
+    }
+
+    public draw(content: MinimapContent): void {
+        const context = this._canvas.getContext('2d');
+        if (!context || !this.isVisible) return;
+        // Dessin à la résolution de l'écran
+        const ratio = window.devicePixelRatio || 1;
+        const width = this._canvas.clientWidth;
+        const height = this._canvas.clientHeight;
+        if (this._canvas.width !== Math.round(width * ratio) || this._canvas.height !== Math.round(height * ratio)) {
+            this._canvas.width = Math.round(width * ratio);
+            this._canvas.height = Math.round(height * ratio);
+        }
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, width, height);
+
+        const layout = fitMinimapLayout(getMinimapBounds(content), width, height);
+        this._layout = layout;
+        if (content.board) {
+            const corner = toMinimap(layout, content.board.maxX, content.board.maxY);
+            context.strokeStyle = BOARD_COLOR;
+            context.setLineDash([4, 3]);
+            context.strokeRect(corner.x, corner.y, (content.board.maxX - content.board.minX) * layout.scale, (content.board.maxY - content.board.minY) * layout.scale);
+            context.setLineDash([]);
+        }
+
+        const pieceWidth = Math.max(content.tileWidth * layout.scale, 1);
+        const pieceHeight = Math.max(content.tileHeight * layout.scale, 1);
+        content.pieces.forEach(piece => {
+            const center = toMinimap(layout, piece.x, piece.y);
+            context.save();
+            context.translate(center.x, center.y);
+            context.rotate(piece.rotationSteps * Math.PI / 2);
+            context.fillStyle = piece.isHeld ? HELD_COLOR : piece.isLocked ? LOCKED_COLOR : piece.isFaceDown ? FACE_DOWN_COLOR : PIECE_COLOR;
+            context.fillRect(-pieceWidth / 2, -pieceHeight / 2, pieceWidth, pieceHeight);
+            context.restore();
+        });
+
+        if (content.view) {
+            context.beginPath();
+            content.view.forEach((corner, i) => {
+                const point = toMinimap(layout, corner.x, corner.y);
+                if (i === 0) context.moveTo(point.x, point.y);
+                else context.lineTo(point.x, point.y);
+            });
+            context.closePath();
+            context.fillStyle = 'rgba(255, 255, 255, 0.15)';
+            context.fill();
+            context.strokeStyle = VIEW_COLOR;
+            context.lineWidth = 1.5;
+            context.stroke();
+            context.lineWidth = 1;
+        }
+    }
+
+    public dispose(): void {
+        this._listeners.abort();
+    }
+}
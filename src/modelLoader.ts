@@ -0,0 +1,163 @@
+// src/modelLoader.ts
+// Modèle glTF / GLB local pour les puzzles en volume : la géométrie de chaque primitive est ramenée dans le repère
+// de la scène (objet centré sur l'origine, à la taille du puzzle) pour être découpée (voir meshSlicer.ts).
+// Les matériaux du modèle sont conservés et partagés par toutes les pièces.
+import '@babylonjs/loaders/glTF';
+import {
+    Scene, Mesh, Material, StandardMaterial, PBRMaterial, AssetContainer, VertexBuffer, VertexData, Vector3, Matrix,
+    MultiMaterial, LoadAssetContainerAsync
+} from '@babylonjs/core';
+import type { GeometryPart } from './meshSlicer';
+
+export const MODEL_SIZE = 1.5; // Plus grande dimension de l'objet reconstitué, en unités de la scène (mètres en VR)
+
+const MODEL_EXTENSIONS = ['.glb', '.gltf'];
+
+export class PuzzleObject {
+    public readonly name: string;           // Nom du fichier, pour les messages et le classement
+    public readonly parts: GeometryPart[];  // Primitives du modèle, dans le repère de la scène
+    public readonly materials: Material[];  // Indexés par GeometryPart.material
+
+    private _container: AssetContainer;
+
+    constructor(name: string, parts: GeometryPart[], materials: Material[], container: AssetContainer) {
+        this.name = name;
+        this.parts = parts;
+        this.materials = materials;
+        this._container = container;
+    }
+
+    // Matériau d'une pièce : les matériaux du modèle, un par primitive (les sous-meshes de la pièce)
+    public createMaterial(name: string, scene: Scene): MultiMaterial {
+        const material = new MultiMaterial(name, scene);
+        material.subMaterials = this.materials;
+        return material;
+    }
+
+    // Libère le modèle chargé, ses matériaux et ses textures (nouvelle image ou nouveau modèle)
+    public dispose(): void {
+        this._container.dispose();
+    }
+}
+
+// Charge un fichier .glb (ou .gltf autonome, ressources intégrées) choisi par le joueur
+export async function loadModelFile(file: File, scene: Scene): Promise<PuzzleObject> {
+    const extension = MODEL_EXTENSIONS.find(ext => file.name.toLowerCase().endsWith(ext));
+    if (!extension) throw new Error(`Le fichier « ${file.name} » n'est pas un modèle glTF (.glb ou .gltf).`);
+
+    let container: AssetContainer;
+    try {
+        container = await LoadAssetContainerAsync(file, scene, { pluginExtension: extension });
+    } catch (err) {
+        console.error("Erreur lors du chargement du modèle :", err);
+        throw new Error(`Impossible de lire le modèle « ${file.name} ». Les fichiers .gltf doivent intégrer leurs ressources.`);
+    }
+
+    const materials: Material[] = [];
+    const materialIndex = (material: Material | null): number => {
+        const resolved = material ?? getDefaultMaterial(scene, container);
+        if (!materials.includes(resolved)) materials.push(resolved);
+        return materials.indexOf(resolved);
+    };
+
+    const parts: GeometryPart[] = [];
+    for (const mesh of container.meshes) {
+        if (!(mesh instanceof Mesh) || mesh.getTotalVertices() === 0 || !mesh.getTotalIndices()) continue;
+        const source = readWorldGeometry(mesh);
+        for (const subMesh of mesh.subMeshes ?? []) {
+            const material = mesh.material instanceof MultiMaterial
+                ? mesh.material.subMaterials[subMesh.materialIndex] ?? null
+                : mesh.material;
+            parts.push({
+                ...source,
+                material: materialIndex(material),
+                indices: source.indices.slice(subMesh.indexStart, subMesh.indexStart + subMesh.indexCount)
+            });
+        }
+    }
+    if (parts.length === 0) {
+        container.dispose();
+        throw new Error(`Le modèle « ${file.name} » ne contient aucun objet à découper.`);
+    }
+
+    fitToPuzzleSize(parts);
+    for (const material of materials) {
+        // Pièces ouvertes à l'endroit des coupes : l'intérieur de l'objet doit rester visible et éclairé
+        material.backFaceCulling = false;
+        if (material instanceof PBRMaterial || material instanceof StandardMaterial) material.twoSidedLighting = true;
+        if (!scene.materials.includes(material)) scene.addMaterial(material);
+    }
+    container.textures.forEach(texture => scene.addTexture(texture));
+    return new PuzzleObject(file.name, parts, materials, container);
+}
+
+// Positions et normales du mesh dans le repère monde (transformations du fichier glTF appliquées)
+function readWorldGeometry(mesh: Mesh): Omit<GeometryPart, 'material'> {
+    const world = mesh.computeWorldMatrix(true);
+    const normalMatrix = Matrix.Invert(world).transpose();
+    const localPositions = mesh.getVerticesData(VertexBuffer.PositionKind) ?? [];
+    const indices = Array.from(mesh.getIndices() ?? []);
+    // Matrice qui retourne l'objet (passage du repère main droite du glTF au repère main gauche) : l'ordre des sommets s'inverse
+    if (world.determinant() < 0) {
+        for (let i = 0; i < indices.length; i += 3) [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+    }
+
+    const positions: number[] = [];
+    const point = new Vector3();
+    for (let i = 0; i < localPositions.length; i += 3) {
+        Vector3.TransformCoordinatesFromFloatsToRef(localPositions[i], localPositions[i + 1], localPositions[i + 2], world, point);
+        positions.push(point.x, point.y, point.z);
+    }
+
+    const localNormals = mesh.getVerticesData(VertexBuffer.NormalKind);
+    const normals: number[] = [];
+    if (localNormals) {
+        for (let i = 0; i < localNormals.length; i += 3) {
+            Vector3.TransformNormalFromFloatsToRef(localNormals[i], localNormals[i + 1], localNormals[i + 2], normalMatrix, point);
+            point.normalize();
+            normals.push(point.x, point.y, point.z);
+        }
+    } else {
+        VertexData.ComputeNormals(positions, indices, normals);
+    }
+
+    const uvs = mesh.getVerticesData(VertexBuffer.UVKind);
+    return { positions, normals, uvs: uvs ? Array.from(uvs) : null, indices };
+}
+
+// Centre l'objet sur l'origine et le met à l'échelle du puzzle (MODEL_SIZE dans sa plus grande dimension)
+function fitToPuzzleSize(parts: GeometryPart[]): void {
+    const min = new Vector3(Infinity, Infinity, Infinity);
+    const max = new Vector3(-Infinity, -Infinity, -Infinity);
+    for (const part of parts) {
+        for (let i = 0; i < part.positions.length; i += 3) {
+            const point = Vector3.FromArray(part.positions, i);
+            min.minimizeInPlace(point);
+            max.maximizeInPlace(point);
+        }
+    }
+    const center = min.add(max).scale(0.5);
+    const scale = MODEL_SIZE / (Math.max(max.x - min.x, max.y - min.y, max.z - min.z) || 1);
+
+    // Les primitives d'un même mesh partagent leurs positions : chaque tableau n'est transformé qu'une fois
+    const transformed = new Set<number[]>();
+    for (const part of parts) {
+        if (transformed.has(part.positions)) continue;
+        transformed.add(part.positions);
+        for (let i = 0; i < part.positions.length; i += 3) {
+            part.positions[i] = (part.positions[i] - center.x) * scale;
+            part.positions[i + 1] = (part.positions[i + 1] - center.y) * scale;
+            part.positions[i + 2] = (part.positions[i + 2] - center.z) * scale;
+        }
+    }
+}
+
+// Primitive sans matériau : gris neutre, partagé, libéré avec le reste du modèle
+function getDefaultMaterial(scene: Scene, container: AssetContainer): Material {
+    let material = container.materials.find(candidate => candidate.name === 'modelDefaultMat');
+    if (!material) {
+        material = new StandardMaterial('modelDefaultMat', scene);
+        container.materials.push(material);
+    }
+    return material;
+}
@@ -0,0 +1,38 @@
+// src/moveHistory.test.ts
+import { describe, it, expect } from 'vitest';
+import { MoveHistory, diffPieceStates } from './moveHistory';
+import type { SavedPiece } from './puzzleStorage';
+
+function piece(index: number, x: number, locked = false): SavedPiece {
+    return { index, position: [x, 0, 0.06], locked, rotation: 0, cluster: index };
+}
+
+describe('historique des coups', () => {
+    it('ne garde que les pièces modifiées', () => {
+        const before = [piece(0, 0), piece(1, 1), piece(2, 2)];
+        const after = [piece(0, 0), piece(1, 5), piece(2, 2)];
+        expect(diffPieceStates(before, after)).toEqual({ before: [piece(1, 1)], after: [piece(1, 5)] });
+        expect(diffPieceStates(before, before.map(saved => ({ ...saved })))).toBeNull();
+    });
+
+    it('annule et rétablit dans l’ordre, et oublie les coups annulés après un nouveau coup', () => {
+        const history = new MoveHistory();
+        const s0 = [piece(0, 0)];
+        const s1 = [piece(0, 1)];
+        const s2 = [piece(0, 2)];
+        expect(history.record(s0, s0)).toBe(false);
+        history.record(s0, s1);
+        history.record(s1, s2);
+
+        expect(history.undo()?.before).toEqual(s1);
+        expect(history.canRedo).toBe(true);
+        expect(history.redo()?.after).toEqual(s2);
+
+        history.undo();
+        history.record(s1, [piece(0, 3, true)]);
+        expect(history.canRedo).toBe(false);
+        expect(history.undo()?.after).toEqual([piece(0, 3, true)]);
+        expect(history.undo()?.after).toEqual(s1);
+        expect(history.canUndo).toBe(false);
+    });
+});
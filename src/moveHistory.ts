@@ -0,0 +1,77 @@
+// src/moveHistory.ts
+// Historique des coups pour annuler / rétablir. Un coup = l'état des pièces qu'il a modifiées,
+// avant et après (position, orientation, verrouillage, groupe).
+import type { SavedPiece } from './puzzleStorage';
+
+export interface MoveCommand {
+    before: SavedPiece[];
+    after: SavedPiece[];
+}
+
+const MAX_HISTORY = 200;
+
+export class MoveHistory {
+    private _undoStack: MoveCommand[] = [];
+    private _redoStack: MoveCommand[] = [];
+
+    public get canUndo(): boolean {
+        return this._undoStack.length > 0;
+    }
+
+    public get canRedo(): boolean {
+        return this._redoStack.length > 0;
+    }
+
+    // Enregistre un coup à partir des états complets avant / après ; ignoré si rien n'a changé.
+    // Un nouveau coup efface les coups annulés qui pouvaient encore être rétablis.
+    public record(before: SavedPiece[], after: SavedPiece[]): boolean {
+        const command = diffPieceStates(before, after);
+        if (!command) return false;
+        this._undoStack.push(command);
+        if (this._undoStack.length > MAX_HISTORY) this._undoStack.shift();
+        this._redoStack = [];
+        return true;
+    }
+
+    public undo(): MoveCommand | null {
+        const command = this._undoStack.pop();
+        if (!command) return null;
+        this._redoStack.push(command);
+        return command;
+    }
+
+    public redo(): MoveCommand | null {
+        const command = this._redoStack.pop();
+        if (!command) return null;
+        this._undoStack.push(command);
+        return command;
+    }
+
+    public clear(): void {
+        this._undoStack = [];
+        this._redoStack = [];
+    }
+}
+
+// Ne garde que les pièces dont l'état a changé entre les deux instantanés
+export function diffPieceStates(before: SavedPiece[], after: SavedPiece[]): MoveCommand | null {
+    const changedBefore: SavedPiece[] = [];
+    const changedAfter: SavedPiece[] = [];
+    after.forEach((next, i) => {
+        const previous = before[i];
+        if (!isSamePieceState(previous, next)) {
+            changedBefore.push(previous);
+            changedAfter.push(next);
+        }
+    });
+    return changedAfter.length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+function isSamePieceState(a: SavedPiece, b: SavedPiece): boolean {
+    const epsilon = 1e-4;
+    return a.locked === b.locked
+        && a.rotation === b.rotation
+        && (a.faceDown ?? false) === (b.faceDown ?? false)
+        && a.cluster === b.cluster
+        && a.position.every((value, i) => Math.abs(value - b.position[i]) < epsilon);
+}
@@ -0,0 +1,106 @@
+// src/newGameDialog.ts
+// Boîte de dialogue "Nouvelle partie" : choix de la difficulté (préréglages ou grille personnalisée) et des options.
+import type { GameSettings } from './game';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from './gridSize';
+
+export interface DifficultyPreset {
+    label: string;
+    rows: number;
+    cols: number;
+}
+
+export const DIFFICULTY_PRESETS: DifficultyPreset[] = [
+    { label: 'Très facile (3 × 3)', rows: 3, cols: 3 },
+    { label: 'Facile (4 × 4)', rows: 4, cols: 4 },
+    { label: 'Moyen (6 × 6)', rows: 6, cols: 6 },
+    { label: 'Difficile (10 × 10)', rows: 10, cols: 10 },
+    { label: 'Expert (15 × 15)', rows: 15, cols: 15 },
+    { label: 'Maître (20 × 20)', rows: 20, cols: 20 },
+    { label: 'Géant (32 × 32)', rows: 32, cols: 32 }
+];
+
+export { MIN_GRID_SIZE, MAX_GRID_SIZE };
+const CUSTOM_PRESET = 'custom';
+
+export class NewGameDialog {
+    private _dialog: HTMLDialogElement;
+    private _presetSelect: HTMLSelectElement;
+    private _rowsInput: HTMLInputElement;
+    private _colsInput: HTMLInputElement;
+    private _rotationInput: HTMLInputElement;
+    private _freeFormInput: HTMLInputElement;
+    private _faceDownInput: HTMLInputElement;
+    private _onStart: (settings: GameSettings) => void;
+    private _getCurrentSettings: () => GameSettings;
+
+    constructor(onStart: (settings: GameSettings) => void, getCurrentSettings: () => GameSettings) {
+        this._onStart = onStart;
+        this._getCurrentSettings = getCurrentSettings;
+        this._dialog = this._getElement<HTMLDialogElement>('newGameDialog');
+        this._presetSelect = this._getElement<HTMLSelectElement>('presetSelect');
+        this._rowsInput = this._getElement<HTMLInputElement>('rowsInput');
+        this._colsInput = this._getElement<HTMLInputElement>('colsInput');
+        this._rotationInput = this._getElement<HTMLInputElement>('rotationInput');
+        this._freeFormInput = this._getElement<HTMLInputElement>('freeFormInput');
+        this._faceDownInput = this._getElement<HTMLInputElement>('faceDownInput');
+
+        DIFFICULTY_PRESETS.forEach((preset, index) => {
+            this._presetSelect.add(new Option(preset.label, String(index)));
+        });
+        this._presetSelect.add(new Option('Personnalisé', CUSTOM_PRESET));
+
+        for (const input of [this._rowsInput, this._colsInput]) {
+            input.min = String(MIN_GRID_SIZE);
+            input.max = String(MAX_GRID_SIZE);
+            // Modifier la grille à la main bascule sur "Personnalisé"
+            input.addEventListener('input', () => this._presetSelect.value = CUSTOM_PRESET);
+        }
+
+        this._presetSelect.addEventListener('change', () => {
+            const preset = DIFFICULTY_PRESETS[Number(this._presetSelect.value)];
+            if (preset) {
+                this._rowsInput.value = String(preset.rows);
+                this._colsInput.value = String(preset.cols);
+            }
+        });
+
+        this._getElement<HTMLButtonElement>('newGameButton').addEventListener('click', () => {
+            this.setSettings(this._getCurrentSettings());
+            this._dialog.showModal();
+        });
+        this._getElement<HTMLButtonElement>('cancelNewGameButton').addEventListener('click', () => this._dialog.close());
+        this._getElement<HTMLFormElement>('newGameForm').addEventListener('submit', (event) => {
+            event.preventDefault();
+            this._dialog.close();
+            this._onStart(this._readSettings());
+        });
+    }
+
+    // Pré-remplit le formulaire avec les réglages de la partie en cours
+    public setSettings(settings: GameSettings): void {
+        const presetIndex = DIFFICULTY_PRESETS.findIndex(preset => preset.rows === settings.rows && preset.cols === settings.cols);
+        this._presetSelect.value = presetIndex >= 0 ? String(presetIndex) : CUSTOM_PRESET;
+        this._rowsInput.value = String(settings.rows);
+        this._colsInput.value = String(settings.cols);
+        this._rotationInput.checked = settings.rotation;
+        this._freeFormInput.checked = settings.freeForm;
+        this._faceDownInput.checked = settings.faceDown;
+    }
+
+    private _readSettings(): GameSettings {
+        const clamp = (value: number) => Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, Math.round(value) || MIN_GRID_SIZE));
+        return {
+            rows: clamp(Number(this._rowsInput.value)),
+            cols: clamp(Number(this._colsInput.value)),
+            rotation: this._rotationInput.checked,
+            freeForm: this._freeFormInput.checked,
+            faceDown: this._faceDownInput.checked
+        };
+    }
+
+    private _getElement<T extends HTMLElement>(id: string): T {
+        const element = document.getElementById(id) as T;
+        if (!element) throw new Error(`Élément avec ID '${id}' non trouvé !`);
+        return element;
+    }
+}
@@ -0,0 +1,63 @@
+// src/performanceOverlay.ts
+// Compteurs de performance par-dessus le canvas (touche P, bouton « Performances » ou ?perf dans l'URL) :
+// images par seconde, durée d'une image, appels de dessin et meshes affichés, pour vérifier la tenue des grands puzzles.
+import { Scene, SceneInstrumentation } from '@babylonjs/core';
+
+const REFRESH_MS = 500;
+
+export class PerformanceOverlay {
+    private _scene: Scene;
+    private _element: HTMLElement;
+    private _instrumentation: SceneInstrumentation | null = null; // Mesure active seulement quand les compteurs sont affichés
+    private _timer: number | null = null;
+    private _getPieceCount: () => number;
+
+    constructor(scene: Scene, element: HTMLElement, getPieceCount: () => number) {
+        this._scene = scene;
+        this._element = element;
+        this._getPieceCount = getPieceCount;
+    }
+
+    public get isVisible(): boolean {
+        return this._instrumentation !== null;
+    }
+
+    public toggle(): void {
+        if (this.isVisible) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+
+    public show(): void {
+        if (this._instrumentation) return;
+        this._instrumentation = new SceneInstrumentation(this._scene);
+        this._instrumentation.captureFrameTime = true;
+        this._element.hidden = false;
+        this._update();
+        this._timer = window.setInterval(() => this._update(), REFRESH_MS);
+    }
+
+    public hide(): void {
+        if (!this._instrumentation) return;
+        if (this._timer !== null) clearInterval(this._timer);
+        this._timer = null;
+        this._instrumentation.dispose();
+        this._instrumentation = null;
+        this._element.hidden = true;
+    }
+
+    private _update(): void {
+        const instrumentation = this._instrumentation;
+        if (!instrumentation) return;
+        const engine = this._scene.getEngine();
+        this._element.textContent = [
+            `${engine.getFps().toFixed(0)} images/s`,
+            `Image : ${instrumentation.frameTimeCounter.lastSecAverage.toFixed(1)} ms`,
+            `Appels de dessin : ${instrumentation.drawCallsCounter.current}`,
+            `Meshes affichés : ${this._scene.getActiveMeshes().length}`,
+            `Pièces : ${this._getPieceCount()}`
+        ].join('\n');
+    }
+}
@@ -0,0 +1,125 @@
+// src/pieceCluster.ts
+import type { PieceState, RotationAxis } from './puzzleModel';
+
+// Cosinus / sinus exacts des quarts de tour (évite les erreurs d'arrondi de Math.cos)
+const QUARTER_TURNS: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+// Applique à un décalage (x, y) la même rotation que mesh.rotation.z = steps * PI / 2
+export function rotateOffset(x: number, y: number, steps: number): { x: number, y: number } {
+    const [cos, sin] = QUARTER_TURNS[((steps % 4) + 4) % 4];
+    return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+// Même rotation pour un décalage 3D, autour de l'axe de rotation de la pièce : z pour les pièces plates,
+// y pour les pièces en volume (mesh.rotation.y = steps * PI / 2 : x' = x cos + z sin, z' = z cos - x sin)
+export function rotateOffset3D(offset: { x: number, y: number, z: number }, steps: number, axis: RotationAxis): { x: number, y: number, z: number } {
+    if (axis === 'z') return { ...rotateOffset(offset.x, offset.y, steps), z: offset.z };
+    const turned = rotateOffset(offset.z, offset.x, steps);
+    return { x: turned.y, y: offset.y, z: turned.x };
+}
+
+// Décalage dans la scène d'un décalage entre cibles, pour une pièce d'orientation et de face données. Une pièce
+// retournée (face cachée) fait un demi-tour autour de l'axe y, qui inverse x et z, puis tourne dans le plan comme les autres.
+export function orientOffset(offset: { x: number, y: number, z: number }, steps: number, axis: RotationAxis, isFaceDown: boolean): { x: number, y: number, z: number } {
+    return rotateOffset3D(isFaceDown ? { x: -offset.x, y: offset.y, z: -offset.z } : offset, steps, axis);
+}
+
+// Inverse d'orientOffset : décalage entre cibles correspondant à un décalage dans la scène
+export function unorientOffset(offset: { x: number, y: number, z: number }, steps: number, axis: RotationAxis, isFaceDown: boolean): { x: number, y: number, z: number } {
+    const turned = rotateOffset3D(offset, -steps, axis);
+    return isFaceDown ? { x: -turned.x, y: turned.y, z: -turned.z } : turned;
+}
+
+// Groupe de pièces déjà emboîtées entre elles, n'importe où sur la table.
+// Les pièces d'un groupe partagent la même orientation et la même face, se déplacent, tournent, se retournent
+// et se verrouillent ensemble.
+export class PieceCluster {
+    public readonly pieces: Set<PieceState> = new Set();
+
+    constructor(pieces: PieceState[]) {
+        pieces.forEach(piece => this._add(piece));
+    }
+
+    public get isLocked(): boolean {
+        for (const piece of this.pieces) {
+            if (piece.isLocked) return true;
+        }
+        return false;
+    }
+
+    public get rotationSteps(): number {
+        const first = this.pieces.values().next().value;
+        return first ? first.rotationSteps : 0;
+    }
+
+    public get isUpright(): boolean {
+        return this.rotationSteps === 0;
+    }
+
+    public get isFaceDown(): boolean {
+        const first = this.pieces.values().next().value;
+        return first ? first.isFaceDown : false;
+    }
+
+    public get size(): number {
+        return this.pieces.size;
+    }
+
+    public moveBy(dx: number, dy: number, dz: number = 0): void {
+        this.pieces.forEach(piece => {
+            const position = piece.position;
+            piece.setPosition(position.x + dx, position.y + dy, position.z + dz);
+        });
+    }
+
+    public elevate(elevation: number): void {
+        this.pieces.forEach(piece => piece.setPosition(piece.position.x, piece.position.y, elevation));
+    }
+
+    // Pose le groupe à plat sur la table, sans changer sa position dans le plan
+    public settle(z: number): void {
+        this.pieces.forEach(piece => piece.setPosition(piece.position.x, piece.position.y, z));
+    }
+
+    // Fait tourner tout le groupe d'un nombre de quarts de tour autour du centre d'une de ses pièces
+    public rotateAround(pivot: PieceState, steps: number): void {
+        const center = { ...pivot.position };
+        this.pieces.forEach(piece => {
+            const offset = rotateOffset3D({
+                x: piece.position.x - center.x,
+                y: piece.position.y - center.y,
+                z: piece.position.z - center.z
+            }, steps, pivot.rotationAxis);
+            piece.setPosition(center.x + offset.x, center.y + offset.y, center.z + offset.z);
+            piece.rotate(steps);
+        });
+    }
+
+    // Retourne tout le groupe autour de l'axe y passant par le centre d'une de ses pièces : les positions s'inversent
+    // de part et d'autre du pivot, et l'orientation change de sens (vue de l'autre face)
+    public flipAround(pivot: PieceState): void {
+        const center = { ...pivot.position };
+        this.pieces.forEach(piece => {
+            piece.setPosition(2 * center.x - piece.position.x, piece.position.y, 2 * center.z - piece.position.z);
+            piece.setRotation(-piece.rotationSteps);
+            piece.setFaceDown(!piece.isFaceDown);
+        });
+    }
+
+    // Absorbe les pièces d'un autre groupe (qui se retrouve vide)
+    public merge(other: PieceCluster): void {
+        if (other === this) return;
+        other.pieces.forEach(piece => this._add(piece));
+        other.pieces.clear();
+    }
+
+    // Le groupe a atteint sa position finale : chaque pièce se cale et se verrouille
+    public lock(): void {
+        this.pieces.forEach(piece => piece.lockInPlace());
+    }
+
+    private _add(piece: PieceState): void {
+        this.pieces.add(piece);
+        piece.cluster = this;
+    }
+}
@@ -0,0 +1,243 @@
+// src/pieceMeshFactory.ts
+// Meshes des pièces d'un puzzle d'image, pour tenir des puzzles de plus de mille pièces : un seul matériau
+// pour toutes les pièces, et une géométrie par forme de pièce (voir pieceShapeKey) dont chaque pièce est une instance.
+// Chaque instance porte le décalage de texture de sa case et sa teinte : les pièces de même forme
+// sont dessinées en un seul appel, quelle que soit la case de l'image qu'elles montrent.
+// Le dos des pièces a son propre matériau : l'image du dos d'un puzzle double face, sinon un motif de carton.
+import {
+    Scene, Mesh, InstancedMesh, Texture, RawTexture, Material, StandardMaterial, MultiMaterial, MaterialPluginBase, MaterialDefines,
+    AbstractMesh, SubMesh, Color3, Color4, Vector2, Vector3, VertexData, VertexBuffer
+} from '@babylonjs/core';
+import earcut from 'earcut';
+import { PuzzleCut, ShapePoint, buildPieceOutline, pieceShapeKey } from './jigsawShape';
+
+const UV_OFFSET_KIND = 'pieceUVOffset'; // Attribut d'instance : décalage de texture de la case de la pièce
+const UV_OFFSET_DEFINE = 'PIECE_UV_OFFSET';
+const BACK_PATTERN_COLORS = [[196, 170, 130], [176, 150, 112]]; // Damier de carton au dos d'un puzzle simple face
+const BACK_PATTERN_REPEAT = 2;                                   // Cases du damier par pièce, dans chaque direction
+const HIGH_CONTRAST_OUTLINE = Color3.Black();                    // Contour de toutes les pièces en mode contrasté
+const HIGH_CONTRAST_WIDTH = 0.04;                                // Épaisseur du contour, en fraction de la case
+
+// Ajoute aux coordonnées de texture du matériau partagé le décalage propre à chaque instance
+class PieceUVOffsetPlugin extends MaterialPluginBase {
+    constructor(material: Material) {
+        super(material, 'PieceUVOffset', 200, { [UV_OFFSET_DEFINE]: false }, true, true);
+    }
+
+    public getClassName(): string {
+        return 'PieceUVOffsetPlugin';
+    }
+
+    public prepareDefines(defines: MaterialDefines, _scene: Scene, mesh: AbstractMesh): void {
+        defines[UV_OFFSET_DEFINE] = mesh.hasInstances && mesh.isVerticesDataPresent(UV_OFFSET_KIND);
+    }
+
+    public getAttributes(attributes: string[], _scene: Scene, mesh: AbstractMesh): void {
+        if (mesh.hasInstances && mesh.isVerticesDataPresent(UV_OFFSET_KIND)) attributes.push(UV_OFFSET_KIND);
+    }
+
+    public getCustomCode(shaderType: string): { [pointName: string]: string } | null {
+        if (shaderType !== 'vertex') return null;
+        return {
+            CUSTOM_VERTEX_DEFINITIONS: `#ifdef ${UV_OFFSET_DEFINE}\nattribute vec2 ${UV_OFFSET_KIND};\n#endif`,
+            CUSTOM_VERTEX_UPDATE_POSITION: `#if defined(${UV_OFFSET_DEFINE}) && defined(UV1)\nuvUpdated += ${UV_OFFSET_KIND};\n#endif`
+        };
+    }
+}
+
+export class PieceMeshFactory {
+    public readonly material: StandardMaterial;   // Partagé par toutes les pièces (l'animation de victoire l'anime)
+    public readonly backMaterial: StandardMaterial;
+
+    private _scene: Scene;
+    private _multiMaterial: MultiMaterial;
+    private _backPattern: Texture | null = null;  // Motif créé ici quand il n'y a pas d'image du dos
+    private _cut: PuzzleCut;
+    private _tileWidth: number;
+    private _tileHeight: number;
+    private _depth: number;
+    private _shapes: Map<string, Mesh> = new Map(); // Géométrie source (invisible) de chaque forme de pièce
+    private _highContrast: boolean = false;
+
+    // backTexture : image du dos (déjà recadrée et inversée, voir Game), ou null pour le motif de carton
+    constructor(scene: Scene, imageTexture: Texture, cut: PuzzleCut, tileWidth: number, tileHeight: number, depth: number,
+        backTexture: Texture | null = null) {
+        this._scene = scene;
+        this._cut = cut;
+        this._tileWidth = tileWidth;
+        this._tileHeight = tileHeight;
+        this._depth = depth;
+
+        this.material = new StandardMaterial('piecesMat', scene);
+        this.material.diffuseTexture = imageTexture;
+        this.material.specularColor = new Color3(0.1, 0.1, 0.1);
+        new PieceUVOffsetPlugin(this.material);
+
+        this.backMaterial = new StandardMaterial('piecesBackMat', scene);
+        this.backMaterial.diffuseTexture = backTexture ?? this._createBackPattern();
+        this.backMaterial.specularColor = new Color3(0.1, 0.1, 0.1);
+        new PieceUVOffsetPlugin(this.backMaterial);
+
+        this._multiMaterial = new MultiMaterial('piecesMultiMat', scene);
+        this._multiMaterial.subMaterials.push(this.material, this.backMaterial);
+    }
+
+    // Nombre de géométries différentes : autant d'appels de dessin pour toutes les pièces
+    public get shapeCount(): number {
+        return this._shapes.size;
+    }
+
+    // Mesh de la pièce de la case (row, col) : une instance de la géométrie de sa forme, construite au premier besoin
+    public createInstance(name: string, row: number, col: number): InstancedMesh {
+        const key = pieceShapeKey(this._cut, row, col);
+        let shape = this._shapes.get(key);
+        if (!shape) {
+            shape = this._createShape(`pieceShape-${this._shapes.size}`, buildPieceOutline(this._cut, row, col, this._tileWidth, this._tileHeight));
+            this._shapes.set(key, shape);
+        }
+        const instance = shape.createInstance(name);
+        instance.instancedBuffers[UV_OFFSET_KIND] = new Vector2(col / this._cut.cols, -row / this._cut.rows);
+        instance.instancedBuffers[VertexBuffer.ColorInstanceKind] = new Color4(1, 1, 1, 1);
+        return instance;
+    }
+
+    // Contour contrasté autour de toutes les pièces : tracé par la géométrie source, pour toutes ses instances
+    public setHighContrast(enabled: boolean): void {
+        this._highContrast = enabled;
+        this._shapes.forEach(shape => this._applyHighContrast(shape));
+    }
+
+    // Libère les géométries et les matériaux partagés (les textures des images sont conservées, pas le motif du dos)
+    public dispose(): void {
+        this._shapes.forEach(shape => shape.dispose());
+        this._shapes.clear();
+        this._multiMaterial.dispose();
+        this.material.dispose();
+        this.backMaterial.dispose();
+        this._backPattern?.dispose();
+    }
+
+    // Damier répété sur chaque pièce, à partir des mêmes coordonnées de texture que l'image
+    private _createBackPattern(): Texture {
+        const [light, dark] = BACK_PATTERN_COLORS;
+        const pattern = RawTexture.CreateRGBTexture(new Uint8Array([...light, ...dark, ...dark, ...light]), 2, 2, this._scene,
+            false, false, Texture.NEAREST_SAMPLINGMODE);
+        pattern.wrapU = Texture.WRAP_ADDRESSMODE;
+        pattern.wrapV = Texture.WRAP_ADDRESSMODE;
+        pattern.uScale = this._cut.cols * BACK_PATTERN_REPEAT / 2;
+        pattern.vScale = this._cut.rows * BACK_PATTERN_REPEAT / 2;
+        this._backPattern = pattern;
+        return pattern;
+    }
+
+    private _createShape(name: string, outline: ShapePoint[]): Mesh {
+        const mesh = buildOutlineMesh(name, this._scene, outline, this._depth, this._tileWidth, this._tileHeight, this._cut);
+        mesh.material = this._multiMaterial;
+        mesh.isVisible = false; // Seules les instances sont affichées
+        mesh.isPickable = false;
+        mesh.registerInstancedBuffer(UV_OFFSET_KIND, 2);
+        mesh.registerInstancedBuffer(VertexBuffer.ColorInstanceKind, 4);
+        mesh.instancedBuffers[UV_OFFSET_KIND] = Vector2.Zero();
+        mesh.instancedBuffers[VertexBuffer.ColorInstanceKind] = new Color4(1, 1, 1, 1);
+        this._applyHighContrast(mesh);
+        return mesh;
+    }
+
+    private _applyHighContrast(shape: Mesh): void {
+        shape.renderOutline = this._highContrast;
+        shape.outlineColor = HIGH_CONTRAST_OUTLINE;
+        shape.outlineWidth = HIGH_CONTRAST_WIDTH * Math.min(this._tileWidth, this._tileHeight);
+    }
+}
+
+// Coordonnées de texture d'un point du contour, pour la case en haut à gauche de l'image (le décalage
+// de chaque instance les amène sur sa case) : les tenons qui débordent prennent l'image des cases voisines.
+function imageUV(point: ShapePoint, tileWidth: number, tileHeight: number, cut: PuzzleCut): [number, number] {
+    const u = (0.5 + point.x / tileWidth) / cut.cols;
+    const v = 1 - (0.5 - point.y / tileHeight) / cut.rows;
+    return [u, v];
+}
+
+// Extrude le contour sur l'épaisseur de la pièce : face avant texturée (z+, vers la caméra) et tranches,
+// matériau 0 ; face arrière, matériau 1, avec les mêmes coordonnées de texture (la texture du dos est inversée en u).
+function buildOutlineMesh(name: string, scene: Scene, outline: ShapePoint[], depth: number, tileWidth: number, tileHeight: number, cut: PuzzleCut): Mesh {
+    const halfDepth = depth / 2;
+    const positions: number[] = [];
+    const indices: number[] = [];
+    const uvs: number[] = [];
+
+    // Repère main gauche : vue depuis la caméra, la droite de l'image est du côté des x négatifs
+    const contour = outline.map(point => ({ x: -point.x, y: point.y }));
+    const contourUVs = outline.map(point => imageUV(point, tileWidth, tileHeight, cut));
+
+    const addVertex = (x: number, y: number, z: number, uv: [number, number]): number => {
+        positions.push(x, y, z);
+        uvs.push(uv[0], uv[1]);
+        return positions.length / 3 - 1;
+    };
+    // Ajoute un triangle en l'orientant pour que sa face visible regarde dans la direction attendue
+    const addTriangle = (i0: number, i1: number, i2: number, expected: Vector3): void => {
+        const p0 = Vector3.FromArray(positions, i0 * 3);
+        const p1 = Vector3.FromArray(positions, i1 * 3);
+        const p2 = Vector3.FromArray(positions, i2 * 3);
+        const facing = Vector3.Cross(p2.subtract(p0), p1.subtract(p0));
+        if (Vector3.Dot(facing, expected) >= 0) {
+            indices.push(i0, i1, i2);
+        } else {
+            indices.push(i0, i2, i1);
+        }
+    };
+
+    const triangles = earcut(contour.flatMap(point => [point.x, point.y]));
+
+    // Face avant (image)
+    const front = contour.map((point, i) => addVertex(point.x, point.y, halfDepth, contourUVs[i]));
+    for (let i = 0; i < triangles.length; i += 3) {
+        addTriangle(front[triangles[i]], front[triangles[i + 1]], front[triangles[i + 2]], new Vector3(0, 0, 1));
+    }
+
+    // Tranches : un quadrilatère par segment du contour, normale vers l'extérieur
+    let signedArea = 0;
+    for (let i = 0; i < contour.length; i++) {
+        const a = contour[i];
+        const b = contour[(i + 1) % contour.length];
+        signedArea += a.x * b.y - b.x * a.y;
+    }
+    const orientation = signedArea > 0 ? 1 : -1;
+    for (let i = 0; i < contour.length; i++) {
+        const j = (i + 1) % contour.length;
+        const a = contour[i];
+        const b = contour[j];
+        const outward = new Vector3((b.y - a.y) * orientation, -(b.x - a.x) * orientation, 0);
+        const a0 = addVertex(a.x, a.y, halfDepth, contourUVs[i]);
+        const b0 = addVertex(b.x, b.y, halfDepth, contourUVs[j]);
+        const b1 = addVertex(b.x, b.y, -halfDepth, contourUVs[j]);
+        const a1 = addVertex(a.x, a.y, -halfDepth, contourUVs[i]);
+        addTriangle(a0, b0, b1, outward);
+        addTriangle(a0, b1, a1, outward);
+    }
+
+    // Face arrière, en dernier : son propre sous-mesh
+    const backIndexStart = indices.length;
+    const back = contour.map((point, i) => addVertex(point.x, point.y, -halfDepth, contourUVs[i]));
+    for (let i = 0; i < triangles.length; i += 3) {
+        addTriangle(back[triangles[i]], back[triangles[i + 1]], back[triangles[i + 2]], new Vector3(0, 0, -1));
+    }
+
+    const normals: number[] = [];
+    VertexData.ComputeNormals(positions, indices, normals);
+
+    const vertexData = new VertexData();
+    vertexData.positions = positions;
+    vertexData.indices = indices;
+    vertexData.normals = normals;
+    vertexData.uvs = uvs;
+
+    const mesh = new Mesh(name, scene);
+    vertexData.applyToMesh(mesh);
+    const vertexCount = positions.length / 3;
+    mesh.subMeshes = [];
+    new SubMesh(0, 0, vertexCount, 0, backIndexStart, mesh);
+    new SubMesh(1, 0, vertexCount, backIndexStart, indices.length - backIndexStart, mesh);
+    return mesh;
+}
@@ -0,0 +1,20 @@
+// src/preferences.ts
+// Préférences d'affichage du joueur, conservées localement. Stockage bloqué (navigation privée, stockage désactivé) :
+// la lecture ne trouve rien et l'écriture est ignorée, le jeu garde ses valeurs par défaut.
+
+export function readPreference(key: string): string | null {
+    try {
+        return localStorage.getItem(key);
+    } catch (err) {
+        console.warn(`Impossible de lire la préférence « ${key} » :`, err);
+        return null;
+    }
+}
+
+export function writePreference(key: string, value: string): void {
+    try {
+        localStorage.setItem(key, value);
+    } catch (err) {
+        console.warn(`Impossible d'enregistrer la préférence « ${key} » :`, err);
+    }
+}
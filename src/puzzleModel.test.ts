@@ -0,0 +1,568 @@
+// src/puzzleModel.test.ts
+import { describe, it, expect } from 'vitest';
+import { PuzzleModel, PieceState } from './puzzleModel';
+import { createSeededRandom } from './random';
+
+function createModel(rows = 3, cols = 3): PuzzleModel {
+    return new PuzzleModel({ rows, cols, tileWidth: 1, tileHeight: 1, depth: 0.1 });
+}
+
+// Pose une pièce à une position donnée, comme un lâcher après un glisser
+function placeAt(piece: PieceState, x: number, y: number): void {
+    piece.setPosition(x, y, 1);
+}
+
+// Verrouille toutes les pièces à leur place en les lâchant une à une
+function solve(model: PuzzleModel): void {
+    model.pieces.forEach(piece => {
+        placeAt(piece, piece.target.x, piece.target.y);
+        model.snap(piece);
+    });
+}
+
+describe('PuzzleModel', () => {
+    it('place les cases en miroir horizontal (repère main gauche), centrées sur l’origine', () => {
+        const model = createModel(2, 3);
+        expect(model.getPiece(0).target).toEqual({ x: 1, y: 0.5, z: model.tableZ });
+        expect(model.getPiece(2).target).toEqual({ x: -1, y: 0.5, z: model.tableZ });
+        expect(model.getPiece(5).target).toEqual({ x: -1, y: -0.5, z: model.tableZ });
+    });
+
+    it('donne les voisins de grille sans sortir du plateau', () => {
+        const model = createModel();
+        expect(model.getGridNeighbours(model.getPiece(0)).map(piece => piece.index).sort()).toEqual([1, 3]);
+        expect(model.getGridNeighbours(model.getPiece(4)).map(piece => piece.index).sort()).toEqual([1, 3, 5, 7]);
+    });
+
+    describe('emboîtement', () => {
+        it('verrouille une pièce lâchée près de sa case', () => {
+            const model = createModel();
+            const piece = model.getPiece(4);
+            placeAt(piece, piece.target.x + 0.3, piece.target.y - 0.2);
+
+            expect(model.snap(piece)).toBe(true);
+            expect(piece.isLocked).toBe(true);
+            expect(piece.position).toEqual({ x: piece.target.x, y: piece.target.y, z: model.tableZ });
+        });
+
+        it('laisse une pièce trop loin de sa case libre, posée sur la table', () => {
+            const model = createModel();
+            const piece = model.getPiece(4);
+            placeAt(piece, 5, 5);
+
+            expect(model.snap(piece)).toBe(false);
+            expect(piece.isLocked).toBe(false);
+            expect(piece.position).toEqual({ x: 5, y: 5, z: model.tableZ });
+        });
+
+        it('ne verrouille pas une pièce qui n’est pas à l’endroit', () => {
+            const model = createModel();
+            const piece = model.getPiece(4);
+            piece.setRotation(1);
+            placeAt(piece, piece.target.x, piece.target.y);
+
+            expect(model.snap(piece)).toBe(false);
+            expect(piece.isLocked).toBe(false);
+        });
+
+        it('emboîte deux voisines loin du plateau et les regroupe', () => {
+            const model = createModel();
+            const left = model.getPiece(0);
+            const right = model.getPiece(1);
+            placeAt(left, 10, 10);
+            model.snap(left);
+            // La voisine de droite est à x - 1 (repère main gauche), lâchée légèrement décalée
+            placeAt(right, 9 + 0.2, 10 - 0.1);
+
+            expect(model.snap(right)).toBe(true);
+            expect(right.cluster).toBe(left.cluster);
+            expect(right.position.x).toBeCloseTo(9);
+            expect(right.position.y).toBeCloseTo(10);
+            expect(right.isLocked).toBe(false);
+        });
+
+        it('respecte l’orientation du groupe pour l’alignement des voisines', () => {
+            const model = createModel();
+            const left = model.getPiece(0);
+            const right = model.getPiece(1);
+            left.setRotation(1);
+            right.setRotation(1);
+            placeAt(left, 10, 10);
+            model.snap(left);
+            // Un quart de tour envoie le décalage (-1, 0) en (0, -1)
+            placeAt(right, 10.1, 9);
+
+            expect(model.snap(right)).toBe(true);
+            expect(right.position.x).toBeCloseTo(10);
+            expect(right.position.y).toBeCloseTo(9);
+        });
+
+        it('n’emboîte pas deux voisines d’orientations différentes', () => {
+            const model = createModel();
+            const left = model.getPiece(0);
+            const right = model.getPiece(1);
+            right.setRotation(2);
+            placeAt(left, 10, 10);
+            model.snap(left);
+            placeAt(right, 9, 10);
+
+            expect(model.snap(right)).toBe(false);
+            expect(right.cluster).not.toBe(left.cluster);
+        });
+
+        it('verrouille tout le groupe emboîté contre une pièce déjà en place', () => {
+            const model = createModel();
+            const anchor = model.getPiece(0);
+            placeAt(anchor, anchor.target.x, anchor.target.y);
+            model.snap(anchor);
+
+            const a = model.getPiece(1);
+            const b = model.getPiece(2);
+            placeAt(a, 20, 20);
+            model.snap(a);
+            placeAt(b, 19, 20);
+            model.snap(b);
+            expect(a.cluster).toBe(b.cluster);
+
+            // Le groupe a-b est déplacé contre la pièce verrouillée
+            model.moveCluster(a, a.target.x + 0.1 - 20, a.target.y - 20);
+            expect(model.snap(a)).toBe(true);
+            expect(a.isLocked && b.isLocked).toBe(true);
+            expect(b.position.x).toBeCloseTo(b.target.x);
+        });
+
+        it('déplace et tourne un groupe d’un bloc, mais plus une fois verrouillé', () => {
+            const model = createModel();
+            const left = model.getPiece(0);
+            const right = model.getPiece(1);
+            placeAt(left, 10, 10);
+            model.snap(left);
+            placeAt(right, 9, 10);
+            model.snap(right);
+
+            model.moveCluster(left, 1, 2);
+            expect(right.position.x).toBeCloseTo(10);
+            expect(right.position.y).toBeCloseTo(12);
+
+            expect(model.rotateCluster(left, 1)).toBe(true);
+            expect(right.rotationSteps).toBe(1);
+            expect(right.position.x).toBeCloseTo(11);
+            expect(right.position.y).toBeCloseTo(11);
+
+            const single = model.getPiece(8);
+            placeAt(single, single.target.x, single.target.y);
+            model.snap(single);
+            expect(model.rotateCluster(single, 1)).toBe(false);
+            model.moveCluster(single, 1, 1);
+            expect(single.position.x).toBe(single.target.x);
+        });
+    });
+
+    describe('victoire', () => {
+        it('est en cours tant qu’une pièce est libre', () => {
+            const model = createModel();
+            solve(model);
+            model.getPiece(3).reset();
+            expect(model.getStatus()).toBe('playing');
+        });
+
+        it('est résolu quand toutes les pièces sont verrouillées à leur place', () => {
+            const model = createModel();
+            solve(model);
+            expect(model.getStatus()).toBe('solved');
+        });
+
+        it('signale un puzzle entièrement verrouillé mais faux', () => {
+            const model = createModel(2, 2);
+            solve(model);
+            const states = model.captureState();
+            states[2] = { ...states[2], rotation: 2 };
+            model.applyState(states);
+            expect(model.getStatus()).toBe('lockedWrong');
+            expect(model.findMisplacedPieces()).toEqual([model.getPiece(2)]);
+        });
+    });
+
+    describe('remise à zéro et mélange', () => {
+        it('déverrouille les pièces et défait les groupes', () => {
+            const model = createModel();
+            solve(model);
+            model.reset();
+            expect(model.pieces.every(piece => !piece.isLocked && piece.cluster.size === 1)).toBe(true);
+            expect(model.getStatus()).toBe('playing');
+        });
+
+        it('mélange de façon reproductible avec un générateur à graine', () => {
+            const first = createModel();
+            const second = createModel();
+            solve(first);
+            first.shuffle({ rotation: true, random: createSeededRandom(42) });
+            second.shuffle({ rotation: true, random: createSeededRandom(42) });
+
+            expect(first.captureState()).toEqual(second.captureState());
+            expect(first.pieces.every(piece => !piece.isLocked)).toBe(true);
+            expect(first.pieces.every(piece => Math.abs(piece.position.x) <= first.width * 0.75)).toBe(true);
+        });
+
+        it('garde toutes les pièces à l’endroit sans le mode rotation', () => {
+            const model = createModel();
+            model.shuffle({ rotation: false, random: createSeededRandom(7) });
+            expect(model.pieces.every(piece => piece.isUpright)).toBe(true);
+        });
+    });
+
+    describe('instantanés', () => {
+        it('restaure positions, verrous et groupes', () => {
+            const model = createModel();
+            const left = model.getPiece(0);
+            const right = model.getPiece(1);
+            placeAt(left, 10, 10);
+            model.snap(left);
+            placeAt(right, 9, 10);
+            model.snap(right);
+            const corner = model.getPiece(8);
+            placeAt(corner, corner.target.x, corner.target.y);
+            model.snap(corner);
+            const saved = model.captureState();
+
+            const restored = createModel();
+            restored.applyState(saved);
+            expect(restored.captureState()).toEqual(saved);
+            expect(restored.getPiece(0).cluster).toBe(restored.getPiece(1).cluster);
+            expect(restored.getPiece(8).isLocked).toBe(true);
+        });
+
+        it('signale chaque changement de pièce', () => {
+            const model = createModel();
+            const changed = new Set<number>();
+            model.onPieceChanged = piece => changed.add(piece.index);
+            model.moveCluster(model.getPiece(5), 1, 0);
+            expect(Array.from(changed)).toEqual([5]);
+        });
+    });
+
+    it('déplace un groupe en 3D et trouve la pièce libre sous la main', () => {
+        const model = createModel(2, 2);
+        const piece = model.getPiece(0);
+        placeAt(piece, 0, 0);
+        model.moveCluster(piece, 0.25, 0, 0.5);
+        expect(piece.position).toEqual({ x: 0.25, y: 0, z: 1.5 });
+
+        model.pieces.slice(1).forEach((other, i) => placeAt(other, 5 + i * 2, 5));
+        expect(model.findPieceNear({ x: 0.7, y: 0.3, z: 1.5 }, 0.05)).toBe(piece);    // Dans le volume de la case
+        expect(model.findPieceNear({ x: 0.25, y: 0, z: 1.6 }, 0.1)).toBe(piece);      // Juste au-dessus
+        expect(model.findPieceNear({ x: 0.25, y: 0, z: 1.8 }, 0.1)).toBeNull();
+
+        piece.lockInPlace();
+        expect(model.findPieceNear(piece.position, 0.1)).toBeNull();                // Les pièces verrouillées ne se saisissent plus
+    });
+
+    it('retrouve une pièce déplacée parmi plus de mille', () => {
+        const model = new PuzzleModel({ rows: 32, cols: 32, tileWidth: 0.0625, tileHeight: 0.0625, depth: 0.1 });
+        model.shuffle({ rotation: true, random: createSeededRandom(4) });
+        const piece = model.getPiece(700);
+        model.moveCluster(piece, 10 - piece.position.x, -3 - piece.position.y);
+        expect(model.findPieceNear({ x: 10.05, y: -3, z: piece.position.z }, 0.05)).toBe(piece);
+        expect(model.findPieceNear({ x: 10.2, y: -3, z: piece.position.z }, 0.05)).toBeNull();
+    });
+
+    it('sélectionne au lasso les seules pièces libres de la zone', () => {
+        const model = createModel();
+        model.moveCluster(model.getPiece(0), 5 - model.getPiece(0).position.x, 5 - model.getPiece(0).position.y);
+        model.moveCluster(model.getPiece(1), 6 - model.getPiece(1).position.x, 5.5 - model.getPiece(1).position.y);
+        model.moveCluster(model.getPiece(2), 9 - model.getPiece(2).position.x, 5 - model.getPiece(2).position.y);
+        model.getPiece(4).lockInPlace();
+
+        expect(model.findLoosePiecesInArea(4.5, 4.5, 6.5, 6).map(piece => piece.index).sort()).toEqual([0, 1]);
+        expect(model.findLoosePiecesInArea(-2, -2, 2, 2).map(piece => piece.index)).not.toContain(4);
+    });
+
+    it('propose d’abord une voisine de pièce en place, sinon un coin', () => {
+        const model = createModel();
+        expect([0, 2, 6, 8]).toContain(model.findFittingPiece()?.index);
+
+        const center = model.getPiece(4);
+        placeAt(center, center.target.x, center.target.y);
+        model.snap(center);
+        expect([1, 3, 5, 7]).toContain(model.findFittingPiece()?.index);
+    });
+
+    it('signale une pièce posée dans une case voisine des pièces en place qui n’est pas la sienne', () => {
+        const model = createModel();
+        const corner = model.getPiece(0);
+        placeAt(corner, corner.target.x, corner.target.y);
+        model.snap(corner);
+
+        // La case de la pièce 1 est libérée, puis occupée par une autre pièce
+        const slot = model.getPiece(1);
+        placeAt(slot, -5, -5);
+        model.snap(slot);
+        const wrong = model.getPiece(8);
+        placeAt(wrong, slot.target.x, slot.target.y);
+        expect(model.snap(wrong)).toBe(false);
+        expect(model.findMisplacedPieces()).toEqual([wrong]);
+
+        placeAt(wrong, 5, 5);
+        model.snap(wrong);
+        expect(model.findMisplacedPieces()).toEqual([]);
+    });
+
+    describe('piles', () => {
+        it('empile une pièce lâchée sur d’autres, et saisit celle du dessus', () => {
+            const model = createModel();
+            const [bottom, middle, top] = [model.getPiece(0), model.getPiece(8), model.getPiece(4)];
+            placeAt(bottom, 10, 10);
+            model.snap(bottom);
+            placeAt(middle, 10.3, 10.2);
+            expect(model.snap(middle)).toBe(false);
+            placeAt(top, 10, 10.4);
+            model.snap(top);
+
+            expect(bottom.position.z).toBe(model.tableZ);
+            expect(middle.position.z).toBeCloseTo(model.tableZ + model.depth);
+            expect(top.position.z).toBeCloseTo(model.tableZ + 2 * model.depth);
+            expect(model.getStackTopZ()).toBeCloseTo(top.position.z);
+            expect(model.findTopPieceAt(10.1, 10.3)).toBe(top);
+            expect(model.findTopPieceAt(9.6, 9.6)).toBe(bottom);
+            expect(model.findStack(bottom)).toEqual([bottom, top, middle]);
+        });
+
+        it('fait redescendre les pièces dont l’appui est retiré, et ignore les pièces tenues', () => {
+            const model = createModel();
+            const [bottom, middle, top] = [model.getPiece(0), model.getPiece(8), model.getPiece(4)];
+            placeAt(bottom, 10, 10);
+            model.snap(bottom);
+            placeAt(middle, 10.3, 10.2);
+            model.snap(middle);
+            placeAt(top, 10, 10.4);
+            expect(model.getRestingZ(top, other => other !== middle)).toBeCloseTo(model.tableZ + model.depth);
+            model.snap(top);
+
+            placeAt(bottom, -10, -10);
+            expect(model.settleStacks(other => other !== bottom)).toEqual([middle, top]);
+            expect(middle.position.z).toBe(model.tableZ);
+            expect(top.position.z).toBeCloseTo(model.tableZ + model.depth);
+        });
+    });
+
+    describe('pièces face cachée', () => {
+        it('n’emboîte une pièce face cachée qu’après l’avoir retournée', () => {
+            const model = createModel();
+            const piece = model.getPiece(4);
+            piece.setFaceDown(true);
+            placeAt(piece, piece.target.x, piece.target.y);
+            expect(model.snap(piece)).toBe(false);
+            expect(piece.isLocked).toBe(false);
+            expect(piece.position.z).toBe(model.tableZ);
+
+            expect(model.flipCluster(piece)).toBe(true);
+            expect(piece.isFaceDown).toBe(false);
+            expect(model.snap(piece)).toBe(true);
+            expect(model.flipCluster(piece)).toBe(false);
+        });
+
+        it('retourne un groupe en miroir autour de la pièce, quart de tour inversé', () => {
+            const model = createModel();
+            const [a, b] = [model.getPiece(0), model.getPiece(1)];
+            placeAt(a, 5, 0);
+            placeAt(b, 5 + b.target.x - a.target.x, 0);
+            expect(model.snap(b)).toBe(true);
+            model.rotateCluster(a, 1);
+
+            const offset = { x: b.position.x - a.position.x, y: b.position.y - a.position.y };
+            model.flipCluster(a);
+            expect(a.position.x).toBe(5);
+            expect(b.position.x - a.position.x).toBeCloseTo(-offset.x);
+            expect(b.position.y - a.position.y).toBeCloseTo(offset.y);
+            expect([a.rotationSteps, a.isFaceDown, b.isFaceDown]).toEqual([3, true, true]);
+        });
+
+        it('assemble le dos d’un puzzle double face en miroir sur le plateau, sans mélanger les faces', () => {
+            const model = new PuzzleModel({ rows: 3, cols: 3, tileWidth: 1, tileHeight: 1, depth: 0.1, doubleSided: true });
+            model.pieces.forEach(piece => {
+                piece.setFaceDown(true);
+                placeAt(piece, 10 + piece.index * 3, 10);
+            });
+            // Le dos se monte inversé : à la case de la cible en miroir
+            const corner = model.getPiece(0);
+            placeAt(corner, corner.target.x, corner.target.y);
+            expect(model.snap(corner)).toBe(false);
+            placeAt(corner, -corner.target.x, corner.target.y);
+            expect(model.snap(corner)).toBe(true);
+            expect(corner.position.x).toBe(-corner.target.x);
+
+            // Le plateau est commencé sur le dos : une pièce face visible ne s'y verrouille plus
+            const other = model.getPiece(8);
+            other.setFaceDown(false);
+            placeAt(other, other.target.x, other.target.y);
+            expect(model.snap(other)).toBe(false);
+            expect(model.findMisplacedPieces()).toEqual([]);
+
+            other.setFaceDown(true);
+            model.pieces.filter(piece => !piece.isLocked).forEach(piece => {
+                placeAt(piece, -piece.target.x, piece.target.y);
+                model.snap(piece);
+            });
+            expect(model.getStatus()).toBe('solved');
+        });
+
+        it('mélange une partie des pièces face cachée et les restaure', () => {
+            const model = createModel(4, 4);
+            model.shuffle({ rotation: false, faceDown: true, random: createSeededRandom(3) });
+            const faceDown = model.pieces.filter(piece => piece.isFaceDown).length;
+            expect(faceDown).toBeGreaterThan(0);
+            expect(faceDown).toBeLessThan(16);
+
+            const saved = model.captureState();
+            model.reset();
+            model.pieces.forEach(piece => piece.setFaceDown(false));
+            model.applyState(saved);
+            expect(model.pieces.filter(piece => piece.isFaceDown)).toHaveLength(faceDown);
+        });
+    });
+
+    describe('assemblage libre', () => {
+        // Décalage de l'image reconstituée par rapport au plateau
+        const OFFSET = { x: 10, y: -4 };
+
+        function createFreeFormModel(): PuzzleModel {
+            return new PuzzleModel({ rows: 3, cols: 3, tileWidth: 1, tileHeight: 1, depth: 0.1, freeForm: true });
+        }
+
+        function placeInAssembly(piece: PieceState): void {
+            placeAt(piece, piece.target.x + OFFSET.x, piece.target.y + OFFSET.y);
+        }
+
+        it('assemble l’image n’importe où, sans rien verrouiller, puis la reconnaît résolue', () => {
+            const model = createFreeFormModel();
+            model.shuffle({ rotation: false, random: createSeededRandom(3) });
+            model.pieces.forEach(piece => {
+                placeInAssembly(piece);
+                model.snap(piece);
+                if (piece.index < 8) expect(model.getStatus()).toBe('playing');
+            });
+
+            expect(model.pieces.some(piece => piece.isLocked)).toBe(false);
+            expect(model.getPiece(0).cluster.size).toBe(9);
+            expect(model.getStatus()).toBe('solved');
+
+            // Une image entière tournée reste juste : seules les positions relatives comptent
+            model.rotateCluster(model.getPiece(4), 1);
+            expect(model.getStatus()).toBe('solved');
+        });
+
+        it('ne verrouille pas une pièce lâchée sur sa case du plateau', () => {
+            const model = createFreeFormModel();
+            model.shuffle({ rotation: false, random: createSeededRandom(3) });
+            const piece = model.getPiece(4);
+            placeAt(piece, piece.target.x, piece.target.y);
+            expect(model.snap(piece)).toBe(false);
+            expect(piece.isLocked).toBe(false);
+        });
+
+        it('situe les cases d’après le plus grand groupe et signale les pièces mal placées', () => {
+            const model = createFreeFormModel();
+            model.shuffle({ rotation: true, random: createSeededRandom(5) });
+            expect(model.getAssemblySlot(model.getPiece(2))).toBeNull();
+
+            [0, 1].forEach(index => {
+                const piece = model.getPiece(index);
+                piece.setRotation(0);
+                placeInAssembly(piece);
+                model.snap(piece);
+            });
+            expect(model.findAssembledPieces()).toEqual(new Set([model.getPiece(0), model.getPiece(1)]));
+            const slot = model.getAssemblySlot(model.getPiece(2))!;
+            expect(slot.position.x).toBeCloseTo(model.getPiece(2).target.x + OFFSET.x);
+            expect(slot.position.y).toBeCloseTo(model.getPiece(2).target.y + OFFSET.y);
+            expect(slot.rotationSteps).toBe(0);
+
+            // Pièce d'une autre case posée à la place de la pièce 2 : erreur signalée, sans remise à zéro
+            const wrong = model.getPiece(8);
+            wrong.setRotation(0);
+            placeAt(wrong, slot.position.x, slot.position.y);
+            expect(model.snap(wrong)).toBe(false);
+            expect(model.findMisplacedPieces()).toEqual([wrong]);
+
+            // La bonne pièce, mais tournée : encore à corriger
+            placeAt(wrong, 20, 20);
+            model.snap(wrong);
+            const right = model.getPiece(2);
+            right.setRotation(1);
+            placeAt(right, slot.position.x, slot.position.y);
+            model.snap(right);
+            expect(model.findMisplacedPieces()).toEqual([right]);
+
+            model.rotateCluster(right, -1);
+            expect(model.snap(right)).toBe(true);
+            expect(model.findMisplacedPieces()).toEqual([]);
+        });
+    });
+
+    describe('puzzle en volume', () => {
+        // Cube de 2 x 2 x 2 cellules d'une unité, centré sur l'origine (colonne 0 à droite, ligne 0 en haut, couche 0 devant)
+        function createVolumeModel(): PuzzleModel {
+            const cells = [];
+            for (let layer = 0; layer < 2; layer++) {
+                for (let row = 0; row < 2; row++) {
+                    for (let col = 0; col < 2; col++) {
+                        cells.push({ row, col, layer, target: { x: 0.5 - col, y: 0.5 - row, z: 0.5 - layer } });
+                    }
+                }
+            }
+            return new PuzzleModel({ rows: 2, cols: 2, tileWidth: 1, tileHeight: 1, depth: 1, volume: { layers: 2, cells } });
+        }
+
+        it('relie aussi les cellules de devant et de derrière', () => {
+            const model = createVolumeModel();
+            expect(model.getGridNeighbours(model.getPiece(0)).map(piece => piece.index).sort()).toEqual([1, 2, 4]);
+            expect(model.getPiece(4).rotationAxis).toBe('y');
+        });
+
+        it('emboîte une pièce d’après sa position dans l’espace, sans la poser sur la table', () => {
+            const model = createVolumeModel();
+            model.shuffle({ rotation: false, random: createSeededRandom(1) });
+            const piece = model.getPiece(5);
+            piece.setPosition(piece.target.x, piece.target.y, piece.target.z + 0.8);
+            expect(model.snap(piece)).toBe(false);
+            expect(piece.position.z).toBe(piece.target.z + 0.8);
+
+            piece.setPosition(piece.target.x + 0.2, piece.target.y, piece.target.z + 0.2);
+            expect(model.snap(piece)).toBe(true);
+            expect(piece.position).toEqual(piece.target);
+        });
+
+        it('emboîte deux voisines de couches différentes, tournées d’un quart de tour vertical', () => {
+            const model = createVolumeModel();
+            const front = model.getPiece(0);
+            const back = model.getPiece(4);     // Juste derrière : décalage (0, 0, -1) une fois résolu
+            front.setRotation(1);
+            back.setRotation(1);
+            front.setPosition(10, 0, 0);
+            back.setPosition(9.1, 0.05, -0.1);  // Après un quart de tour, "derrière" est du côté des x négatifs
+
+            expect(model.snap(back)).toBe(true);
+            expect(back.cluster).toBe(front.cluster);
+            expect(back.position.x).toBeCloseTo(9);
+            expect(back.position.z).toBeCloseTo(0);
+
+            model.rotateCluster(front, -1);     // Retour à l'endroit : la voisine repasse derrière
+            expect(back.position.x).toBeCloseTo(10);
+            expect(back.position.z).toBeCloseTo(-1);
+        });
+
+        it('éparpille les pièces de part et d’autre de l’objet, puis reconnaît l’objet reconstitué', () => {
+            const model = createVolumeModel();
+            model.shuffle({ rotation: true, random: createSeededRandom(3) });
+            model.pieces.forEach(piece => expect(Math.abs(piece.position.x)).toBeGreaterThanOrEqual(model.width * 0.75));
+            expect(model.getStatus()).toBe('playing');
+
+            model.pieces.forEach(piece => {
+                piece.setRotation(0);
+                piece.setPosition(piece.target.x, piece.target.y - 0.1, piece.target.z + 0.1);
+                model.snap(piece);
+            });
+            expect(model.getStatus()).toBe('solved');
+        });
+    });
+});
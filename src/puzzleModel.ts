@@ -0,0 +1,700 @@
+// src/puzzleModel.ts
+// Règles du puzzle, indépendantes du rendu : positions, orientations, groupes emboîtés, verrouillage,
+// mélange, pièces mal placées et victoire. Game (souris, tactile, XR) agit sur ce modèle ; les meshes ne font que le refléter.
+import { PieceCluster, orientOffset, unorientOffset } from './pieceCluster';
+import { RandomGenerator } from './random';
+import { SpatialGrid } from './spatialGrid';
+import type { SavedPiece } from './puzzleStorage';
+
+export interface PuzzleModelOptions {
+    rows: number;
+    cols: number;
+    tileWidth: number;      // Taille d'une case, en unités de la scène
+    tileHeight: number;
+    depth: number;          // Épaisseur des pièces (puzzle en volume : profondeur d'une cellule)
+    volume?: VolumeLayout;  // Absent pour un puzzle d'image, à plat sur la table
+    freeForm?: boolean;     // Assemblage libre : l'image (ou l'objet) se reconstitue n'importe où, sans plateau
+    doubleSided?: boolean;  // Puzzle double face : l'image du dos s'assemble aussi, pièces retournées
+}
+
+// Puzzle en volume : objet 3D découpé selon une grille de cellules (voir meshSlicer.ts).
+// Seules les cellules où il y a de la matière donnent une pièce.
+export interface VolumeLayout {
+    layers: number;         // Nombre de tranches selon z ; la couche 0 est la plus proche du joueur
+    cells: VolumeCell[];
+}
+
+export interface VolumeCell {
+    row: number;
+    col: number;
+    layer: number;
+    target: Point3;         // Centre de la cellule dans l'objet reconstitué
+}
+
+export interface Point3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+// Axe des quarts de tour : z (vers le joueur) pour une pièce plate, vertical pour une pièce en volume
+export type RotationAxis = 'y' | 'z';
+
+export interface ShuffleOptions {
+    rotation: boolean;              // Orientations aléatoires (mode rotation)
+    random?: RandomGenerator;       // Math.random par défaut
+    faceDown?: boolean;             // Une pièce plate sur deux en moyenne commence face cachée
+}
+
+// 'lockedWrong' : toutes les pièces sont verrouillées mais le puzzle n'est pas correct
+export type PuzzleStatus = 'playing' | 'solved' | 'lockedWrong';
+
+// Emplacement d'une pièce dans l'assemblage : position et orientation qu'elle doit y prendre
+export interface AssemblySlot {
+    position: Point3;
+    rotationSteps: number;
+    isFaceDown: boolean;
+}
+
+// Repère de l'assemblage : le plateau (reference null), ou en assemblage libre le plus grand groupe,
+// où qu'il soit sur la table et quelle que soit son orientation
+interface AssemblyFrame {
+    reference: PieceState | null;       // Pièce de l'assemblage libre dont la position sert d'origine
+    isFaceDown: boolean;                // Face assemblée : l'image du dos (puzzle double face) se monte en miroir
+    pieces: Set<PieceState>;            // Pièces déjà assemblées
+}
+
+const PLACEMENT_TOLERANCE = 0.001;      // Écart admis entre deux pièces correctement assemblées (arrondis des déplacements)
+
+// État d'une pièce. Le repère est celui de la scène : plateau dans le plan z = 0, centré sur l'origine
+// (un objet en volume est lui aussi centré sur l'origine).
+export class PieceState {
+    public readonly index: number;      // Index de la pièce dans le puzzle résolu
+    public readonly row: number;
+    public readonly col: number;
+    public readonly layer: number;      // Toujours 0 pour un puzzle plat
+    public readonly target: Point3;     // Position finale (centre de la case, posée sur la table, ou de la cellule)
+    public readonly rotationAxis: RotationAxis;
+    public readonly position = { x: 0, y: 0, z: 0 };
+    public rotationSteps: number = 0;   // Quarts de tour dans le sens horaire (vu par le joueur, ou du dessus), 0 = à l'endroit
+    public isFaceDown: boolean = false; // Pièce plate retournée : on voit son dos
+    public isLocked: boolean = false;
+    public cluster: PieceCluster;
+
+    private _notify: (piece: PieceState) => void;
+
+    constructor(index: number, cell: VolumeCell, rotationAxis: RotationAxis, notify: (piece: PieceState) => void) {
+        this.index = index;
+        this.row = cell.row;
+        this.col = cell.col;
+        this.layer = cell.layer;
+        this.target = cell.target;
+        this.rotationAxis = rotationAxis;
+        this._notify = notify;
+        this.position.x = cell.target.x;
+        this.position.y = cell.target.y;
+        this.position.z = cell.target.z;
+        this.cluster = new PieceCluster([this]);
+    }
+
+    public get isUpright(): boolean {
+        return this.rotationSteps === 0;
+    }
+
+    // Place de la pièce sur le plateau : sa cible, ou face cachée sa cible en miroir (l'image du dos se monte inversée)
+    public get boardPosition(): Point3 {
+        return this.isFaceDown ? { x: -this.target.x, y: this.target.y, z: this.target.z } : this.target;
+    }
+
+    public setPosition(x: number, y: number, z: number): void {
+        this.position.x = x;
+        this.position.y = y;
+        this.position.z = z;
+        this._notify(this);
+    }
+
+    public setRotation(steps: number): void {
+        this.rotationSteps = ((steps % 4) + 4) % 4;
+        this._notify(this);
+    }
+
+    public rotate(steps: number = 1): void {
+        this.setRotation(this.rotationSteps + steps);
+    }
+
+    public setFaceDown(faceDown: boolean): void {
+        this.isFaceDown = faceDown;
+        this._notify(this);
+    }
+
+    // Cale la pièce à sa position finale (posée sur la table pour un puzzle plat) et l'y verrouille
+    public lockInPlace(): void {
+        this.isLocked = true;
+        const position = this.boardPosition;
+        this.setPosition(position.x, position.y, position.z);
+    }
+
+    // Déverrouille la pièce et la sort de son groupe (sans la déplacer)
+    public reset(): void {
+        this.isLocked = false;
+        this.cluster.pieces.delete(this);
+        this.cluster = new PieceCluster([this]);
+        this._notify(this);
+    }
+
+    // Retire la pièce de son groupe avant sa destruction
+    public detach(): void {
+        this.cluster.pieces.delete(this);
+    }
+}
+
+export class PuzzleModel {
+    public readonly rows: number;
+    public readonly cols: number;
+    public readonly tileWidth: number;
+    public readonly tileHeight: number;
+    public readonly depth: number;
+    public readonly layers: number;
+    public readonly isVolumetric: boolean;  // Objet 3D à reconstituer dans l'espace, plutôt qu'image sur la table
+    public readonly isFreeForm: boolean;    // Pas de plateau : les pièces s'emboîtent entre elles sans jamais se verrouiller
+    public readonly isDoubleSided: boolean; // Les deux faces s'assemblent ; sinon seules les pièces face visible s'emboîtent
+    public readonly pieces: PieceState[] = [];
+
+    private _cells: Map<string, PieceState> = new Map(); // Pièce de chaque cellule de la grille, par couche, ligne et colonne
+    private _slots: Map<string, PieceState> = new Map(); // Pièce de chaque case, selon sa cible relative à celle de la première pièce
+    private _index: SpatialGrid<PieceState>;              // Pièces rangées selon leur position actuelle, pour les recherches de proximité
+
+    // Appelé à chaque changement d'une pièce (position, orientation, verrou, groupe)
+    public onPieceChanged: ((piece: PieceState) => void) | null = null;
+
+    constructor(options: PuzzleModelOptions) {
+        this.rows = options.rows;
+        this.cols = options.cols;
+        this.tileWidth = options.tileWidth;
+        this.tileHeight = options.tileHeight;
+        this.depth = options.depth;
+        this.layers = options.volume?.layers ?? 1;
+        this.isVolumetric = options.volume !== undefined;
+        this.isFreeForm = options.freeForm ?? false;
+        this.isDoubleSided = options.doubleSided ?? false;
+
+        this._index = new SpatialGrid(Math.max(this.tileWidth, this.tileHeight));
+        const notify = (piece: PieceState) => {
+            this._index.update(piece, piece.position.x, piece.position.y);
+            this.onPieceChanged?.(piece);
+        };
+        const cells: VolumeCell[] = options.volume?.cells ?? [];
+        if (!options.volume) {
+            for (let row = 0; row < this.rows; row++) {
+                for (let col = 0; col < this.cols; col++) {
+                    cells.push({ row, col, layer: 0, target: this._targetOf(row, col) });
+                }
+            }
+        }
+        cells.forEach((cell, index) => {
+            const piece = new PieceState(index, cell, this.isVolumetric ? 'y' : 'z', notify);
+            this.pieces.push(piece);
+            this._cells.set(this._cellKey(cell.layer, cell.row, cell.col), piece);
+            this._index.update(piece, piece.position.x, piece.position.y);
+        });
+        this.pieces.forEach(piece => this._slots.set(this._slotKey(piece.target), piece));
+    }
+
+    public get width(): number {
+        return this.tileWidth * this.cols;
+    }
+
+    public get height(): number {
+        return this.tileHeight * this.rows;
+    }
+
+    // Hauteur d'une pièce posée à plat sur la table
+    public get tableZ(): number {
+        return this.depth / 2 + 0.01;
+    }
+
+    // Distance maximale pour qu'une pièce s'emboîte : une demi-case (dans le plan),
+    // ou une demi-cellule dans sa plus petite dimension (dans l'espace, pour un puzzle en volume)
+    public get snapThreshold(): number {
+        return this.isVolumetric ? Math.min(this.tileWidth, this.tileHeight, this.depth) / 2 : this.tileWidth / 2;
+    }
+
+    public getPiece(index: number): PieceState {
+        return this.pieces[index];
+    }
+
+    // Voisins haut, bas, gauche et droite dans la grille résolue, plus devant et derrière pour un puzzle en volume
+    public getGridNeighbours(piece: PieceState): PieceState[] {
+        const neighbours: PieceState[] = [];
+        for (const [dl, dr, dc] of [[0, -1, 0], [0, 1, 0], [0, 0, -1], [0, 0, 1], [-1, 0, 0], [1, 0, 0]]) {
+            const neighbour = this._cells.get(this._cellKey(piece.layer + dl, piece.row + dr, piece.col + dc));
+            if (neighbour) neighbours.push(neighbour);
+        }
+        return neighbours;
+    }
+
+    // Déplace la pièce et tout son groupe (dans le plan, ou en 3D pour une main XR) ; sans effet sur un groupe verrouillé
+    public moveCluster(piece: PieceState, dx: number, dy: number, dz: number = 0): void {
+        if (piece.cluster.isLocked) return;
+        piece.cluster.moveBy(dx, dy, dz);
+    }
+
+    // Soulève (ou abaisse) tout le groupe de la pièce à la hauteur donnée
+    public liftCluster(piece: PieceState, z: number): void {
+        if (piece.cluster.isLocked) return;
+        piece.cluster.elevate(z);
+    }
+
+    // Tourne le groupe autour de la pièce ; renvoie false si le groupe est verrouillé
+    public rotateCluster(piece: PieceState, steps: number): boolean {
+        if (piece.cluster.isLocked) return false;
+        piece.cluster.rotateAround(piece, steps);
+        return true;
+    }
+
+    // Retourne le groupe de la pièce (face cachée ou visible) ; renvoie false s'il est verrouillé, ou pour un puzzle en volume
+    public flipCluster(piece: PieceState): boolean {
+        if (piece.cluster.isLocked || this.isVolumetric) return false;
+        piece.cluster.flipAround(piece);
+        return true;
+    }
+
+    // Pose la pièce (et son groupe) sur la table ; renvoie true si elle s'est emboîtée quelque part.
+    // Lâchée sur d'autres pièces sans s'emboîter, elle s'empile dessus.
+    // Une pièce en volume reste là où elle est lâchée, et s'emboîte d'après sa position dans l'espace.
+    // canJoin écarte des voisines (et des appuis) indisponibles : groupe tenu par un autre joueur en coopération.
+    public snap(piece: PieceState, canJoin: (neighbour: PieceState) => boolean = () => true): boolean {
+        const cluster = piece.cluster;
+        if (cluster.isLocked) return false;
+
+        // Face cachée d'un puzzle simple face : la pièce se pose sans rien emboîter
+        if (cluster.isFaceDown && !this.isDoubleSided) {
+            if (!this.isVolumetric) cluster.settle(this.getRestingZ(piece, canJoin));
+            return false;
+        }
+
+        const boardPosition = piece.boardPosition;
+        const distToSelfCorrectPos = this._distance(
+            piece.position.x - boardPosition.x,
+            piece.position.y - boardPosition.y,
+            piece.position.z - boardPosition.z
+        );
+
+        // Le groupe est près de sa position finale (à l'endroit, et sur la face déjà commencée sur le plateau) :
+        // il s'y verrouille d'un bloc. En assemblage libre, il n'y a pas de position finale : seuls les voisins comptent.
+        const boardSide = this._getBoardSide();
+        const isBoardSide = boardSide === null || boardSide === cluster.isFaceDown;
+        if (!this.isFreeForm && cluster.isUpright && isBoardSide && distToSelfCorrectPos < this.snapThreshold) {
+            cluster.lock();
+            return true;
+        }
+
+        // Sinon, il s'emboîte avec les groupes voisins bien alignés, n'importe où sur la table.
+        // Une fois calé, d'autres voisins peuvent à leur tour être alignés : on recommence.
+        let match = this._findNeighbourMatch(cluster, canJoin);
+        const snapped = match !== null;
+        while (match) {
+            cluster.moveBy(match.correction.x, match.correction.y, this.isVolumetric ? match.correction.z : 0);
+            cluster.merge(match.neighbour.cluster);
+            if (match.neighbour.isLocked) {
+                // Emboîté contre une pièce déjà en place : tout le groupe est à sa position finale
+                cluster.lock();
+                return true;
+            }
+            match = this._findNeighbourMatch(cluster, canJoin);
+        }
+
+        // Emboîté : le groupe est sur la table ; sinon il se pose sur les pièces qu'il recouvre
+        if (!this.isVolumetric) cluster.settle(snapped ? this.tableZ : this.getRestingZ(piece, canJoin));
+        return snapped;
+    }
+
+    // Hauteur où se pose le groupe de la pièce : sur la table, ou sur la plus haute des pièces qu'il recouvre
+    // en dessous de lui (sans les tenons). isSupport écarte des pièces qui ne peuvent pas servir d'appui (tenues, en mouvement).
+    // Pas de pile pour un puzzle en volume : la pièce reste à sa hauteur.
+    public getRestingZ(piece: PieceState, isSupport: (other: PieceState) => boolean = () => true): number {
+        if (this.isVolumetric) return piece.position.z;
+        let restingZ = this.tableZ;
+        for (const member of piece.cluster.pieces) {
+            for (const other of this._findOverlappingPieces(member)) {
+                if (other.cluster === piece.cluster || !isSupport(other)) continue;
+                if (other.position.z < member.position.z - this.depth / 2) restingZ = Math.max(restingZ, other.position.z + this.depth);
+            }
+        }
+        return restingZ;
+    }
+
+    // Hauteur de la plus haute pièce posée, sur la table ou sur une pile (pas celles laissées en l'air en VR)
+    public getStackTopZ(): number {
+        return this.pieces.reduce((top, piece) => this._isResting(piece) ? Math.max(top, piece.position.z) : top, this.tableZ);
+    }
+
+    // Fait descendre les pièces empilées dont l'appui a été retiré, les plus basses d'abord ;
+    // renvoie les pièces qui ont bougé. Les pièces laissées en l'air (VR) ne tombent pas.
+    public settleStacks(isSupport: (other: PieceState) => boolean = () => true): PieceState[] {
+        const stacked = this.pieces.filter(piece => !piece.isLocked && isSupport(piece)
+            && this._isResting(piece) && piece.position.z > this.tableZ + PLACEMENT_TOLERANCE);
+        const fallen: PieceState[] = [];
+        for (const piece of stacked.sort((a, b) => a.position.z - b.position.z)) {
+            const restingZ = this.getRestingZ(piece, isSupport);
+            if (restingZ >= piece.position.z - PLACEMENT_TOLERANCE) continue;
+            piece.cluster.settle(restingZ);
+            piece.cluster.pieces.forEach(member => fallen.push(member));
+        }
+        return fallen;
+    }
+
+    // Pile de la pièce : les pièces libres qui la recouvrent ou qu'elle recouvre, de proche en proche, avec leurs groupes
+    public findStack(piece: PieceState): PieceState[] {
+        const stack = new Set<PieceState>();
+        const pending = [piece];
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            if (stack.has(current) || current.isLocked) continue;
+            current.cluster.pieces.forEach(member => {
+                stack.add(member);
+                this._findOverlappingPieces(member).forEach(other => pending.push(other));
+            });
+        }
+        return Array.from(stack).sort((a, b) => a.index - b.index);
+    }
+
+    // Pièce libre la plus haute dont la case (tournée avec elle) contient le point du plan : celle du dessus d'une pile
+    public findTopPieceAt(x: number, y: number): PieceState | null {
+        let top: PieceState | null = null;
+        for (const piece of this._index.query(x, y, Math.max(this.tileWidth, this.tileHeight))) {
+            if (piece.isLocked || (top && piece.position.z <= top.position.z)) continue;
+            const half = this._getHalfFootprint(piece);
+            if (Math.abs(x - piece.position.x) <= half.x && Math.abs(y - piece.position.y) <= half.y) top = piece;
+        }
+        return top;
+    }
+
+    // Pièce libre la plus proche d'un point (main ou contrôleur XR), à moins de reach de son volume ; null si aucune.
+    // Le volume est celui de la case (sans les tenons, à plat) ou de la cellule, tourné d'un nombre entier de quarts de tour.
+    public findPieceNear(point: Point3, reach: number): PieceState | null {
+        let nearest: PieceState | null = null;
+        let nearestDistance = reach;
+        // Seules les pièces dont le centre est à portée du point, volume compris, sont examinées
+        const maxHalfSize = Math.max(this.tileWidth, this.tileHeight, this.depth) / 2;
+        for (const piece of this._index.query(point.x, point.y, reach + maxHalfSize)) {
+            if (piece.isLocked) continue;
+            const isTurned = piece.rotationSteps % 2 !== 0;
+            const half = { x: this.tileWidth / 2, y: this.tileHeight / 2, z: this.depth / 2 };
+            if (isTurned && piece.rotationAxis === 'z') [half.x, half.y] = [half.y, half.x];
+            if (isTurned && piece.rotationAxis === 'y') [half.x, half.z] = [half.z, half.x];
+            const distance = Math.hypot(
+                Math.max(Math.abs(point.x - piece.position.x) - half.x, 0),
+                Math.max(Math.abs(point.y - piece.position.y) - half.y, 0),
+                Math.max(Math.abs(point.z - piece.position.z) - half.z, 0)
+            );
+            if (distance < nearestDistance) {
+                nearest = piece;
+                nearestDistance = distance;
+            }
+        }
+        return nearest;
+    }
+
+    // Pièces libres dont le centre est dans le rectangle donné du plan (x, y) : sélection au lasso
+    public findLoosePiecesInArea(minX: number, minY: number, maxX: number, maxY: number): PieceState[] {
+        return this._index.queryArea(minX, minY, maxX, maxY).filter(piece => !piece.isLocked
+            && piece.position.x >= minX && piece.position.x <= maxX
+            && piece.position.y >= minY && piece.position.y <= maxY);
+    }
+
+    // Le puzzle est résolu quand toutes les pièces sont verrouillées, à l'endroit et à leur place ; en assemblage libre,
+    // quand chaque pièce est à sa place par rapport à ses voisines (même orientation, décalage conforme à la grille).
+    // Toutes face visible, ou pour un puzzle double face toutes sur la même face.
+    public getStatus(): PuzzleStatus {
+        const isRightSide = (piece: PieceState) => this.isDoubleSided ? piece.isFaceDown === this.pieces[0].isFaceDown : !piece.isFaceDown;
+        if (this.isFreeForm) {
+            const isAssembled = this.pieces.every(piece => isRightSide(piece)
+                && this.getGridNeighbours(piece).every(neighbour => this._isPlacedRelativeTo(neighbour, piece)));
+            return isAssembled ? 'solved' : 'playing';
+        }
+        if (!this.pieces.every(piece => piece.isLocked)) return 'playing';
+        const allPiecesAreInCorrectPosition = this.pieces.every(piece => {
+            const boardPosition = piece.boardPosition;
+            return piece.isUpright && isRightSide(piece)
+                && Math.abs(piece.position.x - boardPosition.x) < 0.001
+                && Math.abs(piece.position.y - boardPosition.y) < 0.001
+                && Math.abs(piece.position.z - boardPosition.z) < 0.001;
+        });
+        return allPiecesAreInCorrectPosition ? 'solved' : 'lockedWrong';
+    }
+
+    // Pièces déjà assemblées : verrouillées sur le plateau, ou en assemblage libre celles du plus grand groupe
+    // (aucune tant que deux pièces ne sont pas emboîtées)
+    public findAssembledPieces(): Set<PieceState> {
+        return this._getAssemblyFrame()?.pieces ?? new Set();
+    }
+
+    // Emplacement de la pièce dans l'assemblage (sa case du plateau, ou sa place par rapport au plus grand groupe) ;
+    // null en assemblage libre tant que rien n'est assemblé
+    public getAssemblySlot(piece: PieceState): AssemblySlot | null {
+        const frame = this._getAssemblyFrame();
+        if (!frame) return null;
+        return { position: this._toAssembly(frame, piece.target), rotationSteps: frame.reference?.rotationSteps ?? 0, isFaceDown: frame.isFaceDown };
+    }
+
+    // Pièces posées dans une case voisine de l'assemblage (ou sur l'assemblage) qui ne sont pas la leur, ou qui y sont
+    // mal orientées ou sur la mauvaise face : une erreur à corriger, signalée au joueur. Une pièce verrouillée hors de sa place
+    // (sauvegarde ou session incohérente) en fait partie. Les pièces en l'air ne sont pas encore posées.
+    public findMisplacedPieces(): PieceState[] {
+        const frame = this._getAssemblyFrame();
+        if (!frame) return [];
+        const rotationSteps = frame.reference?.rotationSteps ?? 0;
+        return this.pieces.filter(piece => {
+            if (frame.pieces.has(piece)) return false;
+            if (piece.isLocked) return true;
+            if (!this.isVolumetric && Math.abs(piece.position.z - this.tableZ) > PLACEMENT_TOLERANCE) return false;
+            const point = this._fromAssembly(frame, piece.position);
+            const slot = this._slots.get(this._slotKey(point));
+            if (!slot || this._distance(point.x - slot.target.x, point.y - slot.target.y, point.z - slot.target.z) >= this.snapThreshold) return false;
+            const isNextToAssembly = frame.pieces.has(slot) || this.getGridNeighbours(slot).some(neighbour => frame.pieces.has(neighbour));
+            return isNextToAssembly && (slot !== piece || piece.rotationSteps !== rotationSteps || piece.isFaceDown !== frame.isFaceDown);
+        });
+    }
+
+    // Déverrouille toutes les pièces et défait les groupes, sans les déplacer
+    public reset(): void {
+        this.pieces.forEach(piece => piece.reset());
+    }
+
+    // Éparpille les pièces autour du plateau (ou de part et d'autre de l'objet), à portée de main en VR
+    public shuffle(options: ShuffleOptions): void {
+        const random = options.random ?? Math.random;
+        if (this.isVolumetric) {
+            this._scatterAroundObject(random, options.rotation);
+            return;
+        }
+        const spreadRadiusX = this.width * 1.5;
+        const spreadRadiusY = this.height * 1.5;
+        const spreadRadiusZ = 1; // Réduit pour VR
+
+        this.pieces.forEach(piece => {
+            piece.reset();
+            const randomX = (random() - 0.5) * spreadRadiusX;
+            const randomY = (random() - 0.5) * spreadRadiusY;
+            const randomZ = (random() - 0.5) * spreadRadiusZ + 1; // Élevé pour être à portée en VR
+            piece.setPosition(randomX, randomY, randomZ);
+            piece.setRotation(options.rotation ? Math.floor(random() * 4) : 0);
+            piece.setFaceDown(options.faceDown === true && random() < 0.5);
+        });
+    }
+
+    // Une pièce libre voisine d'une pièce déjà en place (ou assemblée), ou un coin si rien n'est encore en place
+    public findFittingPiece(random: RandomGenerator = Math.random): PieceState | null {
+        const assembled = this.findAssembledPieces();
+        const candidates = this.pieces.filter(piece =>
+            !assembled.has(piece) && this.getGridNeighbours(piece).some(neighbour => assembled.has(neighbour)));
+        if (candidates.length > 0) return candidates[Math.floor(random() * candidates.length)];
+
+        const corner = this.pieces.find(piece => !assembled.has(piece)
+            && (piece.row === 0 || piece.row === this.rows - 1)
+            && (piece.col === 0 || piece.col === this.cols - 1));
+        // Objet en volume : ses coins peuvent être vides, n'importe quelle pièce libre fait l'affaire
+        return corner ?? (this.isVolumetric ? this.pieces.find(piece => !assembled.has(piece)) ?? null : null);
+    }
+
+    // État de chaque pièce ; un groupe est identifié par le plus petit index de ses pièces,
+    // ce qui garde le même identifiant d'un instantané à l'autre tant que le groupe ne change pas.
+    public captureState(): SavedPiece[] {
+        const clusterIds = new Map<PieceCluster, number>();
+        return this.pieces.map(piece => {
+            if (!clusterIds.has(piece.cluster)) {
+                clusterIds.set(piece.cluster, Math.min(...Array.from(piece.cluster.pieces, member => member.index)));
+            }
+            return {
+                index: piece.index,
+                position: [piece.position.x, piece.position.y, piece.position.z],
+                locked: piece.isLocked,
+                rotation: piece.rotationSteps,
+                faceDown: piece.isFaceDown,
+                cluster: clusterIds.get(piece.cluster)!
+            };
+        });
+    }
+
+    // Replace les pièces dans l'état décrit (sauvegarde, annuler / rétablir)
+    public applyState(states: SavedPiece[]): void {
+        for (const saved of states) {
+            const piece = this.pieces[saved.index];
+            piece.reset();
+            piece.setRotation(saved.rotation);
+            piece.setFaceDown(saved.faceDown === true);
+            piece.setPosition(saved.position[0], saved.position[1], saved.position[2]);
+            if (saved.locked) piece.lockInPlace();
+        }
+
+        // Recréer les groupes de pièces emboîtées
+        const clusters = new Map<number, PieceCluster>();
+        for (const saved of states) {
+            const piece = this.pieces[saved.index];
+            const cluster = clusters.get(saved.cluster);
+            if (cluster) {
+                cluster.merge(piece.cluster);
+            } else {
+                clusters.set(saved.cluster, piece.cluster);
+            }
+        }
+    }
+
+    // Repère main gauche : vue depuis la caméra, la colonne 0 (gauche de l'image) est du côté des x positifs
+    private _targetOf(row: number, col: number): Point3 {
+        const invCol = this.cols - 1 - col;
+        return {
+            x: (invCol * this.tileWidth) + (this.tileWidth / 2) - (this.width / 2),
+            y: -((row * this.tileHeight) + (this.tileHeight / 2) - (this.height / 2)),
+            z: this.tableZ
+        };
+    }
+
+    private _cellKey(layer: number, row: number, col: number): string {
+        return `${layer}:${row}:${col}`;
+    }
+
+    // Case (dans le repère des cibles) la plus proche d'un point : les cibles forment une grille régulière,
+    // repérée à partir de celle de la première pièce
+    private _slotKey(point: Point3): string {
+        const origin = this.pieces[0].target;
+        const i = Math.round((point.x - origin.x) / this.tileWidth);
+        const j = Math.round((point.y - origin.y) / this.tileHeight);
+        const k = this.isVolumetric ? Math.round((point.z - origin.z) / this.depth) : 0;
+        return `${i}:${j}:${k}`;
+    }
+
+    private _getAssemblyFrame(): AssemblyFrame | null {
+        if (!this.isFreeForm) {
+            const isFaceDown = this._getBoardSide() ?? false;
+            return {
+                reference: null,
+                isFaceDown,
+                pieces: new Set(this.pieces.filter(piece => piece.isLocked && piece.isUpright && piece.isFaceDown === isFaceDown))
+            };
+        }
+        let largest: PieceCluster | null = null;
+        for (const piece of this.pieces) {
+            if (!largest || piece.cluster.size > largest.size) largest = piece.cluster;
+        }
+        if (!largest || largest.size < 2) return null;
+        const cluster = largest;
+        return { reference: this.pieces.find(piece => piece.cluster === cluster)!, isFaceDown: cluster.isFaceDown, pieces: new Set(cluster.pieces) };
+    }
+
+    // Face montée sur le plateau : celle des pièces déjà verrouillées, ou null si aucune ne l'est
+    private _getBoardSide(): boolean | null {
+        return this.pieces.find(piece => piece.isLocked)?.isFaceDown ?? null;
+    }
+
+    // Position dans la scène d'un point du repère des cibles (la cible d'une pièce : sa place dans l'assemblage)
+    private _toAssembly(frame: AssemblyFrame, point: Point3): Point3 {
+        const reference = frame.reference;
+        if (!reference) return frame.isFaceDown ? { x: -point.x, y: point.y, z: point.z } : { ...point };
+        const offset = orientOffset({
+            x: point.x - reference.target.x,
+            y: point.y - reference.target.y,
+            z: point.z - reference.target.z
+        }, reference.rotationSteps, reference.rotationAxis, reference.isFaceDown);
+        return { x: reference.position.x + offset.x, y: reference.position.y + offset.y, z: reference.position.z + offset.z };
+    }
+
+    // Inverse de _toAssembly : point du repère des cibles correspondant à une position dans la scène
+    private _fromAssembly(frame: AssemblyFrame, position: Point3): Point3 {
+        const reference = frame.reference;
+        if (!reference) return frame.isFaceDown ? { x: -position.x, y: position.y, z: position.z } : { ...position };
+        const offset = unorientOffset({
+            x: position.x - reference.position.x,
+            y: position.y - reference.position.y,
+            z: position.z - reference.position.z
+        }, reference.rotationSteps, reference.rotationAxis, reference.isFaceDown);
+        return { x: reference.target.x + offset.x, y: reference.target.y + offset.y, z: reference.target.z + offset.z };
+    }
+
+    // La pièce est à sa place par rapport à la pièce de référence : même orientation et même face, décalage conforme à la grille
+    private _isPlacedRelativeTo(piece: PieceState, reference: PieceState): boolean {
+        if (piece.rotationSteps !== reference.rotationSteps || piece.isFaceDown !== reference.isFaceDown) return false;
+        const offset = orientOffset({
+            x: piece.target.x - reference.target.x,
+            y: piece.target.y - reference.target.y,
+            z: piece.target.z - reference.target.z
+        }, reference.rotationSteps, reference.rotationAxis, reference.isFaceDown);
+        return Math.abs(piece.position.x - reference.position.x - offset.x) < PLACEMENT_TOLERANCE
+            && Math.abs(piece.position.y - reference.position.y - offset.y) < PLACEMENT_TOLERANCE
+            && Math.abs(piece.position.z - reference.position.z - offset.z) < PLACEMENT_TOLERANCE;
+    }
+
+    // Demi-côtés de la case de la pièce dans le plan de la table, selon son orientation
+    private _getHalfFootprint(piece: PieceState): { x: number, y: number } {
+        const isTurned = piece.rotationSteps % 2 !== 0;
+        return isTurned ? { x: this.tileHeight / 2, y: this.tileWidth / 2 } : { x: this.tileWidth / 2, y: this.tileHeight / 2 };
+    }
+
+    // Pièces dont la case chevauche celle de la pièce dans le plan de la table (deux pièces emboîtées se touchent sans se chevaucher)
+    private _findOverlappingPieces(piece: PieceState): PieceState[] {
+        const half = this._getHalfFootprint(piece);
+        return this._index.query(piece.position.x, piece.position.y, Math.max(this.tileWidth, this.tileHeight)).filter(other => {
+            if (other === piece) return false;
+            const otherHalf = this._getHalfFootprint(other);
+            return Math.abs(other.position.x - piece.position.x) < half.x + otherHalf.x - PLACEMENT_TOLERANCE
+                && Math.abs(other.position.y - piece.position.y) < half.y + otherHalf.y - PLACEMENT_TOLERANCE;
+        });
+    }
+
+    // Pièce posée sur la table ou sur une pile : sa hauteur est un nombre entier d'épaisseurs au-dessus de la table
+    private _isResting(piece: PieceState): boolean {
+        const level = (piece.position.z - this.tableZ) / this.depth;
+        return !this.isVolumetric && level > -PLACEMENT_TOLERANCE && Math.abs(level - Math.round(level)) < PLACEMENT_TOLERANCE;
+    }
+
+    // Écart à prendre en compte pour l'emboîtement : dans le plan de la table, ou dans l'espace pour un puzzle en volume
+    private _distance(dx: number, dy: number, dz: number): number {
+        return this.isVolumetric ? Math.hypot(dx, dy, dz) : Math.hypot(dx, dy);
+    }
+
+    // Pièces en volume : à gauche et à droite de l'objet (sans le chevaucher), à hauteur et profondeur variables
+    private _scatterAroundObject(random: RandomGenerator, rotation: boolean): void {
+        const objectDepth = this.depth * this.layers;
+        this.pieces.forEach(piece => {
+            piece.reset();
+            const side = random() < 0.5 ? -1 : 1;
+            const randomX = side * (this.width * (0.75 + random() * 0.75));
+            const randomY = (random() - 0.5) * this.height * 1.5;
+            const randomZ = (random() - 0.5) * objectDepth * 1.5;
+            piece.setPosition(randomX, randomY, randomZ);
+            piece.setRotation(rotation ? Math.floor(random() * 4) : 0);
+        });
+    }
+
+    // Cherche, autour des pièces du groupe, le voisin de grille (hors groupe) le mieux aligné :
+    // même orientation, même face et décalage conforme à la grille, à moins de snapThreshold près.
+    private _findNeighbourMatch(cluster: PieceCluster, canJoin: (neighbour: PieceState) => boolean): { neighbour: PieceState, correction: Point3 } | null {
+        let best: { neighbour: PieceState, correction: Point3 } | null = null;
+        let bestDistance = this.snapThreshold;
+
+        for (const piece of cluster.pieces) {
+            for (const neighbour of this.getGridNeighbours(piece)) {
+                if (neighbour.cluster === cluster || neighbour.rotationSteps !== piece.rotationSteps || neighbour.isFaceDown !== piece.isFaceDown
+                    || !canJoin(neighbour)) continue;
+
+                const offset = orientOffset({
+                    x: neighbour.target.x - piece.target.x,
+                    y: neighbour.target.y - piece.target.y,
+                    z: neighbour.target.z - piece.target.z
+                }, piece.rotationSteps, piece.rotationAxis, piece.isFaceDown);
+                const correction = {
+                    x: neighbour.position.x - (piece.position.x + offset.x),
+                    y: neighbour.position.y - (piece.position.y + offset.y),
+                    z: neighbour.position.z - (piece.position.z + offset.z)
+                };
+                const distance = this._distance(correction.x, correction.y, correction.z);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    best = { neighbour, correction };
+                }
+            }
+        }
+        return best;
+    }
+}
@@ -0,0 +1,53 @@
+// src/puzzlePack.test.ts
+import { describe, it, expect } from 'vitest';
+import { parsePuzzlePack, validatePuzzlePack, getLevelChallenge } from './puzzlePack';
+import decouverte from './assets/packs/decouverte.json';
+
+const MANIFEST = {
+    version: 1,
+    id: 'animaux',
+    title: 'Animaux',
+    puzzles: [
+        { id: 'chat', title: 'Le chat', image: 'https://example.com/chat.jpg', rows: 3, cols: 4 },
+        { id: 'hibou', image: 'data:image/png;base64,AAAA', rows: 5, cols: 5, rotation: true, seed: 42 }
+    ]
+};
+
+describe('packs de puzzles', () => {
+    it('lit un manifeste, avec des options désactivées par défaut', () => {
+        const pack = parsePuzzlePack(JSON.stringify(MANIFEST));
+        expect(pack.id).toBe('animaux');
+        expect(pack.levels.map(level => level.title)).toEqual(['Le chat', 'Puzzle 2']);
+        expect(pack.levels[0]).toMatchObject({ rows: 3, cols: 4, rotation: false, freeForm: false, faceDown: false });
+        expect(pack.levels[1]).toMatchObject({ rotation: true, seed: 42 });
+    });
+
+    it('refuse un manifeste invalide', () => {
+        const withPuzzle = (puzzle: object) => ({ ...MANIFEST, puzzles: [{ ...MANIFEST.puzzles[0], ...puzzle }] });
+        expect(() => parsePuzzlePack('{ pas du json')).toThrow('JSON invalide');
+        expect(() => validatePuzzlePack({ ...MANIFEST, version: 2 })).toThrow('Version');
+        expect(() => validatePuzzlePack({ ...MANIFEST, puzzles: [] })).toThrow('aucun puzzle');
+        expect(() => validatePuzzlePack([MANIFEST])).toThrow('Pack de puzzles invalide');
+        expect(() => validatePuzzlePack({ ...MANIFEST, puzzles: ['chat.jpg'] })).toThrow('mal formé');
+        expect(() => validatePuzzlePack(withPuzzle({ rows: '4' }))).toThrow('grille');
+        expect(() => validatePuzzlePack({ ...MANIFEST, puzzles: [MANIFEST.puzzles[0], MANIFEST.puzzles[0]] })).toThrow('identifiant unique');
+        expect(() => validatePuzzlePack(withPuzzle({ rows: 1 }))).toThrow('grille');
+        expect(() => validatePuzzlePack(withPuzzle({ seed: -1 }))).toThrow('graine');
+        expect(() => validatePuzzlePack(withPuzzle({ backImage: 'dos.jpg' }))).toThrow('dos');
+    });
+
+    it("résout les images : URL en ligne pour un fichier local, noms connus pour un pack intégré", () => {
+        expect(() => validatePuzzlePack({ ...MANIFEST, puzzles: [{ ...MANIFEST.puzzles[0], image: 'chat.jpg' }] })).toThrow('image');
+        const pack = validatePuzzlePack(decouverte, name => name === 'puzzle.jpg' ? '/assets/puzzle.jpg' : null);
+        expect(pack.levels.length).toBeGreaterThan(1);
+        expect(pack.levels.every(level => level.image === '/assets/puzzle.jpg')).toBe(true);
+    });
+
+    it("donne à chaque niveau le même défi d'une partie à l'autre", () => {
+        const pack = validatePuzzlePack(MANIFEST);
+        const [chat, hibou] = pack.levels;
+        expect(getLevelChallenge(pack, chat)).toEqual(getLevelChallenge(validatePuzzlePack(MANIFEST), chat));
+        expect(getLevelChallenge(pack, chat).seed).not.toBe(getLevelChallenge({ ...pack, id: 'autre' }, chat).seed);
+        expect(getLevelChallenge(pack, hibou)).toMatchObject({ seed: 42, rows: 5, cols: 5, rotation: true, image: hibou.image });
+    });
+});
@@ -0,0 +1,119 @@
+// src/puzzlePack.ts
+// Packs de puzzles : un manifeste JSON liste des niveaux (image, grille, options), joués dans l'ordre.
+// Les packs intégrés sont sous src/assets/packs ; un pack peut aussi être chargé depuis un fichier local.
+import type { Challenge } from './challenge';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from './newGameDialog';
+import { hashString } from './random';
+
+export const PACK_FORMAT_VERSION = 1;
+
+export interface PackLevel {
+    id: string;             // Identifiant stable dans le pack : la progression y est rattachée
+    title: string;
+    image: string;          // URL de l'image (après résolution des noms d'images intégrées)
+    rows: number;
+    cols: number;
+    backImage?: string;     // Puzzle double face
+    rotation: boolean;
+    freeForm: boolean;
+    faceDown: boolean;
+    seed?: number;          // Sans graine : tirée des identifiants, la même à chaque partie du niveau
+}
+
+export interface PuzzlePack {
+    id: string;
+    title: string;
+    levels: PackLevel[];
+}
+
+export type ImageResolver = (reference: string) => string | null;
+
+// Lit un manifeste JSON de pack (voir validatePuzzlePack)
+export function parsePuzzlePack(json: string, resolveImage: ImageResolver = resolveExternalImage): PuzzlePack {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Pack de puzzles illisible (JSON invalide).");
+    }
+    return validatePuzzlePack(data, resolveImage);
+}
+
+// Valide un manifeste de pack. resolveImage traduit une référence d'image du manifeste en URL chargeable
+// (null si elle est introuvable) : noms des images intégrées, ou URL telles quelles pour un fichier local.
+export function validatePuzzlePack(manifest: unknown, resolveImage: ImageResolver = resolveExternalImage): PuzzlePack {
+    if (!isRecord(manifest)) throw new Error("Pack de puzzles invalide.");
+    if (manifest.version !== PACK_FORMAT_VERSION) throw new Error(`Version de pack non prise en charge : ${manifest.version}.`);
+    const { id, title, puzzles } = manifest;
+    if (!isNonEmptyString(id) || !isNonEmptyString(title)) throw new Error("Pack invalide : identifiant ou titre manquant.");
+    if (!Array.isArray(puzzles) || puzzles.length === 0) throw new Error("Pack invalide : aucun puzzle.");
+
+    const ids = new Set<string>();
+    const levels = puzzles.map((puzzle: unknown, index: number): PackLevel => {
+        const name = `Puzzle ${index + 1}`;
+        if (!isRecord(puzzle)) throw new Error(`Pack invalide : ${name} mal formé.`);
+        if (!isNonEmptyString(puzzle.id) || ids.has(puzzle.id)) throw new Error(`Pack invalide : ${name} sans identifiant unique.`);
+        ids.add(puzzle.id);
+        const { rows, cols, seed } = puzzle;
+        if (!isGridSize(rows) || !isGridSize(cols)) {
+            throw new Error(`Pack invalide : grille du ${name.toLowerCase()} incorrecte (de ${MIN_GRID_SIZE} à ${MAX_GRID_SIZE}).`);
+        }
+        const image = isNonEmptyString(puzzle.image) ? resolveImage(puzzle.image) : null;
+        if (image === null) throw new Error(`Pack invalide : image du ${name.toLowerCase()} introuvable.`);
+        const backImage = puzzle.backImage === undefined ? undefined : isNonEmptyString(puzzle.backImage) ? resolveImage(puzzle.backImage) : null;
+        if (backImage === null) throw new Error(`Pack invalide : image du dos du ${name.toLowerCase()} introuvable.`);
+        if (seed !== undefined && !isSeed(seed)) throw new Error(`Pack invalide : graine du ${name.toLowerCase()} incorrecte.`);
+        return {
+            id: puzzle.id,
+            title: isNonEmptyString(puzzle.title) ? puzzle.title : name,
+            image,
+            rows,
+            cols,
+            backImage,
+            rotation: puzzle.rotation === true,
+            freeForm: puzzle.freeForm === true,
+            faceDown: puzzle.faceDown === true,
+            seed
+        };
+    });
+    return { id, title, levels };
+}
+
+// Pack chargé depuis un fichier : ses images doivent être en ligne (ou intégrées en data URL)
+export async function readPuzzlePackFile(file: File): Promise<PuzzlePack> {
+    return parsePuzzlePack(await file.text());
+}
+
+// Défi d'un niveau : mêmes découpe et mélange à chaque partie, donc des meilleurs temps comparables
+export function getLevelChallenge(pack: PuzzlePack, level: PackLevel): Challenge {
+    return {
+        seed: level.seed ?? hashString(`${pack.id}/${level.id}`),
+        rows: level.rows,
+        cols: level.cols,
+        image: level.image,
+        backImage: level.backImage,
+        rotation: level.rotation,
+        freeForm: level.freeForm,
+        faceDown: level.faceDown
+    };
+}
+
+function resolveExternalImage(reference: string): string | null {
+    return /^(https?:|data:image\/)/i.test(reference) ? reference : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isGridSize(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= MIN_GRID_SIZE && value <= MAX_GRID_SIZE;
+}
+
+function isSeed(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xFFFFFFFF;
+}
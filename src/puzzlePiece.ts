@@ -1,155 +1,199 @@
 // src/puzzlePiece.ts (Rappel et Ajustement mineur)
-import { Mesh, Texture, StandardMaterial, Scene, Vector3, MeshBuilder, Color3, Vector4 } from '@babylonjs/core';
+import { AbstractMesh, Mesh, InstancedMesh, MultiMaterial, Scene, Vector3, Color3, Color4, VertexData, VertexBuffer, SubMesh } from '@babylonjs/core';
+import type { GeometryPart, VolumeSlice } from './meshSlicer';
+import type { PieceMeshFactory } from './pieceMeshFactory';
+import type { PieceState } from './puzzleModel';
+
+const LOCKED_OVERLAY_ALPHA = 0.15; // Teinte verte des pièces en volume verrouillées (leurs matériaux sont partagés)
+const LOCKED_TINT = new Color4(0.85, 1, 0.85, 1); // Pièce d'image verrouillée : légèrement verte
+const HELD_TINT_STRENGTH = 0.5;    // Pièce tenue par un autre joueur : mélange de l'image et de sa couleur
+const SELECTED_TINT = new Color4(0.7, 0.85, 1, 1); // Pièce d'image sélectionnée au lasso : légèrement bleue
+const SELECTED_OUTLINE = new Color3(0.3, 0.6, 1);  // Pièce en volume sélectionnée : contour bleu
+const MISPLACED_TINT = new Color4(1, 0.55, 0.55, 1); // Pièce mal placée : rouge, jusqu'à ce qu'elle soit corrigée
+const MISPLACED_OUTLINE = new Color3(1, 0.2, 0.2);
+const HIGH_CONTRAST_OUTLINE = Color3.Black();        // Pièce en volume en mode contrasté (les pièces d'image : voir PieceMeshFactory)
 
 export class PuzzlePiece {
-    public mesh: Mesh;
-    public originalPosition: Vector3;   // La position correcte de la pièce
-    public currentPosition: Vector3;    // La position actuelle de la pièce
-    public originalIndex: number;      // L'index de la pièce dans la grille résolue
-    public isLocked: boolean = false;   // Indique si la pièce est à sa place
-
-    // Propriétés de grille (rendues publiques ou utilisées pour des méthodes)
-    public readonly row: number; // Position correcte de la pièce dans la grille (ligne)
-    public readonly col: number; // Position correcte de la pièce dans la grille (colonne)
-
-    private _scene: Scene;
-    private _tileWidth: number;
-    private _tileHeight: number;
-    private _depth: number;
-    private _snapMargin: number = 0.05; // Note: Utilisé uniquement dans checkAndLock de cette classe. Game.ts a son propre seuil.
-
-    // NOUVELLES PROPRIÉTÉS POUR LE CALCUL DES UVS (maintenant stockées comme 'row' et 'col')
-    private _totalRows: number;
-    private _totalCols: number;
-
-
-    constructor(
-        name: string,
-        scene: Scene,
-        imageTexture: Texture,
-        row: number,            // <-- NOUVEAU : Index de la ligne de la pièce (0 à totalRows-1)
-        col: number,            // <-- NOUVEAU : Index de la colonne de la pièce (0 à totalCols-1)
-        totalRows: number,      // <-- NOUVEAU : Nombre total de lignes dans le puzzle
-        totalCols: number,      // <-- NOUVEAU : Nombre total de colonnes dans le puzzle
-        babylonTileWidth: number,    // Largeur de la pièce en unité Babylon (calculée dans Game.ts)
-        babylonTileHeight: number,   // Hauteur de la pièce en unité Babylon (calculée dans Game.ts)
-        pieceIndex: number,
-        depth: number = 0.1 // Épaisseur par défaut pour la 3D
-    ) {
-        this._scene = scene;
-        this._tileWidth = babylonTileWidth;
-        this._tileHeight = babylonTileHeight;
-        this._depth = depth;
-        this.originalIndex = pieceIndex;
-
-        // Stocker les infos de grille pour le calcul des UVs et la position originale
-        this.row = row; // Rendre public ou utiliser des accesseurs si Game.ts en a besoin
-        this.col = col; // Rendre public ou utiliser des accesseurs si Game.ts en a besoin
-        this._totalRows = totalRows;
-        this._totalCols = totalCols;
-
-        this.mesh = MeshBuilder.CreateBox(name, {
-            width: this._tileWidth,
-            height: this._tileHeight,
-            depth: this._depth,
-            faceUV: this.getFaceUVs()
-        }, scene);
-
-        // Calcul de la position originale en unités Babylon.js
-        const totalPuzzleWidth = this._tileWidth * this._totalCols;
-        const totalPuzzleHeight = this._tileHeight * this._totalRows;
-
-        const invCol = this._totalCols - 1 - this.col;  // si nécessaire
-
-        const originalX = (invCol * this._tileWidth) + (this._tileWidth / 2) - (totalPuzzleWidth / 2);
-        const originalY = -((this.row * this._tileHeight) + (this._tileHeight / 2) - (totalPuzzleHeight / 2));
-     
-        const originalZ = 0;
-
-        this.originalPosition = new Vector3(originalX, originalY, originalZ);
-        this.currentPosition = new Vector3(originalX, originalY, originalZ); // Initialize currentPosition
-
-        const material = new StandardMaterial(name + "Mat", scene);
-        material.diffuseTexture = imageTexture;
-        material.specularColor = new Color3(0.1, 0.1, 0.1);
-        material.freeze();
-
-        this.mesh.material = material;
-        this.mesh.position = this.currentPosition.clone(); // Set mesh position on creation
+    public mesh: AbstractMesh;          // Instance de la forme de la pièce (image), ou mesh propre (objet en volume)
+    public readonly state: PieceState;  // État de la pièce dans le modèle (position, orientation, verrou, groupe)
+
+    private _isLockedShown: boolean = false;
+    private _heldColor: Color3 | null = null;
+    private _isSelected: boolean = false;
+    private _isMisplaced: boolean = false;
+    private _isHighContrast: boolean = false;
+    private _flip: { angle: number, offsetX: number, lift: number } | null = null; // Retournement en cours d'animation
+
+    // Pièce d'un puzzle d'image : contour extrudé, face avant texturée par l'image (voir pieceMeshFactory.ts)
+    public static fromImage(name: string, meshes: PieceMeshFactory, state: PieceState): PuzzlePiece {
+        return new PuzzlePiece(meshes.createInstance(name, state.row, state.col), state);
+    }
+
+    // Pièce d'un puzzle en volume : morceau de l'objet découpé (voir meshSlicer.ts), avec les matériaux du modèle.
+    // Le matériau de la pièce ne fait que regrouper ceux du modèle : le verrouillage se montre par une teinte.
+    public static fromSlice(name: string, scene: Scene, slice: VolumeSlice, state: PieceState, material: MultiMaterial): PuzzlePiece {
+        const mesh = createPartsMesh(name, scene, slice.parts);
+        mesh.material = material;
+        mesh.overlayColor = Color3.Green();
+        mesh.overlayAlpha = LOCKED_OVERLAY_ALPHA;
+        return new PuzzlePiece(mesh, state);
+    }
+
+    private constructor(mesh: AbstractMesh, state: PieceState) {
+        this.mesh = mesh;
+        this.state = state;
         this.mesh.isPickable = true;
         this.mesh.metadata = { isPuzzlePiece: true, piece: this };
+        this.sync();
     }
 
-    private getFaceUVs(): Vector4[] {
-        const uMin = this.col / this._totalCols;
-        const uMax = (this.col + 1) / this._totalCols;
-        const vMin = 1 - (this.row + 1) / this._totalRows;
-        const vMax = 1 - this.row / this._totalRows;
+    public get row(): number {
+        return this.state.row;
+    }
 
-        const uvImage = new Vector4(uMax, vMax, uMin, vMin);
-        const uvSide = new Vector4(0, 0, 0, 0);
+    public get col(): number {
+        return this.state.col;
+    }
 
-        return [
-            uvImage, // Face avant (index 0)
-            uvSide,  // Face arrière (index 1)
-            uvSide,  // Face supérieure (index 2)
-            uvSide,  // Face inférieure (index 3)
-            uvSide,  // Face droite (index 4)
-            uvSide   // Face gauche (index 5)
-        ];
+    public get originalIndex(): number {
+        return this.state.index;
     }
 
-    public setPosition(x: number, y: number, z: number): void {
-        this.currentPosition.set(x, y, z);
-        this.mesh.position.set(x, y, z);
+    public get isLocked(): boolean {
+        return this.state.isLocked;
     }
 
-    // Cette méthode est spécifique pour snaper la pièce à SA propre position finale
-    // Elle ne gère pas le snapping aux voisins.
-    public checkAndLock(): boolean {
-        if (this.isLocked) return true;
+    public get rotationSteps(): number {
+        return this.state.rotationSteps;
+    }
+
+    // La position correcte de la pièce, posée sur le plateau (ou dans l'objet reconstitué)
+    public get originalPosition(): Vector3 {
+        return new Vector3(this.state.target.x, this.state.target.y, this.state.target.z);
+    }
 
-        const distanceXY = Math.sqrt(
-            Math.pow(this.currentPosition.x - this.originalPosition.x, 2) +
-            Math.pow(this.currentPosition.y - this.originalPosition.y, 2)
-        );
+    // Recopie l'état du modèle sur le mesh (appelé à chaque changement de la pièce)
+    public sync(): void {
+        const { position, rotationSteps, isLocked, isFaceDown } = this.state;
+        this.showTransform(position.x, position.y, position.z, rotationSteps, isLocked, isFaceDown);
+    }
 
-        // Utilisez _snapMargin pour un snap très précis à sa propre position
-        if (distanceXY <= this._snapMargin) {
-            this.setPosition(this.originalPosition.x, this.originalPosition.y, this.originalPosition.z + this._depth / 2 + 0.01);
-            this.isLocked = true;
-            (this.mesh.material as StandardMaterial).emissiveColor = Color3.Green().scale(0.1);
-            this.mesh.isPickable = false;
-            return true;
+    // Affiche une position et un état donnés, sans toucher au modèle (relecture d'un enregistrement).
+    // Face cachée : demi-tour autour de y, appliqué après le quart de tour dans le plan (d'où son sens inversé)
+    public showTransform(x: number, y: number, z: number, rotationSteps: number, isLocked: boolean, isFaceDown: boolean = false): void {
+        this.mesh.position.set(x, y, z);
+        if (this.state.rotationAxis === 'z') {
+            this.mesh.rotation.z = (isFaceDown ? -rotationSteps : rotationSteps) * Math.PI / 2;
+            this.mesh.rotation.y = isFaceDown ? Math.PI : 0;
+        } else {
+            this.mesh.rotation.y = rotationSteps * Math.PI / 2;
+        }
+        if (this._flip) {
+            // Pièce montrée en cours de retournement autour de l'axe y du pivot, soulevée pour ne pas traverser la table
+            const { angle, offsetX, lift } = this._flip;
+            this.mesh.position.x = x - offsetX + offsetX * Math.cos(angle);
+            this.mesh.position.z = z + Math.abs(offsetX * Math.sin(angle)) + lift * Math.sin(Math.abs(angle));
+            this.mesh.rotation.y += angle;
+        }
+        if (isLocked !== this._isLockedShown) {
+            this._isLockedShown = isLocked;
+            this.mesh.isPickable = !isLocked;
+            this._updateTint();
         }
-        return false;
     }
 
-    // Nouvelle méthode pour snaper directement à la position originale
-    public snapToOriginalPosition(): void {
-        this.setPosition(this.originalPosition.x, this.originalPosition.y, this.originalPosition.z + this._depth / 2 + 0.01);
-        this.isLocked = true;
-        (this.mesh.material as StandardMaterial).emissiveColor = Color3.Green().scale(0.1);
-        this.mesh.isPickable = false;
+    // Étape de l'animation de retournement : la pièce, déjà retournée dans le modèle, est montrée tournée de angle
+    // autour de l'axe y du pivot, à offsetX de la pièce (pi : encore sur l'ancienne face, 0 : retournement terminé).
+    // Le décalage est relatif : le groupe peut être déplacé pendant l'animation.
+    public showFlip(angle: number, offsetX: number, lift: number): void {
+        this._flip = angle === 0 ? null : { angle, offsetX, lift };
+        this.sync();
     }
 
-    public lock(): void {
-        this.isLocked = true;
-        this.mesh.isPickable = false;
-        if (this.mesh.material instanceof StandardMaterial) {
-            this.mesh.material.emissiveColor = Color3.Green().scale(0.1);
-        }
+    // Pièce tenue par un autre joueur (sa couleur), ou libre (null)
+    public showHeldBy(color: Color3 | null): void {
+        this._heldColor = color;
+        this._updateTint();
     }
 
-    public reset(): void {
-        this.isLocked = false;
-        this.mesh.isPickable = true;
-        if (this.mesh.material instanceof StandardMaterial) {
-            this.mesh.material.emissiveColor = Color3.Black();
-        }
+    // Pièce sélectionnée au lasso, déplacée ou rassemblée avec les autres pièces sélectionnées
+    public showSelected(selected: boolean): void {
+        if (selected === this._isSelected) return;
+        this._isSelected = selected;
+        this._updateTint();
+    }
+
+    // Pièce posée à une place qui n'est pas la sienne (voir PuzzleModel.findMisplacedPieces)
+    public showMisplaced(misplaced: boolean): void {
+        if (misplaced === this._isMisplaced) return;
+        this._isMisplaced = misplaced;
+        this._updateTint();
     }
 
-    public elevate(elevation: number = 0.5): void {
-        this.mesh.position.z = elevation;
+    // Contour contrasté, pour mieux distinguer les pièces d'un objet en volume (sans effet sur une instance)
+    public showHighContrast(enabled: boolean): void {
+        if (enabled === this._isHighContrast) return;
+        this._isHighContrast = enabled;
+        this._updateTint();
+    }
+
+    // Libère le mesh de la pièce, et le matériau propre d'une pièce en volume
+    // (la géométrie et le matériau partagés des pièces d'image, comme les matériaux du modèle, sont conservés)
+    public dispose(): void {
+        this.state.detach();
+        if (!(this.mesh instanceof InstancedMesh)) this.mesh.material?.dispose();
+        this.mesh.dispose();
+    }
+
+    // Une instance ne se distingue que par sa couleur ; une pièce en volume a son propre calque et son contour.
+    // Une pièce tenue par un autre joueur prime sur l'erreur de placement, puis sur la sélection (pièces libres seulement).
+    private _updateTint(): void {
+        const isSelectedShown = this._isSelected && !this._isLockedShown;
+        if (this.mesh instanceof InstancedMesh) {
+            const tint = this._heldColor
+                ? Color4.FromColor3(Color3.White().scale(1 - HELD_TINT_STRENGTH).add(this._heldColor.scale(HELD_TINT_STRENGTH)))
+                : this._isMisplaced ? MISPLACED_TINT.clone()
+                : isSelectedShown ? SELECTED_TINT.clone()
+                : this._isLockedShown ? LOCKED_TINT.clone() : new Color4(1, 1, 1, 1);
+            this.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind] = tint;
+            return;
+        }
+        this.mesh.renderOverlay = this._isLockedShown;
+        const outlineColor = this._heldColor ?? (this._isMisplaced ? MISPLACED_OUTLINE : isSelectedShown ? SELECTED_OUTLINE
+            : this._isHighContrast ? HIGH_CONTRAST_OUTLINE : null);
+        this.mesh.renderOutline = outlineColor !== null;
+        if (outlineColor) {
+            this.mesh.outlineColor = outlineColor;
+            this.mesh.outlineWidth = 0.02;
+        }
     }
-}
\ No newline at end of file
+}
+
+// Mesh d'un morceau d'objet en volume : un sous-mesh par primitive du modèle, pour garder chacune son matériau
+export function createPartsMesh(name: string, scene: Scene, parts: GeometryPart[]): Mesh {
+    const vertexData = new VertexData();
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    const ranges = parts.map(part => {
+        const verticesStart = positions.length / 3;
+        const indexStart = indices.length;
+        // Boucles plutôt que push(...) : un modèle entier (image fantôme) dépasse la taille de pile des arguments
+        part.positions.forEach(value => positions.push(value));
+        part.normals.forEach(value => normals.push(value));
+        for (let i = 0; i < part.positions.length / 3 * 2; i++) uvs.push(part.uvs?.[i] ?? 0);
+        part.indices.forEach(index => indices.push(verticesStart + index));
+        return { material: part.material, verticesStart, verticesCount: part.positions.length / 3, indexStart, indexCount: part.indices.length };
+    });
+    vertexData.positions = positions;
+    vertexData.normals = normals;
+    vertexData.uvs = uvs;
+    vertexData.indices = indices;
+
+    const mesh = new Mesh(name, scene);
+    vertexData.applyToMesh(mesh);
+    mesh.subMeshes = [];
+    ranges.forEach(range => new SubMesh(range.material, range.verticesStart, range.verticesCount, range.indexStart, range.indexCount, mesh));
+    return mesh;
+}
@@ -0,0 +1,53 @@
+// src/puzzleStorage.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseSavedPuzzle, SAVE_FORMAT_VERSION, SavedPuzzle } from './puzzleStorage';
+
+function validSave(): SavedPuzzle {
+    return {
+        version: SAVE_FORMAT_VERSION,
+        savedAt: '2026-01-01T00:00:00.000Z',
+        rows: 2,
+        cols: 2,
+        imageSource: 'puzzle.jpg',
+        seed: 12,
+        rotation: true,
+        freeForm: false,
+        backImageSource: null,
+        faceDown: false,
+        pieces: [
+            { index: 0, position: [0.5, 0, 0.06], locked: true, rotation: 0, cluster: 0 },
+            { index: 1, position: [3, 2, 1], locked: false, rotation: 3, cluster: 1 },
+            { index: 2, position: [-1, 0.5, 0.06], locked: false, rotation: 0, faceDown: true, cluster: 2 },
+            { index: 3, position: [-2, 1, 0.06], locked: false, rotation: 1, cluster: 3 }
+        ],
+        stats: { elapsedMs: 1500, pickups: 2, drops: 2, snaps: 1, hints: 0 }
+    };
+}
+
+describe('lecture des sauvegardes', () => {
+    it('relit une sauvegarde valide', () => {
+        expect(parseSavedPuzzle(JSON.stringify(validSave()))).toEqual(validSave());
+    });
+
+    it('accepte une sauvegarde en version 1, sans statistiques', () => {
+        const { stats, ...legacy } = validSave();
+        const parsed = parseSavedPuzzle(JSON.stringify({ ...legacy, version: 1 }));
+        expect(parsed.version).toBe(SAVE_FORMAT_VERSION);
+        expect(parsed.stats).toEqual({ elapsedMs: 0, pickups: 0, drops: 0, snaps: 0, hints: 0 });
+    });
+
+    it('refuse les fichiers invalides avec un message explicite', () => {
+        expect(() => parseSavedPuzzle('{')).toThrow('JSON invalide');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), version: 99 }))).toThrow('Version de sauvegarde');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), rows: 0 }))).toThrow('taille de grille');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), rows: 1 }))).toThrow('taille de grille');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), rows: 5000, cols: 5000 }))).toThrow('taille de grille');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), rows: 3 }))).toThrow('nombre de pièces');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), stats: { pickups: 'beaucoup' } }))).toThrow('statistiques');
+        expect(() => parseSavedPuzzle(JSON.stringify({ ...validSave(), pieces: [null, 1, 2, 3] }))).toThrow('pièce corrompue');
+
+        const duplicated = validSave();
+        duplicated.pieces[1].index = 0;
+        expect(() => parseSavedPuzzle(JSON.stringify(duplicated))).toThrow('pièce corrompue');
+    });
+});
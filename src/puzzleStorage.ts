@@ -0,0 +1,166 @@
+// src/puzzleStorage.ts
+// Sauvegarde de la partie en cours : localStorage (reprise après rechargement) et fichier JSON (export / import).
+import { GameStatsSnapshot } from './gameStats';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from './gridSize';
+
+// Version 2 : ajout du chrono et des compteurs (les sauvegardes en version 1 restent lisibles)
+export const SAVE_FORMAT_VERSION = 2;
+const STORAGE_KEY = 'puzzle3d.save';
+
+export interface SavedPiece {
+    index: number;                          // originalIndex de la pièce
+    position: [number, number, number];     // currentPosition
+    locked: boolean;
+    rotation: number;                       // Quarts de tour (0 = à l'endroit)
+    faceDown?: boolean;                     // Pièce retournée (absent : face visible)
+    cluster: number;                        // Identifiant du groupe de pièces emboîtées
+}
+
+export interface SavedPuzzle {
+    version: number;
+    savedAt: string;
+    rows: number;
+    cols: number;
+    imageSource: string;
+    seed: number;
+    rotation: boolean;                      // Mode rotation activé
+    freeForm: boolean;                      // Assemblage libre, sans plateau (absent des anciennes sauvegardes)
+    backImageSource: string | null;         // Image du dos d'un puzzle double face ; null : recto seul
+    faceDown: boolean;                      // Pièces mélangées en partie face cachée
+    pieces: SavedPiece[];
+    stats: GameStatsSnapshot;
+}
+
+export function saveToLocalStorage(state: SavedPuzzle): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (err) {
+        // Stockage plein ou désactivé (navigation privée) : la partie continue sans sauvegarde
+        console.warn("Impossible de sauvegarder la partie :", err);
+    }
+}
+
+export function loadFromLocalStorage(): SavedPuzzle | null {
+    let json: string | null = null;
+    try {
+        json = localStorage.getItem(STORAGE_KEY);
+    } catch (err) {
+        console.warn("Impossible de lire la sauvegarde :", err);
+    }
+    if (!json) return null;
+
+    try {
+        return parseSavedPuzzle(json);
+    } catch (err) {
+        console.warn("Sauvegarde ignorée :", err);
+        return null;
+    }
+}
+
+export function clearLocalSave(): void {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch (err) {
+        console.warn("Impossible d'effacer la sauvegarde :", err);
+    }
+}
+
+// Valide un JSON de sauvegarde (localStorage ou fichier importé)
+export function parseSavedPuzzle(json: string): SavedPuzzle {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Fichier de sauvegarde illisible (JSON invalide).");
+    }
+
+    if (!isRecord(data)) throw new Error("Fichier de sauvegarde invalide.");
+    if (data.version !== 1 && data.version !== SAVE_FORMAT_VERSION) {
+        throw new Error(`Version de sauvegarde non prise en charge : ${data.version}.`);
+    }
+    const { rows, cols, imageSource, seed, pieces } = data;
+    // Grille bornée comme dans la boîte "Nouvelle partie" : un fichier ne peut pas demander des millions de pièces
+    if (!isGridSize(rows) || !isGridSize(cols)) {
+        throw new Error("Sauvegarde invalide : taille de grille incorrecte.");
+    }
+    if (typeof imageSource !== 'string' || typeof seed !== 'number') {
+        throw new Error("Sauvegarde invalide : image ou graine manquante.");
+    }
+    if (!Array.isArray(pieces) || pieces.length !== rows * cols) {
+        throw new Error("Sauvegarde invalide : nombre de pièces incorrect.");
+    }
+
+    if (!areValidPieceStates(pieces, pieces.length)) throw new Error("Sauvegarde invalide : pièce corrompue.");
+
+    const savedStats = data.stats === undefined ? {} : data.stats;
+    if (!isRecord(savedStats)) throw new Error("Sauvegarde invalide : statistiques corrompues.");
+    const readCounter = (key: keyof GameStatsSnapshot): number => {
+        const value = savedStats[key] ?? 0;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new Error("Sauvegarde invalide : statistiques corrompues.");
+        return value;
+    };
+    const stats: GameStatsSnapshot = {
+        elapsedMs: readCounter('elapsedMs'),
+        pickups: readCounter('pickups'),
+        drops: readCounter('drops'),
+        snaps: readCounter('snaps'),
+        hints: readCounter('hints')
+    };
+
+    return {
+        version: SAVE_FORMAT_VERSION,
+        savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+        rows,
+        cols,
+        imageSource,
+        seed,
+        rotation: data.rotation === true,
+        freeForm: data.freeForm === true,
+        backImageSource: typeof data.backImageSource === 'string' ? data.backImageSource : null,
+        faceDown: data.faceDown === true,
+        pieces,
+        stats
+    };
+}
+
+export function downloadSavedPuzzle(state: SavedPuzzle): void {
+    const blob = new Blob([JSON.stringify(state, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `puzzle-${state.rows}x${state.cols}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export async function readSavedPuzzleFile(file: File): Promise<SavedPuzzle> {
+    return parseSavedPuzzle(await file.text());
+}
+
+// Vérifie un état complet des pièces : une entrée bien formée par pièce, sans doublon
+export function areValidPieceStates(pieces: unknown, count: number): pieces is SavedPiece[] {
+    if (!Array.isArray(pieces) || pieces.length !== count) return false;
+    const seen = new Set<number>();
+    for (const piece of pieces as unknown[]) {
+        if (!isRecord(piece)) return false;
+        const { index, position } = piece;
+        const valid = typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < count
+            && Array.isArray(position) && position.length === 3
+            && position.every((value: unknown) => typeof value === 'number' && Number.isFinite(value))
+            && typeof piece.locked === 'boolean'
+            && Number.isInteger(piece.rotation)
+            && (piece.faceDown === undefined || typeof piece.faceDown === 'boolean')
+            && Number.isInteger(piece.cluster);
+        if (!valid || seen.has(index)) return false;
+        seen.add(index);
+    }
+    return true;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGridSize(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= MIN_GRID_SIZE && value <= MAX_GRID_SIZE;
+}
@@ -0,0 +1,43 @@
+// src/random.ts
+// Générateur pseudo-aléatoire déterministe : une même graine redonne toujours la même suite de nombres.
+
+export type RandomGenerator = () => number;
+
+const SHUFFLE_STREAM = 0x9E3779B9; // Sépare la suite du mélange de celle de la découpe, tirées de la même graine
+
+// Algorithme mulberry32 : rapide, 32 bits d'état, largement suffisant pour un jeu
+export function createSeededRandom(seed: number): RandomGenerator {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Suite du mélange des pièces d'un puzzle : une même graine redonne la même disposition de départ
+export function createShuffleRandom(seed: number): RandomGenerator {
+    return createSeededRandom(seed ^ SHUFFLE_STREAM);
+}
+
+// Tire une nouvelle graine (non déterministe) pour une nouvelle partie
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Nombre uniforme dans [min, max[
+export function randomBetween(random: RandomGenerator, min: number, max: number): number {
+    return min + random() * (max - min);
+}
+
+// Empreinte FNV-1a 32 bits d'une chaîne (clé de classement, graine du puzzle du jour)
+export function hashString(value: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,87 @@
+// src/remotePlayers.ts
+// Présence des autres joueurs d'une session coopérative : curseur (ou rayon de contrôleur XR)
+// et teinte, à sa couleur, des pièces qu'ils tiennent.
+import { Scene, Mesh, LinesMesh, MeshBuilder, StandardMaterial, Color3, Vector3 } from '@babylonjs/core';
+import type { CoopPlayer } from './coopProtocol';
+import type { PuzzlePiece } from './puzzlePiece';
+
+const RAY_LENGTH = 3;
+
+interface RemoteCursor {
+    marker: Mesh;
+    ray: LinesMesh | null;
+}
+
+export class RemotePlayers {
+    private _scene: Scene;
+    private _cursors: Map<number, RemoteCursor> = new Map();
+    private _colors: Map<number, Color3> = new Map();
+
+    constructor(scene: Scene) {
+        this._scene = scene;
+    }
+
+    public setPlayers(players: CoopPlayer[]): void {
+        players.forEach(player => this._colors.set(player.id, Color3.FromHexString(player.color)));
+    }
+
+    public addPlayer(player: CoopPlayer): void {
+        this._colors.set(player.id, Color3.FromHexString(player.color));
+    }
+
+    public removePlayer(playerId: number): void {
+        this._colors.delete(playerId);
+        const cursor = this._cursors.get(playerId);
+        if (!cursor) return;
+        cursor.marker.material?.dispose();
+        cursor.marker.dispose();
+        cursor.ray?.dispose();
+        this._cursors.delete(playerId);
+    }
+
+    // Point visé sur la table, ou rayon depuis un contrôleur (direction non nulle)
+    public updateCursor(playerId: number, origin: [number, number, number], direction: [number, number, number] | null): void {
+        const cursor = this._getCursor(playerId);
+        const start = Vector3.FromArray(origin);
+        cursor.marker.position = direction ? start.add(Vector3.FromArray(direction).scale(RAY_LENGTH)) : start;
+
+        if (direction) {
+            const points = [start, cursor.marker.position];
+            cursor.ray = MeshBuilder.CreateLines(`remoteRay-${playerId}`, { points, instance: cursor.ray ?? undefined, updatable: true }, this._scene);
+            cursor.ray.color = this._getColor(playerId);
+            cursor.ray.isPickable = false;
+        } else if (cursor.ray) {
+            cursor.ray.dispose();
+            cursor.ray = null;
+        }
+    }
+
+    // Pièces tenues par un autre joueur, teintées à sa couleur
+    public showHeld(piece: PuzzlePiece, playerId: number | null): void {
+        piece.showHeldBy(playerId !== null ? this._getColor(playerId) : null);
+    }
+
+    public clear(): void {
+        Array.from(this._cursors.keys()).forEach(playerId => this.removePlayer(playerId));
+        this._colors.clear();
+    }
+
+    private _getCursor(playerId: number): RemoteCursor {
+        let cursor = this._cursors.get(playerId);
+        if (!cursor) {
+            const marker = MeshBuilder.CreateSphere(`remoteCursor-${playerId}`, { diameter: 0.06 }, this._scene);
+            const material = new StandardMaterial(`remoteCursorMat-${playerId}`, this._scene);
+            material.emissiveColor = this._getColor(playerId);
+            material.disableLighting = true;
+            marker.material = material;
+            marker.isPickable = false;
+            cursor = { marker, ray: null };
+            this._cursors.set(playerId, cursor);
+        }
+        return cursor;
+    }
+
+    private _getColor(playerId: number): Color3 {
+        return this._colors.get(playerId) ?? Color3.White();
+    }
+}
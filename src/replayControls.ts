@@ -0,0 +1,73 @@
+// src/replayControls.ts
+// Barre de relecture d'une partie enregistrée : lecture / pause, position dans le temps, vitesse, fermeture.
+import { formatDuration } from './gameStats';
+import type { SessionPlayer } from './sessionPlayer';
+import type { GameElements } from './gameElements';
+
+export interface ReplayControlsHandlers {
+    onTogglePlay: () => void;
+    onSeek: (timeMs: number) => void;
+    onSpeedChange: (speed: number) => void;
+    onClose: () => void;
+}
+
+export type ReplayControlsElements = Pick<GameElements, 'replayBar' | 'replayPlayButton' | 'replaySeekInput' | 'replayTime' | 'replaySpeedSelect' | 'replayCloseButton'>;
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+export class ReplayControls {
+    private _bar: HTMLElement;
+    private _playButton: HTMLButtonElement;
+    private _seekInput: HTMLInputElement;
+    private _timeLabel: HTMLElement;
+    private _speedSelect: HTMLSelectElement;
+    private _isSeeking: boolean = false;   // Curseur tenu par l'utilisateur : pas de mise à jour automatique
+    private _listeners: AbortController = new AbortController();
+
+    constructor(handlers: ReplayControlsHandlers, elements: ReplayControlsElements) {
+        this._bar = elements.replayBar;
+        this._playButton = elements.replayPlayButton;
+        this._seekInput = elements.replaySeekInput;
+        this._timeLabel = elements.replayTime;
+        this._speedSelect = elements.replaySpeedSelect;
+
+        const { signal } = this._listeners;
+        this._speedSelect.replaceChildren(...REPLAY_SPEEDS.map(speed => new Option(`×${speed}`, String(speed))));
+        this._playButton.addEventListener('click', () => handlers.onTogglePlay(), { signal });
+        this._seekInput.addEventListener('input', () => {
+            this._isSeeking = true;
+            handlers.onSeek(Number(this._seekInput.value));
+        }, { signal });
+        this._seekInput.addEventListener('change', () => this._isSeeking = false, { signal });
+        this._speedSelect.addEventListener('change', () => handlers.onSpeedChange(Number(this._speedSelect.value)), { signal });
+        elements.replayCloseButton.addEventListener('click', () => handlers.onClose(), { signal });
+    }
+
+    public show(player: SessionPlayer): void {
+        this._seekInput.max = String(player.durationMs);
+        // Vitesse hors liste (accéléré de fin de partie) : ajoutée pour rester affichable
+        if (!REPLAY_SPEEDS.includes(player.speed) && !Array.from(this._speedSelect.options).some(option => Number(option.value) === player.speed)) {
+            this._speedSelect.add(new Option(`×${player.speed}`, String(player.speed)));
+        }
+        this._speedSelect.value = String(player.speed);
+        this._bar.hidden = false;
+        this.update(player);
+    }
+
+    public hide(): void {
+        this._bar.hidden = true;
+        this._isSeeking = false;
+    }
+
+    public update(player: SessionPlayer): void {
+        this._playButton.textContent = player.isPlaying ? 'Pause' : 'Lecture';
+        if (!this._isSeeking) this._seekInput.value = String(Math.round(player.timeMs));
+        this._timeLabel.textContent = `${formatDuration(player.timeMs)} / ${formatDuration(player.durationMs)}`;
+    }
+
+    // Barre masquée et boutons rendus à la page (jeu supprimé)
+    public dispose(): void {
+        this.hide();
+        this._listeners.abort();
+    }
+}
@@ -0,0 +1,187 @@
+// src/scene.test.ts
+// Tests de fumée de la scène avec le NullEngine de Babylon : aucun GPU ni navigateur nécessaire.
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    NullEngine, Scene, Texture, StandardMaterial, MultiMaterial, Color3, ArcRotateCamera, HemisphericLight, Vector3, Ray,
+    InstancedMesh, VertexBuffer
+} from '@babylonjs/core';
+import { PuzzleModel } from './puzzleModel';
+import { PuzzlePiece } from './puzzlePiece';
+import { PieceMeshFactory } from './pieceMeshFactory';
+import { HintManager } from './hintManager';
+import { generatePuzzleCut } from './jigsawShape';
+import { sliceModel } from './meshSlicer';
+
+describe('scène du puzzle (NullEngine)', () => {
+    let engine: NullEngine;
+
+    afterEach(() => engine?.dispose());
+
+    function createScene(rows: number, cols: number, tileSize = 0.5) {
+        engine = new NullEngine();
+        const scene = new Scene(engine);
+        new ArcRotateCamera('camera', Math.PI / 2, Math.PI / 2.5, 10, Vector3.Zero(), scene);
+        new HemisphericLight('light', new Vector3(0, 1, 0), scene);
+        const texture = new Texture(null, scene);
+        const model = new PuzzleModel({ rows, cols, tileWidth: tileSize, tileHeight: tileSize, depth: 0.1 });
+        const meshes = new PieceMeshFactory(scene, texture, generatePuzzleCut(rows, cols, 1234), tileSize, tileSize, 0.1);
+        const pieces = model.pieces.map(state => PuzzlePiece.fromImage(`piece-${state.index}`, meshes, state));
+        model.onPieceChanged = state => pieces[state.index].sync();
+        return { scene, texture, model, pieces, meshes };
+    }
+
+    it('construit un mesh pickable par pièce, à la position du modèle', () => {
+        const { scene, model, pieces } = createScene(3, 4);
+        expect(pieces).toHaveLength(12);
+        pieces.forEach(piece => {
+            expect(piece.mesh.getTotalVertices()).toBeGreaterThan(0);
+            expect(piece.mesh.isPickable).toBe(true);
+            expect(piece.mesh.metadata.piece).toBe(piece);
+            expect(piece.mesh.position.x).toBeCloseTo(piece.state.target.x);
+        });
+        model.shuffle({ rotation: true });
+        expect(() => scene.render()).not.toThrow();
+    });
+
+    it('retrouve la pièce visée par un rayon (souris ou contrôleur XR)', () => {
+        const { scene, model, pieces } = createScene(2, 2);
+        model.pieces.forEach((state, i) => state.setPosition(i * 3, 0, model.tableZ));
+        scene.render(); // Met à jour les matrices monde utilisées par le picking
+        const target = pieces[2];
+        const ray = new Ray(new Vector3(target.mesh.position.x, 0, 5), new Vector3(0, 0, -1));
+        const pickResult = scene.pickWithRay(ray);
+        expect(pickResult?.pickedMesh?.metadata?.piece).toBe(target);
+    });
+
+    it('reflète le mélange, la rotation et le verrouillage du modèle', () => {
+        const { model, pieces } = createScene(2, 2);
+        model.shuffle({ rotation: true });
+        const piece = pieces[3];
+        expect(piece.mesh.position.x).toBe(piece.state.position.x);
+        expect(piece.mesh.rotation.z).toBeCloseTo(piece.state.rotationSteps * Math.PI / 2);
+
+        piece.state.setRotation(0);
+        piece.state.setPosition(piece.state.target.x, piece.state.target.y, 1);
+        expect(model.snap(piece.state)).toBe(true);
+        expect(piece.mesh.isPickable).toBe(false);
+        expect(piece.mesh.position.z).toBeCloseTo(model.tableZ);
+        expect(piece.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].g).toBeGreaterThan(piece.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].r);
+
+        model.reset();
+        expect(piece.mesh.isPickable).toBe(true);
+        expect(piece.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].r).toBe(1);
+
+        // Sélection au lasso : teinte bleue, retirée avec la sélection
+        piece.showSelected(true);
+        expect(piece.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].b).toBeGreaterThan(piece.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].r);
+        piece.showSelected(false);
+        expect(piece.mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].r).toBe(1);
+    });
+
+    it('dessine un grand puzzle avec les mêmes matériaux et une géométrie par forme de pièce', () => {
+        const { scene, model, pieces, meshes } = createScene(32, 32, 0.0625);
+        model.shuffle({ rotation: true });
+        expect(pieces).toHaveLength(1024);
+        const material = pieces[0].mesh.material;
+        expect(material instanceof MultiMaterial && material.subMaterials[0] === meshes.material && material.subMaterials[1] === meshes.backMaterial).toBe(true);
+        expect(pieces.every(piece => piece.mesh instanceof InstancedMesh && piece.mesh.material === material)).toBe(true);
+        expect(meshes.shapeCount).toBeLessThanOrEqual(3 ** 4);
+        // Chaque pièce montre sa case de l'image : décalage de texture propre à l'instance
+        expect(pieces[33].mesh.instancedBuffers.pieceUVOffset.asArray()).toEqual([1 / 32, -1 / 32]);
+
+        scene.render();
+        expect(scene.getActiveMeshes().length).toBe(1024);
+
+        pieces[5].showHeldBy(Color3.Blue());
+        expect(pieces[5].mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].b).toBe(1);
+        expect(pieces[5].mesh.instancedBuffers[VertexBuffer.ColorInstanceKind].r).toBeLessThan(1);
+
+        pieces.forEach(piece => piece.dispose());
+        meshes.dispose();
+        expect(scene.meshes).toHaveLength(0);
+        expect(scene.materials.filter(material => material.name.startsWith('pieces'))).toHaveLength(0);
+    });
+
+    it('montre le dos des pièces face cachée, et anime leur retournement', () => {
+        const { model, pieces, meshes } = createScene(2, 2);
+        // Sans image du dos : motif de carton répété sur chaque pièce
+        expect((meshes.backMaterial.diffuseTexture as Texture).uScale).toBeGreaterThan(1);
+        const piece = pieces[1];
+        piece.state.setRotation(1);
+        piece.state.setFaceDown(true);
+        expect(piece.mesh.rotation.y).toBeCloseTo(Math.PI);
+        expect(piece.mesh.rotation.z).toBeCloseTo(-Math.PI / 2);
+
+        const { x, z } = piece.state.position;
+        piece.showFlip(Math.PI / 2, 0.5, 0.25);
+        expect(piece.mesh.position.x).toBeCloseTo(x - 0.5);
+        expect(piece.mesh.position.z).toBeCloseTo(z + 0.75);
+        expect(piece.mesh.rotation.y).toBeCloseTo(Math.PI * 1.5);
+        piece.showFlip(0, 0.5, 0.25);
+        expect(piece.mesh.position.x).toBe(x);
+        expect(piece.mesh.rotation.y).toBeCloseTo(Math.PI);
+        expect(model.getStatus()).not.toBe('solved');
+    });
+
+    it('affiche et retire les aides visuelles', () => {
+        const { scene, texture, pieces } = createScene(2, 2);
+        const hints = new HintManager(scene);
+        hints.buildGhost(texture, 1, 1);
+        hints.setGhostVisible(true);
+        expect(scene.getMeshByName('hintGhost')?.isVisible).toBe(true);
+
+        hints.highlightSlot(pieces[0].originalPosition, 0.5, 0.5);
+        expect(scene.getMeshByName('hintSlot')?.position.x).toBeCloseTo(pieces[0].state.target.x);
+
+        hints.clear();
+        expect(scene.getMeshByName('hintGhost')).toBeNull();
+        expect(scene.getMeshByName('hintSlot')).toBeNull();
+        expect(hints.isGhostVisible).toBe(true);
+    });
+
+    it('libère les meshes et matériaux à la destruction des pièces', () => {
+        const { scene, pieces } = createScene(2, 2);
+        pieces.forEach(piece => piece.dispose());
+        expect(scene.meshes.filter(mesh => mesh.metadata?.isPuzzlePiece)).toHaveLength(0);
+        expect(scene.materials.filter(material => material.name.startsWith('piece-'))).toHaveLength(0);
+    });
+
+    it('construit les pièces d’un objet en volume avec les matériaux du modèle', () => {
+        engine = new NullEngine();
+        const scene = new Scene(engine);
+        new ArcRotateCamera('camera', Math.PI / 2, Math.PI / 2.5, 10, Vector3.Zero(), scene);
+        // Deux primitives (deux matériaux) : un triangle de chaque côté du plan de coupe x = 0
+        const parts = [-1, 1].map((side, material) => ({
+            material,
+            positions: [side * 0.2, 0, 0, side, 0, 0, side, 1, 1],
+            normals: [0, 0, 1, 0, 0, 1, 0, 0, 1],
+            uvs: null,
+            indices: [0, 1, 2]
+        }));
+        const sliced = sliceModel(parts, 1, 2, 1);
+        const model = new PuzzleModel({
+            rows: 1, cols: 2, tileWidth: sliced.tileWidth, tileHeight: sliced.tileHeight, depth: sliced.tileDepth,
+            volume: { layers: 1, cells: sliced.slices.map(slice => ({ row: slice.row, col: slice.col, layer: slice.layer, target: slice.center })) }
+        });
+        const modelMaterials = [new StandardMaterial('modelA', scene), new StandardMaterial('modelB', scene)];
+        const pieces = sliced.slices.map((slice, index) => {
+            const material = new MultiMaterial(`piece-${index}Mat`, scene);
+            material.subMaterials = modelMaterials;
+            return PuzzlePiece.fromSlice(`piece-${index}`, scene, slice, model.getPiece(index), material);
+        });
+        model.onPieceChanged = state => pieces[state.index].sync();
+
+        expect(pieces).toHaveLength(2);
+        expect(pieces[0].mesh.subMeshes.map(subMesh => subMesh.materialIndex)).toEqual([1]);
+        model.getPiece(0).setRotation(1);
+        expect(pieces[0].mesh.rotation.y).toBeCloseTo(Math.PI / 2);
+        expect(pieces[0].mesh.rotation.z).toBe(0);
+
+        model.getPiece(1).lockInPlace();
+        expect(pieces[1].mesh.renderOverlay).toBe(true);
+        expect(() => scene.render()).not.toThrow();
+
+        pieces.forEach(piece => piece.dispose());
+        expect(scene.materials.filter(material => material.name.startsWith('model'))).toHaveLength(2); // Partagés, conservés
+    });
+});
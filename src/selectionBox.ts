@@ -0,0 +1,36 @@
+// src/selectionBox.ts
+// Rectangle de sélection au lasso, tracé sur la table (ou dans le plan de l'objet en volume) pendant
+// le glisser de la souris, du doigt ou d'un rayon XR : les pièces libres dont le centre est dedans sont sélectionnées.
+import { Scene, Mesh, MeshBuilder, StandardMaterial, Color3 } from '@babylonjs/core';
+
+const BOX_ALPHA = 0.25;
+const BOX_COLOR = new Color3(0.3, 0.6, 1);
+
+export class SelectionBox {
+    private _mesh: Mesh;
+
+    constructor(scene: Scene) {
+        this._mesh = MeshBuilder.CreatePlane('selectionBox', { size: 1 }, scene);
+        this._mesh.isPickable = false;
+        this._mesh.setEnabled(false);
+
+        const material = new StandardMaterial('selectionBoxMat', scene);
+        material.emissiveColor = BOX_COLOR;
+        material.disableLighting = true;
+        material.backFaceCulling = false;
+        material.alpha = BOX_ALPHA;
+        this._mesh.material = material;
+    }
+
+    // Affiche le rectangle entre deux coins opposés, à la hauteur z
+    public show(x1: number, y1: number, x2: number, y2: number, z: number): void {
+        this._mesh.position.set((x1 + x2) / 2, (y1 + y2) / 2, z);
+        // Jamais d'échelle nulle : la matrice du mesh doit rester inversible
+        this._mesh.scaling.set(Math.max(Math.abs(x2 - x1), 1e-3), Math.max(Math.abs(y2 - y1), 1e-3), 1);
+        this._mesh.setEnabled(true);
+    }
+
+    public hide(): void {
+        this._mesh.setEnabled(false);
+    }
+}
@@ -0,0 +1,62 @@
+// src/sessionPlayer.test.ts
+import { describe, it, expect } from 'vitest';
+import { SessionPlayer } from './sessionPlayer';
+import type { SessionRecording } from './sessionRecorder';
+
+function createRecording(): SessionRecording {
+    return {
+        version: 1,
+        recordedAt: '',
+        puzzle: { rows: 1, cols: 2, seed: 1, imageSource: 'image.jpg', rotation: true, freeForm: false, backImageSource: null },
+        initialPieces: [
+            { index: 0, position: [0, 0, 0.06], locked: false, rotation: 0, cluster: 0 },
+            { index: 1, position: [1, 0, 0.06], locked: false, rotation: 2, cluster: 1 }
+        ],
+        durationMs: 3000,
+        events: [
+            [500, 'input', 'mouse', 'down', 100, 100],
+            [1000, 'piece', 0, 0.5, 0, 0.26, 0, 0],
+            [2000, 'piece', 1, -0.5, 0, 0.06, 0, 1],
+            [2000, 'piece', 0, 0.5, 0, 0.06, 0, 1]
+        ]
+    };
+}
+
+describe('relecture d’une partie', () => {
+    it('avance au rythme de la vitesse choisie et s’arrête à la fin', () => {
+        const player = new SessionPlayer(createRecording());
+        expect(player.takeChanged().sort()).toEqual([0, 1]);
+
+        player.advance(1000);
+        expect(player.timeMs).toBe(0); // En pause
+
+        player.speed = 2;
+        player.play();
+        player.advance(500);
+        expect(player.timeMs).toBe(1000);
+        expect(player.pieces[0]).toEqual({ x: 0.5, y: 0, z: 0.26, rotation: 0, locked: false, faceDown: false });
+        expect(player.takeChanged()).toEqual([0]);
+
+        player.advance(5000);
+        expect(player.timeMs).toBe(3000);
+        expect(player.isPlaying).toBe(false);
+        expect(player.pieces.every(piece => piece.locked)).toBe(true);
+    });
+
+    it('revient en arrière en repartant de l’état initial', () => {
+        const player = new SessionPlayer(createRecording());
+        player.seek(2500);
+        player.takeChanged();
+
+        player.seek(1500);
+        expect(player.pieces[0]).toEqual({ x: 0.5, y: 0, z: 0.26, rotation: 0, locked: false, faceDown: false });
+        expect(player.pieces[1]).toEqual({ x: 1, y: 0, z: 0.06, rotation: 2, locked: false, faceDown: false });
+        expect(player.takeChanged().sort()).toEqual([0, 1]);
+
+        player.play(); // Lecture terminée : relancée depuis le début
+        player.seek(3000);
+        player.pause();
+        player.play();
+        expect(player.timeMs).toBe(0);
+    });
+});
@@ -0,0 +1,95 @@
+// src/sessionPlayer.ts
+// Relecture d'un enregistrement (voir sessionRecorder.ts) : état de chaque pièce à un instant donné,
+// avec lecture, pause, déplacement dans le temps et vitesse variable.
+import type { SessionRecording } from './sessionRecorder';
+
+export interface ReplayPieceState {
+    x: number;
+    y: number;
+    z: number;
+    rotation: number;
+    locked: boolean;
+    faceDown: boolean;
+}
+
+export class SessionPlayer {
+    public readonly recording: SessionRecording;
+    public readonly pieces: ReplayPieceState[] = [];
+    public speed: number = 1;
+
+    private _timeMs: number = 0;
+    private _isPlaying: boolean = false;
+    private _nextEvent: number = 0;
+    private _changed: Set<number> = new Set();
+
+    constructor(recording: SessionRecording) {
+        this.recording = recording;
+        this._rewind();
+    }
+
+    public get timeMs(): number {
+        return this._timeMs;
+    }
+
+    public get durationMs(): number {
+        return this.recording.durationMs;
+    }
+
+    public get isPlaying(): boolean {
+        return this._isPlaying;
+    }
+
+    public get isFinished(): boolean {
+        return this._timeMs >= this.durationMs;
+    }
+
+    // Relance depuis le début si la lecture était terminée
+    public play(): void {
+        if (this.isFinished) this.seek(0);
+        this._isPlaying = true;
+    }
+
+    public pause(): void {
+        this._isPlaying = false;
+    }
+
+    // Avance la lecture du temps réel écoulé (multiplié par la vitesse) ; s'arrête à la fin
+    public advance(deltaMs: number): void {
+        if (!this._isPlaying) return;
+        this.seek(this._timeMs + deltaMs * this.speed);
+        if (this.isFinished) this._isPlaying = false;
+    }
+
+    // Se place à un instant donné ; revenir en arrière rejoue depuis l'état initial
+    public seek(timeMs: number): void {
+        const target = Math.min(Math.max(timeMs, 0), this.durationMs);
+        if (target < this._timeMs) this._rewind();
+
+        const events = this.recording.events;
+        while (this._nextEvent < events.length && events[this._nextEvent][0] <= target) {
+            const event = events[this._nextEvent++];
+            if (event[1] !== 'piece') continue; // Les actions du joueur servent à l'analyse, pas à l'affichage
+            const [, , index, x, y, z, rotation, locked, faceDown] = event;
+            this.pieces[index] = { x, y, z, rotation, locked: locked === 1, faceDown: faceDown === 1 };
+            this._changed.add(index);
+        }
+        this._timeMs = target;
+    }
+
+    // Pièces modifiées depuis le dernier appel
+    public takeChanged(): number[] {
+        const changed = Array.from(this._changed);
+        this._changed.clear();
+        return changed;
+    }
+
+    private _rewind(): void {
+        this.recording.initialPieces.forEach(saved => {
+            const [x, y, z] = saved.position;
+            this.pieces[saved.index] = { x, y, z, rotation: saved.rotation, locked: saved.locked, faceDown: saved.faceDown === true };
+            this._changed.add(saved.index);
+        });
+        this._nextEvent = 0;
+        this._timeMs = 0;
+    }
+}
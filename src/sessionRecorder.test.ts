@@ -0,0 +1,80 @@
+// src/sessionRecorder.test.ts
+import { describe, it, expect } from 'vitest';
+import { SessionRecorder, parseSessionRecording } from './sessionRecorder';
+import { SessionPlayer } from './sessionPlayer';
+import { PuzzleModel } from './puzzleModel';
+
+const PUZZLE = { rows: 2, cols: 2, seed: 7, imageSource: 'image.jpg', rotation: false, freeForm: false, backImageSource: null };
+
+// Modèle dont chaque changement de pièce est enregistré, avec une horloge pilotée par le test
+function createRecordedModel() {
+    const clock = { now: 1000 };
+    const recorder = new SessionRecorder(() => clock.now);
+    const model = new PuzzleModel({ rows: 2, cols: 2, tileWidth: 1, tileHeight: 1, depth: 0.1 });
+    model.onPieceChanged = state => recorder.recordPiece(state);
+    recorder.start(PUZZLE, model.captureState());
+    return { clock, recorder, model };
+}
+
+describe('enregistrement d’une partie', () => {
+    it('horodate les transformations des pièces et fusionne celles d’un même instant', () => {
+        const { clock, recorder, model } = createRecordedModel();
+        const piece = model.getPiece(0);
+        clock.now = 1250;
+        piece.setPosition(0.12345, 2, 1);
+        piece.setPosition(piece.target.x, piece.target.y, 1);
+        model.snap(piece); // Même instant : position puis verrou ne font qu'un événement
+
+        const recording = recorder.stop()!;
+        expect(recording.durationMs).toBe(250);
+        expect(recording.events).toEqual([[250, 'piece', 0, piece.target.x, piece.target.y, 0.06, 0, 1]]);
+    });
+
+    it('arrondit les coordonnées et limite la fréquence des déplacements du pointeur', () => {
+        const { clock, recorder } = createRecordedModel();
+        recorder.recordInput('mouse', 'down', 10.123456, 20);
+        recorder.recordInput('mouse', 'move', 11, 20);
+        clock.now += 20;
+        recorder.recordInput('mouse', 'move', 12, 20); // Trop tôt : ignoré
+        recorder.recordInput('xr-left', 'move', 0, 1, 2, 0, 0, 1); // Autre source : enregistré
+        clock.now += 40;
+        recorder.recordInput('mouse', 'move', 13, 20);
+
+        expect(recorder.stop()!.events).toEqual([
+            [0, 'input', 'mouse', 'down', 10.123, 20],
+            [0, 'input', 'mouse', 'move', 11, 20],
+            [20, 'input', 'xr-left', 'move', 0, 1, 2, 0, 0, 1],
+            [60, 'input', 'mouse', 'move', 13, 20]
+        ]);
+        recorder.recordInput('mouse', 'up', 13, 20); // Après l'arrêt : ignoré
+        expect(recorder.recording!.events).toHaveLength(4);
+    });
+
+    it('relit un enregistrement exporté puis réimporté', () => {
+        const { clock, recorder, model } = createRecordedModel();
+        clock.now += 100;
+        model.getPiece(3).setPosition(1, 1, 1);
+        clock.now += 100;
+        model.flipCluster(model.getPiece(2));
+        const json = JSON.stringify(recorder.stop());
+
+        const player = new SessionPlayer(parseSessionRecording(json));
+        player.seek(100);
+        expect(player.pieces[3]).toEqual({ x: 1, y: 1, z: 1, rotation: 0, locked: false, faceDown: false });
+        player.seek(200);
+        expect(player.pieces[2].faceDown).toBe(true);
+    });
+
+    it('refuse un enregistrement corrompu', () => {
+        const { recorder } = createRecordedModel();
+        const recording = recorder.stop()!;
+        expect(() => parseSessionRecording('{')).toThrow(/JSON invalide/);
+        expect(() => parseSessionRecording(JSON.stringify({ ...recording, version: 99 }))).toThrow(/Version/);
+        expect(() => parseSessionRecording(JSON.stringify({ ...recording, events: [[0, 'piece', 9, 0, 0, 0, 0, 0]] }))).toThrow(/événement/);
+        expect(() => parseSessionRecording(JSON.stringify({ ...recording, initialPieces: [] }))).toThrow(/nombre de pièces/);
+        const badPieces = recording.initialPieces.map((piece, index) => index === 1 ? { ...piece, position: null } : piece);
+        expect(() => parseSessionRecording(JSON.stringify({ ...recording, initialPieces: badPieces }))).toThrow(/pièce corrompue/);
+        const hugeGrid = { ...recording.puzzle, rows: 10000, cols: 10000 };
+        expect(() => parseSessionRecording(JSON.stringify({ ...recording, puzzle: hugeGrid }))).toThrow(/puzzle incorrect/);
+    });
+});
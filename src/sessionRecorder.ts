@@ -0,0 +1,203 @@
+// src/sessionRecorder.ts
+// Enregistrement d'une partie : actions du joueur (pointeur, tactile, XR) et transformations des pièces
+// qui en résultent, horodatées depuis le début de la partie. Format JSON compact, relu par SessionPlayer.
+import type { PieceState } from './puzzleModel';
+import { SavedPiece, areValidPieceStates } from './puzzleStorage';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from './gridSize';
+
+export const RECORDING_FORMAT_VERSION = 1;
+const INPUT_MOVE_INTERVAL_MS = 50; // Déplacements du pointeur : au plus 20 par seconde et par source
+const PRECISION = 1000;            // Coordonnées arrondies au millième
+
+// [temps (ms), 'piece', index, x, y, z, quarts de tour, verrouillée (0 / 1), face cachée (1 ; absent si face visible)]
+export type RecordedPieceEvent = [number, 'piece', number, number, number, number, number, 0 | 1, 1?];
+// [temps (ms), 'input', source ('mouse', 'touch', 'pen', 'xr-left'...), action ('down', 'up', 'move', 'pinch-down'...), coordonnées...]
+// Pointeur : position à l'écran. XR : main (ou poignée), origine et direction du rayon au début et à la fin
+// d'un geste, point tenu pendant les déplacements.
+export type RecordedInputEvent = [number, 'input', string, string, ...number[]];
+export type RecordedEvent = RecordedPieceEvent | RecordedInputEvent;
+
+export interface RecordedPuzzle {
+    rows: number;
+    cols: number;
+    seed: number;
+    imageSource: string;
+    rotation: boolean;
+    freeForm: boolean;      // Assemblage libre (absent des anciens enregistrements)
+    backImageSource: string | null; // Image du dos d'un puzzle double face (null : recto seul)
+}
+
+export interface SessionRecording {
+    version: number;
+    recordedAt: string;
+    puzzle: RecordedPuzzle;
+    initialPieces: SavedPiece[];
+    durationMs: number;
+    events: RecordedEvent[];
+}
+
+export class SessionRecorder {
+    private _recording: SessionRecording | null = null;
+    private _startTime: number = 0;
+    private _isRecording: boolean = false;
+    private _lastPieceEvents: Map<number, RecordedPieceEvent> = new Map();
+    private _lastMoveTimes: Map<string, number> = new Map();
+    private _now: () => number;
+
+    constructor(now: () => number = () => performance.now()) {
+        this._now = now;
+    }
+
+    public get isRecording(): boolean {
+        return this._isRecording;
+    }
+
+    // Copie de l'enregistrement en cours (arrêté à cet instant) ou du dernier terminé
+    public get recording(): SessionRecording | null {
+        if (!this._recording) return null;
+        if (this._isRecording) this._recording.durationMs = this._elapsed();
+        return { ...this._recording, events: this._recording.events.slice() };
+    }
+
+    // Nouvelle partie (ou reprise) : on repart de l'état actuel des pièces
+    public start(puzzle: RecordedPuzzle, initialPieces: SavedPiece[]): void {
+        this._recording = {
+            version: RECORDING_FORMAT_VERSION,
+            recordedAt: new Date().toISOString(),
+            puzzle,
+            initialPieces,
+            durationMs: 0,
+            events: []
+        };
+        this._startTime = this._now();
+        this._isRecording = true;
+        this._lastPieceEvents.clear();
+        this._lastMoveTimes.clear();
+    }
+
+    public stop(): SessionRecording | null {
+        const recording = this.recording;
+        this._isRecording = false;
+        return recording;
+    }
+
+    // Plusieurs changements d'une même pièce au même instant (position puis verrou...) ne font qu'un événement
+    public recordPiece(piece: PieceState): void {
+        if (!this._isRecording || !this._recording) return;
+        const time = this._elapsed();
+        const { x, y, z } = piece.position;
+        const event: RecordedPieceEvent = [time, 'piece', piece.index, round(x), round(y), round(z), piece.rotationSteps, piece.isLocked ? 1 : 0];
+        if (piece.isFaceDown) event.push(1);
+
+        const previous = this._lastPieceEvents.get(piece.index);
+        if (previous && previous.length === event.length && previous.slice(2).every((value, i) => value === event[i + 2])) return;
+        const events = this._recording.events;
+        if (previous && previous[0] === time && events[events.length - 1] === previous) {
+            events[events.length - 1] = event;
+        } else {
+            events.push(event);
+        }
+        this._lastPieceEvents.set(piece.index, event);
+    }
+
+    public recordInput(source: string, action: string, ...coordinates: number[]): void {
+        if (!this._isRecording || !this._recording) return;
+        const time = this._elapsed();
+        if (action === 'move') {
+            const lastMove = this._lastMoveTimes.get(source);
+            if (lastMove !== undefined && time - lastMove < INPUT_MOVE_INTERVAL_MS) return;
+            this._lastMoveTimes.set(source, time);
+        }
+        this._recording.events.push([time, 'input', source, action, ...coordinates.map(round)]);
+    }
+
+    private _elapsed(): number {
+        return Math.round(this._now() - this._startTime);
+    }
+}
+
+// Valide un enregistrement importé
+export function parseSessionRecording(json: string): SessionRecording {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Enregistrement illisible (JSON invalide).");
+    }
+
+    if (!isRecord(data)) throw new Error("Enregistrement invalide.");
+    if (data.version !== RECORDING_FORMAT_VERSION) {
+        throw new Error(`Version d'enregistrement non prise en charge : ${data.version}.`);
+    }
+    const { puzzle, initialPieces, events } = data;
+    if (!isRecord(puzzle)) throw new Error("Enregistrement invalide : puzzle incorrect.");
+    const { rows, cols, seed, imageSource } = puzzle;
+    // Grille bornée comme pour une partie : un fichier ne peut pas demander des millions de pièces
+    if (!isGridSize(rows) || !isGridSize(cols) || typeof seed !== 'number' || typeof imageSource !== 'string') {
+        throw new Error("Enregistrement invalide : puzzle incorrect.");
+    }
+    const pieceCount = rows * cols;
+    if (!Array.isArray(initialPieces) || initialPieces.length !== pieceCount) {
+        throw new Error("Enregistrement invalide : nombre de pièces incorrect.");
+    }
+    if (!areValidPieceStates(initialPieces, pieceCount)) throw new Error("Enregistrement invalide : pièce corrompue.");
+    if (!Array.isArray(events) || !events.every((event: unknown): event is RecordedEvent => isValidEvent(event, pieceCount))) {
+        throw new Error("Enregistrement invalide : événement corrompu.");
+    }
+
+    const lastEvent = events[events.length - 1];
+    return {
+        version: RECORDING_FORMAT_VERSION,
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+        puzzle: {
+            rows,
+            cols,
+            seed,
+            imageSource,
+            rotation: puzzle.rotation === true,
+            freeForm: puzzle.freeForm === true,
+            backImageSource: typeof puzzle.backImageSource === 'string' ? puzzle.backImageSource : null
+        },
+        initialPieces,
+        durationMs: Math.max(Number(data.durationMs) || 0, lastEvent ? lastEvent[0] : 0),
+        events
+    };
+}
+
+export function downloadSessionRecording(recording: SessionRecording): void {
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `enregistrement-${recording.puzzle.rows}x${recording.puzzle.cols}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export async function readSessionRecordingFile(file: File): Promise<SessionRecording> {
+    return parseSessionRecording(await file.text());
+}
+
+function isValidEvent(event: unknown, pieceCount: number): boolean {
+    if (!Array.isArray(event) || typeof event[0] !== 'number' || event[0] < 0) return false;
+    if (event[1] === 'piece') {
+        return (event.length === 8 || (event.length === 9 && event[8] === 1))
+            && Number.isInteger(event[2]) && event[2] >= 0 && event[2] < pieceCount
+            && event.slice(3, 7).every(value => typeof value === 'number' && Number.isFinite(value))
+            && (event[7] === 0 || event[7] === 1);
+    }
+    return event[1] === 'input' && typeof event[2] === 'string' && typeof event[3] === 'string'
+        && event.slice(4).every(value => typeof value === 'number');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGridSize(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= MIN_GRID_SIZE && value <= MAX_GRID_SIZE;
+}
+
+function round(value: number): number {
+    return Math.round(value * PRECISION) / PRECISION;
+}
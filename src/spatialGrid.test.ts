@@ -0,0 +1,29 @@
+// src/spatialGrid.test.ts
+import { describe, it, expect } from 'vitest';
+import { SpatialGrid } from './spatialGrid';
+
+describe('index spatial', () => {
+    it('ne renvoie que les éléments des cellules proches', () => {
+        const grid = new SpatialGrid<string>(1);
+        grid.update('a', 0.5, 0.5);
+        grid.update('b', 1.5, -0.5);
+        grid.update('c', 10, 10);
+
+        expect(grid.query(0.9, 0.1, 0.2).sort()).toEqual(['a', 'b']);
+        expect(grid.query(10.2, 10.1, 0.1)).toEqual(['c']);
+        expect(grid.query(5, 5, 0.5)).toEqual([]);
+    });
+
+    it('suit les éléments déplacés et retirés', () => {
+        const grid = new SpatialGrid<number>(0.5);
+        grid.update(1, 0, 0);
+        grid.update(1, 3, 3);
+        expect(grid.query(0, 0, 0.1)).toEqual([]);
+        expect(grid.query(3, 3, 0.1)).toEqual([1]);
+        expect(grid.size).toBe(1);
+
+        grid.remove(1);
+        expect(grid.query(3, 3, 0.1)).toEqual([]);
+        expect(grid.size).toBe(0);
+    });
+});
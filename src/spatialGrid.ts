@@ -0,0 +1,73 @@
+// src/spatialGrid.ts
+// Index spatial des pièces dans le plan (x, y) : une grille uniforme de cellules, chaque élément rangé dans la
+// cellule de son centre. Les recherches de proximité ne parcourent que les cellules voisines, pas tout le puzzle.
+export class SpatialGrid<T> {
+    private _cellSize: number;
+    private _cells: Map<string, Set<T>> = new Map();
+    private _itemCells: Map<T, string> = new Map(); // Cellule actuelle de chaque élément
+
+    constructor(cellSize: number) {
+        this._cellSize = cellSize;
+    }
+
+    public get size(): number {
+        return this._itemCells.size;
+    }
+
+    // Range (ou déplace) un élément à la position donnée
+    public update(item: T, x: number, y: number): void {
+        const key = this._cellKey(Math.floor(x / this._cellSize), Math.floor(y / this._cellSize));
+        const previous = this._itemCells.get(item);
+        if (previous === key) return;
+        if (previous !== undefined) this._removeFromCell(item, previous);
+
+        let cell = this._cells.get(key);
+        if (!cell) this._cells.set(key, cell = new Set());
+        cell.add(item);
+        this._itemCells.set(item, key);
+    }
+
+    public remove(item: T): void {
+        const key = this._itemCells.get(item);
+        if (key === undefined) return;
+        this._removeFromCell(item, key);
+        this._itemCells.delete(item);
+    }
+
+    // Éléments dont le centre est peut-être à moins de radius du point : ceux des cellules qui touchent
+    // le carré [x - radius, x + radius] x [y - radius, y + radius] (à filtrer ensuite par la vraie distance)
+    public query(x: number, y: number, radius: number): T[] {
+        return this.queryArea(x - radius, y - radius, x + radius, y + radius);
+    }
+
+    // Éléments des cellules qui touchent le rectangle [minX, maxX] x [minY, maxY] (à filtrer ensuite par leur position)
+    public queryArea(minX: number, minY: number, maxX: number, maxY: number): T[] {
+        const found: T[] = [];
+        const minCol = Math.floor(minX / this._cellSize);
+        const maxCol = Math.floor(maxX / this._cellSize);
+        const minRow = Math.floor(minY / this._cellSize);
+        const maxRow = Math.floor(maxY / this._cellSize);
+        for (let cx = minCol; cx <= maxCol; cx++) {
+            for (let cy = minRow; cy <= maxRow; cy++) {
+                this._cells.get(this._cellKey(cx, cy))?.forEach(item => found.push(item));
+            }
+        }
+        return found;
+    }
+
+    public clear(): void {
+        this._cells.clear();
+        this._itemCells.clear();
+    }
+
+    private _removeFromCell(item: T, key: string): void {
+        const cell = this._cells.get(key);
+        if (!cell) return;
+        cell.delete(item);
+        if (cell.size === 0) this._cells.delete(key);
+    }
+
+    private _cellKey(cx: number, cy: number): string {
+        return `${cx}:${cy}`;
+    }
+}
@@ -0,0 +1,123 @@
+// src/trayLayout.test.ts
+import { describe, it, expect } from 'vitest';
+import { PuzzleModel } from './puzzleModel';
+import { createSeededRandom } from './random';
+import { spreadOutPieces, gatherPieces, fanOutStack, isEdgePiece, PiecePlacement } from './trayLayout';
+import { MAX_TAB_DEPTH } from './jigsawShape';
+
+function createShuffledModel(rows = 4, cols = 5): PuzzleModel {
+    const model = new PuzzleModel({ rows, cols, tileWidth: 1, tileHeight: 1, depth: 0.1 });
+    model.shuffle({ rotation: false, random: createSeededRandom(7) });
+    return model;
+}
+
+// Applique les places calculées, comme le jeu à la fin de l'animation
+function apply(placements: PiecePlacement[]): void {
+    placements.forEach(({ piece, x, y, z }) => piece.setPosition(x, y, z));
+}
+
+// Deux pièces de groupes différents ne se chevauchent pas, tenons compris
+function expectNoOverlap(model: PuzzleModel): void {
+    const spacing = 1 + 2 * MAX_TAB_DEPTH;
+    const loose = model.pieces.filter(piece => !piece.isLocked);
+    for (const a of loose) {
+        for (const b of loose) {
+            if (a === b || a.cluster === b.cluster) continue;
+            const apart = Math.max(Math.abs(a.position.x - b.position.x), Math.abs(a.position.y - b.position.y));
+            expect(apart).toBeGreaterThanOrEqual(spacing - 1e-9);
+        }
+    }
+}
+
+describe('rangement de la table', () => {
+    it('étale les pièces libres autour du plateau, sans chevauchement', () => {
+        const model = createShuffledModel();
+        model.getPiece(7).setPosition(model.getPiece(7).target.x, model.getPiece(7).target.y, model.tableZ);
+        model.getPiece(7).lockInPlace();
+
+        const placements = spreadOutPieces(model);
+        expect(placements.map(placement => placement.piece)).not.toContain(model.getPiece(7));
+        expect(placements).toHaveLength(19);
+        apply(placements);
+
+        expectNoOverlap(model);
+        for (const { piece } of placements) {
+            const outside = Math.abs(piece.position.x) > model.width / 2 + 0.5 || Math.abs(piece.position.y) > model.height / 2 + 0.5;
+            expect(outside).toBe(true);
+            expect(piece.position.z).toBe(model.tableZ);
+        }
+    });
+
+    it('garde les groupes emboîtés entiers', () => {
+        const model = createShuffledModel();
+        const a = model.getPiece(0);
+        const b = model.getPiece(1);
+        b.setPosition(a.position.x + (b.target.x - a.target.x), a.position.y, model.tableZ);
+        expect(model.snap(b)).toBe(true);
+
+        apply(spreadOutPieces(model));
+        expect(a.cluster).toBe(b.cluster);
+        expect(b.position.x - a.position.x).toBeCloseTo(b.target.x - a.target.x);
+        expect(b.position.y).toBeCloseTo(a.position.y);
+        expectNoOverlap(model);
+    });
+
+    it('range les pièces du bord à gauche du plateau', () => {
+        const model = createShuffledModel();
+        apply(spreadOutPieces(model, true));
+
+        const edges = model.pieces.filter(piece => isEdgePiece(model, piece));
+        expect(edges).toHaveLength(14);
+        edges.forEach(piece => expect(piece.position.x).toBeGreaterThan(model.width / 2));
+        expectNoOverlap(model);
+    });
+
+    it('laisse en place l’image en cours d’assemblage libre', () => {
+        const model = new PuzzleModel({ rows: 4, cols: 5, tileWidth: 1, tileHeight: 1, depth: 0.1, freeForm: true });
+        model.shuffle({ rotation: false, random: createSeededRandom(7) });
+        const [a, b] = [model.getPiece(0), model.getPiece(1)];
+        a.setPosition(6, 0, model.tableZ);
+        b.setPosition(6 + b.target.x - a.target.x, 0, model.tableZ);
+        expect(model.snap(b)).toBe(true);
+
+        const placements = spreadOutPieces(model);
+        expect(placements.map(placement => placement.piece)).not.toContain(a);
+        apply(placements);
+        expect(a.position.x).toBe(6);
+        expectNoOverlap(model);
+    });
+
+    it('rassemble une sélection près de son centre, sans toucher aux autres pièces', () => {
+        const model = createShuffledModel();
+        apply(spreadOutPieces(model));
+        const selection = [model.getPiece(0), model.getPiece(9), model.getPiece(19)];
+        const others = model.pieces.filter(piece => !selection.includes(piece)).map(piece => ({ ...piece.position }));
+        const centerX = selection.reduce((sum, piece) => sum + piece.position.x, 0) / 3;
+        const centerY = selection.reduce((sum, piece) => sum + piece.position.y, 0) / 3;
+
+        const placements = gatherPieces(model, selection);
+        expect(placements.map(placement => placement.piece)).toEqual(selection);
+        apply(placements);
+
+        expect(model.pieces.filter(piece => !selection.includes(piece)).map(piece => ({ ...piece.position }))).toEqual(others);
+        expectNoOverlap(model);
+        const pitch = 1 + 2 * MAX_TAB_DEPTH;
+        selection.forEach(piece => expect(Math.hypot(piece.position.x - centerX, piece.position.y - centerY)).toBeLessThan(3 * pitch));
+    });
+
+    it('déplie une pile en posant toutes ses pièces sur la table', () => {
+        const model = createShuffledModel();
+        apply(spreadOutPieces(model));
+        const [bottom, top] = [model.getPiece(0), model.getPiece(12)];
+        top.setPosition(bottom.position.x + 0.3, bottom.position.y, 1);
+        model.snap(top);
+        expect(top.position.z).toBeGreaterThan(model.tableZ);
+
+        const placements = fanOutStack(model, top);
+        expect(placements.map(placement => placement.piece)).toEqual([bottom, top]);
+        apply(placements);
+        expectNoOverlap(model);
+        expect(top.position.z).toBe(model.tableZ);
+        expect(fanOutStack(model, top)).toEqual([]);
+    });
+});
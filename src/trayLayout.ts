@@ -0,0 +1,193 @@
+// src/trayLayout.ts
+// Rangement de la table, indépendant du rendu : nouvelles places des pièces libres quand on les étale autour
+// du plateau (les bords d'un même côté si demandé), qu'on rassemble une sélection ou qu'on déplie une pile.
+// La table est découpée en cases assez grandes pour une pièce et ses tenons ; les groupes emboîtés
+// restent entiers et occupent un bloc de cases. Aucune case du plateau (ou de l'objet en volume) n'est utilisée,
+// ni celles de l'image en cours d'assemblage libre, qui ne bouge pas.
+import { MAX_TAB_DEPTH } from './jigsawShape';
+import type { PuzzleModel, PieceState } from './puzzleModel';
+import type { PieceCluster } from './pieceCluster';
+
+export interface PiecePlacement {
+    piece: PieceState;
+    x: number;
+    y: number;
+    z: number;
+}
+
+interface TrayCell {
+    i: number;
+    j: number;
+    distance: number;   // Ordre de remplissage : les cases les plus proches d'abord
+}
+
+const VOLUME_SPACING = 1.15; // Pièces en volume (sans tenons) : un peu d'espace entre elles
+const GRID_EPSILON = 1e-6;   // Tolérance d'arrondi pour une pièce déjà posée au centre d'une case
+
+// Une pièce du bord de l'image (ou de la grille de l'objet)
+export function isEdgePiece(model: PuzzleModel, piece: PieceState): boolean {
+    return piece.row === 0 || piece.row === model.rows - 1 || piece.col === 0 || piece.col === model.cols - 1;
+}
+
+// Étale toutes les pièces libres autour du plateau, sans chevauchement, les plus grands groupes au plus près.
+// edgesFirst : les groupes qui contiennent une pièce du bord vont à gauche du plateau (vu par le joueur, x positifs).
+export function spreadOutPieces(model: PuzzleModel, edgesFirst: boolean = false): PiecePlacement[] {
+    const clusters = getLooseClusters(model, model.pieces);
+    const placed = new Set(clusters.flat());
+    const isEdgeCluster = (cluster: PieceState[]) => edgesFirst && cluster.some(piece => isEdgePiece(model, piece));
+    clusters.sort((a, b) => Number(isEdgeCluster(b)) - Number(isEdgeCluster(a)) || b.length - a.length || a[0].index - b[0].index);
+
+    for (let extra = 2; ; extra *= 2) {
+        const tray = new TrayGrid(model, Math.ceil(Math.sqrt(model.pieces.length)) + extra);
+        model.pieces.forEach(piece => {
+            if (!placed.has(piece)) tray.occupyAt(piece.position.x, piece.position.y);
+        });
+        const all = tray.cells((x, y) => tray.distanceToBoard(x, y));
+        const left = all.filter(cell => cell.i * tray.pitch > model.width / 2);
+        const placements: PiecePlacement[] = [];
+        const complete = clusters.every(cluster => {
+            const placed = tray.place(cluster, isEdgeCluster(cluster) ? left : all);
+            placed?.forEach(placement => placements.push(placement));
+            return placed !== null;
+        });
+        if (complete) return placements;
+    }
+}
+
+// Rassemble les pièces choisies (et leurs groupes) au plus près de leur centre commun, sans chevaucher
+// les autres pièces libres ni le plateau
+export function gatherPieces(model: PuzzleModel, pieces: PieceState[]): PiecePlacement[] {
+    const clusters = getLooseClusters(model, pieces);
+    if (clusters.length === 0) return [];
+    const gathered = new Set(clusters.flat());
+    const members = Array.from(gathered);
+    const centerX = members.reduce((sum, piece) => sum + piece.position.x, 0) / members.length;
+    const centerY = members.reduce((sum, piece) => sum + piece.position.y, 0) / members.length;
+    clusters.sort((a, b) => b.length - a.length || a[0].index - b[0].index);
+
+    for (let extra = 2; ; extra *= 2) {
+        const tray = new TrayGrid(model, Math.ceil(Math.sqrt(model.pieces.length)) + extra, centerX, centerY);
+        model.pieces.forEach(piece => {
+            if (!gathered.has(piece)) tray.occupyAt(piece.position.x, piece.position.y);
+        });
+        const cells = tray.cells((x, y) => Math.hypot(x - centerX, y - centerY));
+        const placements: PiecePlacement[] = [];
+        const complete = clusters.every(cluster => {
+            const placed = tray.place(cluster, cells);
+            placed?.forEach(placement => placements.push(placement));
+            return placed !== null;
+        });
+        if (complete) return placements;
+    }
+}
+
+// Déplie la pile de la pièce : ses pièces (et leurs groupes) côte à côte autour de la pile ; rien si elle est seule
+export function fanOutStack(model: PuzzleModel, piece: PieceState): PiecePlacement[] {
+    const stack = model.findStack(piece);
+    return new Set(stack.map(member => member.cluster)).size > 1 ? gatherPieces(model, stack) : [];
+}
+
+// Pièces libres regroupées par groupe emboîté (un groupe verrouillé, ou déjà assemblé, ne bouge pas)
+function getLooseClusters(model: PuzzleModel, pieces: PieceState[]): PieceState[][] {
+    const assembled = model.findAssembledPieces();
+    const clusters = new Map<PieceCluster, PieceState[]>();
+    for (const piece of pieces) {
+        if (piece.cluster.isLocked || assembled.has(piece) || clusters.has(piece.cluster)) continue;
+        clusters.set(piece.cluster, Array.from(piece.cluster.pieces).sort((a, b) => a.index - b.index));
+    }
+    return Array.from(clusters.values());
+}
+
+// Cases de rangement autour d'un centre (celui du plateau, ou d'une sélection à rassembler)
+class TrayGrid {
+    public readonly pitch: number;      // Côté d'une case
+    private _model: PuzzleModel;
+    private _z: number;                 // Hauteur des pièces rangées : posées sur la table, ou dans le plan de l'objet
+    private _centerI: number;
+    private _centerJ: number;
+    private _radius: number;            // Demi-côté du carré de cases disponibles, en cases
+    private _occupied: Set<string> = new Set();
+
+    constructor(model: PuzzleModel, extraRadius: number, centerX: number = 0, centerY: number = 0) {
+        this._model = model;
+        const largest = Math.max(model.tileWidth, model.tileHeight);
+        this.pitch = model.isVolumetric
+            ? Math.max(largest, model.depth) * VOLUME_SPACING
+            : largest + 2 * MAX_TAB_DEPTH * Math.min(model.tileWidth, model.tileHeight);
+        this._z = model.isVolumetric ? 0 : model.tableZ;
+        this._centerI = Math.round(centerX / this.pitch);
+        this._centerJ = Math.round(centerY / this.pitch);
+        this._radius = Math.ceil(Math.max(model.width, model.height) / 2 / this.pitch) + extraRadius;
+    }
+
+    // Distance d'un point au bord du plateau (nulle dessus)
+    public distanceToBoard(x: number, y: number): number {
+        return Math.hypot(Math.max(Math.abs(x) - this._model.width / 2, 0), Math.max(Math.abs(y) - this._model.height / 2, 0));
+    }
+
+    // Cases hors du plateau, triées selon la distance donnée (puis de haut en bas et de gauche à droite, vu par le joueur)
+    public cells(distance: (x: number, y: number) => number): TrayCell[] {
+        const cells: TrayCell[] = [];
+        for (let i = this._centerI - this._radius; i <= this._centerI + this._radius; i++) {
+            for (let j = this._centerJ - this._radius; j <= this._centerJ + this._radius; j++) {
+                if (this._isOnBoard(i, j)) continue;
+                cells.push({ i, j, distance: distance(i * this.pitch, j * this.pitch) });
+            }
+        }
+        return cells.sort((a, b) => a.distance - b.distance || b.j - a.j || b.i - a.i);
+    }
+
+    // Réserve les cases que chevauche une pièce posée hors de la grille (jusqu'à quatre)
+    public occupyAt(x: number, y: number): void {
+        const i = x / this.pitch;
+        const j = y / this.pitch;
+        for (const ci of new Set([Math.floor(i + GRID_EPSILON), Math.ceil(i - GRID_EPSILON)])) {
+            for (const cj of new Set([Math.floor(j + GRID_EPSILON), Math.ceil(j - GRID_EPSILON)])) this._occupied.add(this._key(ci, cj));
+        }
+    }
+
+    // Place un groupe dans le premier bloc de cases libres (sa case d'origine prise parmi candidates) ; null si aucun
+    public place(cluster: PieceState[], candidates: TrayCell[]): PiecePlacement[] | null {
+        const minX = Math.min(...cluster.map(piece => piece.position.x));
+        const minY = Math.min(...cluster.map(piece => piece.position.y));
+        const spanI = Math.ceil((Math.max(...cluster.map(piece => piece.position.x)) - minX) / this.pitch);
+        const spanJ = Math.ceil((Math.max(...cluster.map(piece => piece.position.y)) - minY) / this.pitch);
+        // Pièces en volume : le groupe garde ses écarts de profondeur, autour du plan de rangement
+        const minZ = Math.min(...cluster.map(piece => piece.position.z));
+
+        const origin = candidates.find(cell => this._isBlockFree(cell.i, cell.j, spanI, spanJ));
+        if (!origin) return null;
+        for (let i = origin.i; i <= origin.i + spanI; i++) {
+            for (let j = origin.j; j <= origin.j + spanJ; j++) this._occupied.add(this._key(i, j));
+        }
+        return cluster.map(piece => ({
+            piece,
+            x: origin.i * this.pitch + piece.position.x - minX,
+            y: origin.j * this.pitch + piece.position.y - minY,
+            z: this._model.isVolumetric ? this._z + piece.position.z - minZ : this._z
+        }));
+    }
+
+    private _isBlockFree(i0: number, j0: number, spanI: number, spanJ: number): boolean {
+        for (let i = i0; i <= i0 + spanI; i++) {
+            for (let j = j0; j <= j0 + spanJ; j++) {
+                if (this._occupied.has(this._key(i, j)) || this._isOnBoard(i, j) || !this._isInside(i, j)) return false;
+            }
+        }
+        return true;
+    }
+
+    // Une case qui touche le plateau (ou l'objet reconstitué) n'est pas utilisée
+    private _isOnBoard(i: number, j: number): boolean {
+        const halfPitch = this.pitch / 2;
+        return Math.abs(i * this.pitch) - halfPitch < this._model.width / 2 && Math.abs(j * this.pitch) - halfPitch < this._model.height / 2;
+    }
+
+    private _isInside(i: number, j: number): boolean {
+        return Math.abs(i - this._centerI) <= this._radius && Math.abs(j - this._centerJ) <= this._radius;
+    }
+
+    private _key(i: number, j: number): string {
+        return `${i}:${j}`;
+    }
+}
@@ -0,0 +1,152 @@
+// src/xrPanel.ts
+// Panneau d'interface dans la scène pour les sessions XR, où la page HTML n'est pas visible : message,
+// chrono, progression, boutons Recommencer, Nouvelle partie et Indice, et outils de rangement de la table
+// (étaler, bords d'abord, rassembler la sélection). Il suit le regard du joueur,
+// ou s'accroche au poignet gauche (main suivie) ou au contrôleur gauche.
+// Ses boutons réagissent au laser comme au doigt (interaction de proximité de WebXR).
+import { Scene, Mesh, MeshBuilder, TransformNode, FollowBehavior, Vector3, Ray } from '@babylonjs/core';
+import { AdvancedDynamicTexture, StackPanel, TextBlock, Button, Control } from '@babylonjs/gui';
+
+export interface XRPanelHandlers {
+    onReset: () => void;
+    onNewGame: () => void;
+    onHint: () => void;
+    onSpread: () => void;
+    onEdgesFirst: () => void;
+    onGather: () => void;
+}
+
+const PANEL_WIDTH = 0.3;     // En mètres
+const PANEL_HEIGHT = 0.22;
+const TEXTURE_WIDTH = 1000;  // Résolution de la texture de l'interface, aux mêmes proportions que le panneau
+const TEXTURE_HEIGHT = 733;
+const FOLLOW_DISTANCE = 0.6;
+// Accroché au poignet ou au contrôleur : un peu au-dessus, incliné vers le visage
+const ATTACHED_POSITION = new Vector3(0, 0.08, 0.02);
+const ATTACHED_TILT = Math.PI / 4;
+
+export class XRPanel {
+    private _mesh: Mesh;
+    private _texture: AdvancedDynamicTexture;
+    private _message: TextBlock;
+    private _stats: TextBlock;
+    private _follow: FollowBehavior = new FollowBehavior();
+    private _anchor: TransformNode | null = null;
+
+    constructor(scene: Scene, handlers: XRPanelHandlers) {
+        this._mesh = MeshBuilder.CreatePlane('xrPanel', { width: PANEL_WIDTH, height: PANEL_HEIGHT }, scene);
+        this._mesh.setEnabled(false);
+        this._texture = AdvancedDynamicTexture.CreateForMesh(this._mesh, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+        this._texture.background = 'rgba(20, 20, 30, 0.85)';
+
+        this._follow.defaultDistance = FOLLOW_DISTANCE;
+        this._follow.minimumDistance = FOLLOW_DISTANCE * 0.7;
+        this._follow.maximumDistance = FOLLOW_DISTANCE * 1.3;
+        this._follow.pitchOffset = 15; // Un peu sous la ligne du regard, pour ne pas masquer le puzzle
+
+        const layout = new StackPanel('xrPanelLayout');
+        layout.paddingTop = '30px';
+        this._texture.addControl(layout);
+
+        this._message = this._createText('xrPanelMessage', 44, 220);
+        this._stats = this._createText('xrPanelStats', 38, 90);
+        layout.addControl(this._message);
+        layout.addControl(this._stats);
+
+        layout.addControl(this._createButtonRow('xrPanelButtons', 40, [
+            ['xrResetButton', 'Recommencer', handlers.onReset],
+            ['xrNewGameButton', 'Nouvelle partie', handlers.onNewGame],
+            ['xrHintButton', 'Indice', handlers.onHint]
+        ]));
+        layout.addControl(this._createButtonRow('xrPanelTrayButtons', 10, [
+            ['xrSpreadButton', 'Étaler', handlers.onSpread],
+            ['xrEdgesButton', "Bords d'abord", handlers.onEdgesFirst],
+            ['xrGatherButton', 'Rassembler', handlers.onGather]
+        ]));
+    }
+
+    public get isVisible(): boolean {
+        return this._mesh.isEnabled();
+    }
+
+    // Rayon d'un contrôleur pointé sur le panneau (ses boutons, pas la table derrière)
+    public isPointedBy(ray: Ray): boolean {
+        return this.isVisible && ray.intersectsMesh(this._mesh).hit;
+    }
+
+    // Affiché à l'entrée en XR, devant le joueur (ou là où il est accroché)
+    public show(): void {
+        this._mesh.setEnabled(true);
+        if (!this._anchor) this._startFollowing();
+    }
+
+    public hide(): void {
+        this._mesh.setEnabled(false);
+        this._stopFollowing();
+    }
+
+    // Accroche le panneau à une main ou un contrôleur ; null : il suit à nouveau le regard
+    public attachTo(anchor: TransformNode | null): void {
+        this._anchor = anchor;
+        if (anchor) {
+            this._stopFollowing();
+            this._mesh.parent = anchor;
+            this._mesh.position.copyFrom(ATTACHED_POSITION);
+            this._mesh.rotationQuaternion = null;
+            this._mesh.rotation.set(ATTACHED_TILT, 0, 0);
+        } else {
+            this._mesh.parent = null;
+            if (this.isVisible) this._startFollowing();
+        }
+    }
+
+    public setMessage(text: string): void {
+        this._message.text = text;
+    }
+
+    public setStats(time: string, lockedPieces: number, totalPieces: number): void {
+        this._stats.text = `${time} — Pièces en place : ${lockedPieces} / ${totalPieces}`;
+    }
+
+    private _startFollowing(): void {
+        if (!this._follow.attachedNode) this._follow.attach(this._mesh);
+        this._follow.recenter();
+    }
+
+    private _stopFollowing(): void {
+        if (this._follow.attachedNode) this._follow.detach();
+    }
+
+    private _createButtonRow(name: string, paddingTop: number, buttons: [string, string, () => void][]): StackPanel {
+        const row = new StackPanel(name);
+        row.isVertical = false;
+        row.height = `${120 + paddingTop}px`;
+        row.paddingTop = `${paddingTop}px`;
+        for (const [buttonName, label, onClick] of buttons) {
+            const button = Button.CreateSimpleButton(buttonName, label);
+            button.width = '300px';
+            button.height = '120px';
+            button.paddingLeft = '10px';
+            button.paddingRight = '10px';
+            button.color = 'white';
+            button.fontSize = 40;
+            button.background = '#007bff';
+            button.cornerRadius = 12;
+            button.onPointerUpObservable.add(() => onClick());
+            row.addControl(button);
+        }
+        return row;
+    }
+
+    private _createText(name: string, fontSize: number, height: number): TextBlock {
+        const text = new TextBlock(name);
+        text.color = 'white';
+        text.fontSize = fontSize;
+        text.height = `${height}px`;
+        text.textWrapping = true;
+        text.paddingLeft = '30px';
+        text.paddingRight = '30px';
+        text.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_CENTER;
+        return text;
+    }
+}